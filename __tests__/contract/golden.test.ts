@@ -20,12 +20,16 @@ interface GoldenTestAssertions {
   text_contains?: string[];
   any_result_contains?: string[];
   fields_present?: string[];
+  /** Dot paths into the response ("results.citations.0.status") and their expected values */
+  field_equals?: Record<string, unknown>;
   text_not_empty?: boolean;
   min_results?: number;
   citation_url_pattern?: string;
   upstream_text_hash?: { url: string; expected_sha256: string };
   citation_resolves?: boolean;
   handles_gracefully?: boolean;
+  /** The tool returns an error whose message contains each string */
+  error_contains?: string[];
 }
 
 interface GoldenTest {
@@ -225,6 +229,16 @@ describe.skipIf(!dbAvailable)(`Contract tests: ${fixture.mcp_name}`, () => {
         });
       }
 
+      if (test.assertions.field_equals) {
+        for (const [path, expected] of Object.entries(test.assertions.field_equals)) {
+          it(`result field ${path} equals ${JSON.stringify(expected)}`, async () => {
+            result ??= await callTool(mcpClient, test.tool, test.input);
+            expect(result.ok).toBe(true);
+            expect(result.data).toHaveProperty(path, expected);
+          });
+        }
+      }
+
       if (test.assertions.text_not_empty) {
         it('result text is not empty', async () => {
           result ??= await callTool(mcpClient, test.tool, test.input);
@@ -291,6 +305,16 @@ describe.skipIf(!dbAvailable)(`Contract tests: ${fixture.mcp_name}`, () => {
         );
       }
 
+      if (test.assertions.error_contains) {
+        for (const needle of test.assertions.error_contains) {
+          it(`error contains "${needle}"`, async () => {
+            result ??= await callTool(mcpClient, test.tool, test.input);
+            expect(result.ok).toBe(false);
+            expect(result.error?.message).toContain(needle);
+          });
+        }
+      }
+
       if (test.assertions.handles_gracefully) {
         it('handles gracefully (no unhandled exception)', async () => {
           result ??= await callTool(mcpClient, test.tool, test.input);
@@ -0,0 +1,67 @@
+/**
+ * In-memory databases with the real schema, for unit tests of the tools.
+ * Rows are inserted directly; FTS indexes are kept in sync by the schema's
+ * triggers.
+ */
+
+import Database from '@ansvar/mcp-sqlite';
+import { normalizeKoreanText } from '../../src/utils/korean-text.js';
+import { EMBEDDINGS_SCHEMA, SCHEMA } from '../../scripts/lib/schema.js';
+
+export type TestDb = InstanceType<typeof Database>;
+
+export interface TestDocument {
+  id: string;
+  title: string;
+  type?: 'statute' | 'presidential_decree' | 'ministerial_ordinance';
+  title_en?: string;
+  short_name?: string;
+  ministry?: string;
+  status?: string;
+  issued_date?: string;
+  in_force_date?: string;
+}
+
+export interface TestProvision {
+  document_id: string;
+  provision_ref: string;
+  section?: string;
+  title?: string;
+  content: string;
+  content_en?: string;
+  chapter?: string;
+  kind?: 'article' | 'addendum';
+}
+
+export function createTestDb(options: { embeddings?: boolean } = {}): TestDb {
+  const db = new Database(':memory:');
+  db.exec(SCHEMA);
+  if (options.embeddings) db.exec(EMBEDDINGS_SCHEMA);
+  return db;
+}
+
+export function insertDocument(db: TestDb, doc: TestDocument): void {
+  db.prepare(`
+    INSERT INTO legal_documents (id, type, title, title_en, short_name, ministry, status, issued_date, in_force_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    doc.id, doc.type ?? 'statute', doc.title, doc.title_en ?? null, doc.short_name ?? null,
+    doc.ministry ?? null, doc.status ?? 'in_force', doc.issued_date ?? null, doc.in_force_date ?? null,
+  );
+}
+
+/** Inserts the provision and returns its legal_provisions.id */
+export function insertProvision(db: TestDb, provision: TestProvision): number {
+  const article = provision.provision_ref.match(/^art-(\d+)(?:-(\d+))?$/);
+  const section = provision.section
+    ?? (article ? `제${article[1]}조${article[2] ? `의${article[2]}` : ''}` : provision.provision_ref);
+  const result = db.prepare(`
+    INSERT INTO legal_provisions (document_id, provision_ref, kind, chapter, section, title, content, content_en, content_norm)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    provision.document_id, provision.provision_ref, provision.kind ?? 'article', provision.chapter ?? null,
+    section, provision.title ?? null, provision.content, provision.content_en ?? null,
+    normalizeKoreanText(provision.content),
+  );
+  return Number(result.lastInsertRowid);
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { findActorMentions, findAddressee, resolveActor } from '../../src/utils/actors.js';
+import { tagActors } from '../../src/utils/obligations.js';
+import { searchLegislation, type SearchLegislationResult } from '../../src/tools/search-legislation.js';
+import { createTestDb, insertDocument, insertProvision, type TestDb } from '../helpers/test-db.js';
+
+function mentions(text: string) {
+  return findActorMentions(text).map(m => [m.actor.id, m.term]);
+}
+
+describe('findActorMentions', () => {
+  it('finds actor terms left to right, with or without spaces', () => {
+    expect(mentions('정보통신서비스제공자는 이용자의 동의를 받아 정보통신서비스 제공자가 정한')).toEqual([
+      ['ict_service_provider', '정보통신서비스제공자'],
+      ['data_subject', '이용자'],
+      ['ict_service_provider', '정보통신서비스 제공자'],
+    ]);
+  });
+
+  it('prefers the longest term and does not report the terms inside it', () => {
+    expect(mentions('개인위치정보사업자는 공공기관의 장에게')).toEqual([
+      ['location_information_provider', '개인위치정보사업자'],
+      ['public_institution', '공공기관의 장'],
+    ]);
+  });
+
+  it('ignores a term at the end of a longer word', () => {
+    expect(mentions('신용정보이용자 및 정보이용자')).toEqual([]);
+  });
+});
+
+describe('findAddressee', () => {
+  it('returns the first actor written as the subject', () => {
+    expect(findAddressee('보호위원회는 개인정보처리자에게 시정을 명할 수 있다')?.actor.id).toBe('regulator');
+    expect(findAddressee('정보주체의 동의를 받은 경우 개인정보처리자는 이를 제공하여야 한다')?.actor.id)
+      .toBe('personal_information_controller');
+  });
+
+  it('treats 누구든지 as the addressee wherever it stands', () => {
+    expect(findAddressee('누구든지 개인정보를 유출하여서는 아니 된다')?.term).toBe('누구든지');
+  });
+
+  it('returns null when the subject is not a known actor', () => {
+    expect(findAddressee('제1항에 따른 조치의 기준은 대통령령으로 정한다')).toBeNull();
+  });
+});
+
+describe('resolveActor', () => {
+  it('accepts an actor id or any of its Korean terms, ignoring spacing and case', () => {
+    expect(resolveActor('mydata_operator').id).toBe('mydata_operator');
+    expect(resolveActor('MYDATA_OPERATOR').id).toBe('mydata_operator');
+    expect(resolveActor('마이데이터사업자').id).toBe('mydata_operator');
+    expect(resolveActor('정보통신서비스제공자').id).toBe('ict_service_provider');
+  });
+
+  it('rejects unknown roles and lists the actor ids', () => {
+    expect(() => resolveActor('controller')).toThrow(/Unknown role "controller".*personal_information_controller/);
+  });
+});
+
+describe('role filter', () => {
+  let db: TestDb;
+
+  beforeAll(() => {
+    db = createTestDb();
+    insertDocument(db, { id: 'act-pipa', title: '개인정보 보호법' });
+    const provisions = [
+      { provision_ref: 'art-29', content: '개인정보처리자는 개인정보가 유출되지 아니하도록 안전성 확보에 필요한 조치를 하여야 한다.' },
+      { provision_ref: 'art-35', content: '정보주체는 자신의 개인정보에 대한 열람을 개인정보처리자에게 요구할 수 있다.' },
+      { provision_ref: 'art-59', content: '누구든지 개인정보를 처리하였던 자는 업무상 알게 된 개인정보를 누설하여서는 아니 된다.' },
+      { provision_ref: 'art-63', content: '보호위원회는 개인정보가 유출된 경우 관계 물품ㆍ서류 등 자료를 제출하게 할 수 있다.' },
+    ];
+    const insertActor = db.prepare(`
+      INSERT INTO provision_actors (document_id, provision_ref, actor_id, term, addressee) VALUES ('act-pipa', ?, ?, ?, ?)
+    `);
+    for (const provision of provisions) {
+      insertProvision(db, { document_id: 'act-pipa', ...provision });
+      for (const tag of tagActors(provision.content)) {
+        insertActor.run(provision.provision_ref, tag.actor_id, tag.term, tag.addressee ? 1 : 0);
+      }
+    }
+  });
+
+  async function search(query: string, role: string): Promise<string[]> {
+    const { results } = await searchLegislation(db, { query, role });
+    return (results as SearchLegislationResult[]).map(r => r.provision_ref).sort();
+  }
+
+  it('keeps provisions mentioning the actor and duties addressed to 누구든지', async () => {
+    expect(await search('개인정보', 'personal_information_controller')).toEqual(['art-29', 'art-35', 'art-59']);
+    expect(await search('개인정보', '정보주체')).toEqual(['art-35', 'art-59']);
+    expect(await search('개인정보', 'regulator')).toEqual(['art-59', 'art-63']);
+  });
+
+  it('is ignored with a warning on databases without actor tags', async () => {
+    const bare = createTestDb();
+    bare.exec('DROP TABLE provision_actors');
+    insertDocument(bare, { id: 'act-pipa', title: '개인정보 보호법' });
+    insertProvision(bare, { document_id: 'act-pipa', provision_ref: 'art-29', content: '개인정보처리자는 안전성 확보에 필요한 조치를 하여야 한다.' });
+
+    const { results, _metadata } = await searchLegislation(bare, { query: '안전성', role: 'regulator' });
+    expect(results).toHaveLength(1);
+    expect(_metadata.warnings).toEqual(['role filter ignored: this database has no actor tags (provision_actors).']);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { extractCommencements, parseAddendum, resolveCommencementDate } from '../../scripts/lib/addenda.js';
+
+const PIPA_2023 = {
+  promulgation_number: '19234',
+  promulgation_date: '2023-03-14',
+  text: [
+    '부칙 <제19234호, 2023. 3. 14.>',
+    '제1조(시행일) 이 법은 공포 후 6개월이 경과한 날부터 시행한다. 다만, 제35조의2의 개정규정은 2024년 3월 15일부터 시행하고, 제28조의8의 개정규정은 공포 후 1년이 경과한 날부터 시행한다.',
+    '제2조(개인정보 국외 이전에 관한 경과조치) 이 법 시행 전에 종전의 제17조제3항에 따라',
+    '개인정보를 국외로 제공한 경우에는 제28조의8의 개정규정에 따라 이전한 것으로 본다.',
+  ].join('\n'),
+};
+
+describe('parseAddendum', () => {
+  it('splits an addendum into articles keyed by promulgation number', () => {
+    const articles = parseAddendum(PIPA_2023, 0, new Set());
+
+    expect(articles.map(a => a.provision_ref)).toEqual(['add-19234-art-1', 'add-19234-art-2']);
+    expect(articles[0]).toMatchObject({
+      kind: 'addendum',
+      chapter: '부칙 <제19234호, 2023. 3. 14.>',
+      section: '부칙 제1조',
+      title: '시행일',
+      metadata: { promulgation_number: '19234', promulgation_date: '2023-03-14' },
+    });
+    // Continuation lines belong to the article above
+    expect(articles[1].content).toMatch(/제17조제3항에 따라 개인정보를 국외로 제공한/);
+  });
+
+  it('keeps an addendum without articles as one provision and avoids reusing refs', () => {
+    const used = new Set(['add-16930']);
+    const [single] = parseAddendum({ promulgation_number: '16930', promulgation_date: '2020-02-04', text: '이 법은 공포한 날부터 시행한다.' }, 3, used);
+
+    expect(single).toMatchObject({ provision_ref: 'add-16930-4', section: '부칙', content: '이 법은 공포한 날부터 시행한다.' });
+  });
+});
+
+describe('extractCommencements', () => {
+  it('reads the general date and the articles given dates of their own', () => {
+    const commencements = extractCommencements(parseAddendum(PIPA_2023, 0, new Set()));
+
+    expect(commencements.map(c => [c.provision_ref, c.effective_date])).toEqual([
+      [null, '2023-09-15'],
+      ['art-35-2', '2024-03-15'],
+      ['art-28-8', '2024-03-15'],
+    ]);
+    expect(commencements[0]).toMatchObject({ promulgation_number: '19234', addendum_ref: 'add-19234-art-1' });
+  });
+
+  it('skips dates delegated to a decree', () => {
+    const articles = parseAddendum({
+      promulgation_number: '1',
+      promulgation_date: '2023-03-14',
+      text: '제1조(시행일) 이 법은 공포 후 3개월이 경과한 날부터 시행한다. 다만, 제5조의 개정규정은 대통령령으로 정하는 날부터 시행한다.',
+    }, 0, new Set());
+
+    expect(extractCommencements(articles).map(c => c.provision_ref)).toEqual([null]);
+  });
+});
+
+describe('resolveCommencementDate', () => {
+  it('reads explicit dates', () => {
+    expect(resolveCommencementDate('2024년 3월 5일부터 시행한다', null)).toBe('2024-03-05');
+  });
+
+  it('counts periods from promulgation without the first day', () => {
+    expect(resolveCommencementDate('공포한 날부터 시행한다', '2023-03-14')).toBe('2023-03-14');
+    expect(resolveCommencementDate('공포 후 6개월이 경과한 날부터', '2023-03-14')).toBe('2023-09-15');
+    expect(resolveCommencementDate('공포 후 1년이 경과한 날부터', '2023-03-14')).toBe('2024-03-15');
+    expect(resolveCommencementDate('공포 후 30일이 경과한 날부터', '2023-03-14')).toBe('2023-04-14');
+  });
+
+  it('ends a period in months on the last day of a shorter month', () => {
+    expect(resolveCommencementDate('공포 후 1개월이 경과한 날부터', '2023-01-31')).toBe('2023-03-01');
+  });
+
+  it('returns null when the date cannot be resolved', () => {
+    expect(resolveCommencementDate('공포 후 6개월이 경과한 날부터', null)).toBeNull();
+    expect(resolveCommencementDate('대통령령으로 정하는 날부터', '2023-03-14')).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { articleOrderSql, articleProvisionRef, koreanArticleLabel, normalizeArticle } from '../../src/utils/article-ref.js';
+
+describe('normalizeArticle', () => {
+  it('reads branch articles in every notation as "N-M"', () => {
+    for (const input of ['15-2', '15의2', '15 의 2', '제15조의2', '제 15 조의 2', 'Article 15-2', 'Art. 15bis', 'art15BIS', 'art-15-2']) {
+      expect(normalizeArticle(input), input).toBe('15-2');
+    }
+    expect(normalizeArticle('Art. 28octies')).toBe('28-8');
+  });
+
+  it('reads plain articles as "N"', () => {
+    for (const input of ['15', ' 15 ', '제15조', 'Article 15', 'Art. 15', 'art-15']) {
+      expect(normalizeArticle(input), input).toBe('15');
+    }
+  });
+
+  it('returns other input trimmed and unchanged', () => {
+    expect(normalizeArticle(' 부칙 제1조 ')).toBe('부칙 제1조');
+    expect(normalizeArticle('ABC-INVALID')).toBe('ABC-INVALID');
+    expect(normalizeArticle('15ter-2')).toBe('15ter-2');
+  });
+});
+
+describe('articleProvisionRef / koreanArticleLabel', () => {
+  it('builds the provision ref and the Korean label', () => {
+    expect(articleProvisionRef('제28조의8')).toBe('art-28-8');
+    expect(articleProvisionRef('Art. 15bis')).toBe('art-15-2');
+    expect(koreanArticleLabel('art-28-8')).toBe('제28조의8');
+    expect(koreanArticleLabel('Article 29')).toBe('제29조');
+  });
+});
+
+describe('articleOrderSql', () => {
+  it('orders branch articles numerically after their main article', () => {
+    const db = new Database(':memory:');
+    db.exec('CREATE TABLE p (provision_ref TEXT)');
+    const insert = db.prepare('INSERT INTO p VALUES (?)');
+    for (const ref of ['art-29', 'art-28-10', 'art-3', 'art-28-2', 'art-28']) insert.run(ref);
+
+    const rows = db.prepare(`SELECT provision_ref FROM p ORDER BY ${articleOrderSql('provision_ref')}`).all() as { provision_ref: string }[];
+    expect(rows.map(r => r.provision_ref)).toEqual(['art-3', 'art-28', 'art-28-2', 'art-28-10', 'art-29']);
+    db.close();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { categorizeProvision } from '../../src/utils/provision-categories.js';
+import { buildLegalStance } from '../../src/tools/build-legal-stance.js';
+import { createTestDb, insertDocument, insertProvision, type TestDb } from '../helpers/test-db.js';
+
+describe('categorizeProvision', () => {
+  it('reads duties and entitlements from the closing formulas', () => {
+    expect(categorizeProvision({ title: '안전조치의무', content: '개인정보처리자는 안전성 확보에 필요한 조치를 하여야 한다.' }))
+      .toEqual(['obligations']);
+    expect(categorizeProvision({ title: null, content: '개인정보를 목적 외의 용도로 이용하여서는 아니 된다.' }))
+      .toEqual(['obligations']);
+    expect(categorizeProvision({ title: '개인정보의 열람', content: '정보주체는 자신의 개인정보에 대한 열람을 요구할 수 있다.' }))
+      .toEqual(['rights']);
+    expect(categorizeProvision({ title: '정보주체의 권리', content: '정보주체는 다음 각 호의 권리를 가진다.' }))
+      .toEqual(['rights']);
+  });
+
+  it('gives an article both categories or none', () => {
+    expect(categorizeProvision({
+      title: '개인정보의 정정ㆍ삭제',
+      content: '정보주체는 그 개인정보의 정정 또는 삭제를 요구할 수 있다. 개인정보처리자는 지체 없이 조사하여 필요한 조치를 하여야 한다.',
+    })).toEqual(['obligations', 'rights']);
+    expect(categorizeProvision({ title: '목적', content: '이 법은 개인정보의 처리에 관한 사항을 정함을 목적으로 한다.' })).toEqual([]);
+  });
+
+  it('puts definition articles in definitions alone', () => {
+    expect(categorizeProvision({ title: '정의', content: '"처리"란 개인정보의 수집을 말한다. 개인정보처리자는 이를 준수하여야 한다.' }))
+      .toEqual(['definitions']);
+  });
+
+  it('recognises sanctions by title, chapter or wording', () => {
+    expect(categorizeProvision({ title: '과태료', content: '다음 각 호의 자에게는 3천만원 이하의 과태료를 부과한다.' }))
+      .toEqual(['sanctions']);
+    expect(categorizeProvision({ title: '양벌규정', chapter: '제10장 벌칙', content: '법인에게도 해당 조문의 벌금형을 과한다.' }))
+      .toEqual(['sanctions']);
+    expect(categorizeProvision({ title: null, content: '5년 이하의 징역 또는 5천만원 이하의 벌금에 처한다.' }))
+      .toEqual(['sanctions']);
+  });
+});
+
+describe('buildLegalStance', () => {
+  let db: TestDb;
+
+  beforeAll(() => {
+    db = createTestDb();
+    insertDocument(db, { id: 'act-pipa', title: '개인정보 보호법' });
+    insertDocument(db, { id: 'decree-pipa', title: '개인정보 보호법 시행령', type: 'presidential_decree' });
+    insertDocument(db, { id: 'act-old', title: '공공기관의 개인정보 보호에 관한 법률', status: 'repealed' });
+
+    const art29 = insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-29', title: '안전조치의무', chapter: '제4장 개인정보의 안전한 관리', content: '개인정보처리자는 개인정보가 유출되지 아니하도록 안전성 확보에 필요한 조치를 하여야 한다.' });
+    insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-75', title: '과태료', chapter: '제10장 벌칙', content: '제29조를 위반하여 안전성 확보에 필요한 조치를 하지 아니한 자에게는 3천만원 이하의 과태료를 부과한다.' });
+    insertProvision(db, { document_id: 'decree-pipa', provision_ref: 'art-30', title: '개인정보의 안전성 확보 조치', content: '개인정보처리자는 법 제29조에 따라 안전성 확보 조치를 해야 한다. 안전성 확보 조치의 세부 기준은 보호위원회가 정한다.' });
+    insertProvision(db, { document_id: 'act-old', provision_ref: 'art-9', title: '안전성 확보', content: '공공기관의 장은 개인정보의 안전성 확보에 필요한 조치를 강구하여야 한다.' });
+
+    db.prepare(`
+      INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type, context)
+      VALUES ('decree-pipa', 'art-30', 'act-pipa', 'art-29', 'implements', '법 제29조')
+    `).run();
+    db.prepare(`
+      INSERT INTO eu_documents (id, type, year, number, community, title, short_name)
+      VALUES ('regulation:2016/679', 'regulation', 2016, 679, 'EU', 'General Data Protection Regulation', 'GDPR')
+    `).run();
+    db.prepare(`
+      INSERT INTO eu_references (source_type, source_id, document_id, provision_id, eu_document_id, eu_article, reference_type)
+      VALUES ('provision', 'act-pipa:art-29', 'act-pipa', ?, 'regulation:2016/679', '32', 'references')
+    `).run(art29);
+  });
+
+  it('groups hits by statute, the statute with the best hit first', async () => {
+    const { results } = await buildLegalStance(db, { query: '안전성 확보' });
+
+    expect(results.statutes.map(s => [s.document_id, s.provisions.map(p => p.provision_ref)])).toEqual([
+      ['decree-pipa', ['art-30']],
+      ['act-old', ['art-9']],
+      ['act-pipa', ['art-29', 'art-75']],
+    ]);
+    expect(results.total_citations).toBe(4);
+
+    // BM25 is lower for better hits: groups follow their best hit, provisions their own rank
+    const best = results.statutes.map(s => s.provisions[0].relevance);
+    expect(best).toEqual([...best].sort((a, b) => a - b));
+    for (const statute of results.statutes) {
+      const relevance = statute.provisions.map(p => p.relevance);
+      expect(relevance).toEqual([...relevance].sort((a, b) => a - b));
+    }
+  });
+
+  it('enriches each provision with its category, implementing articles and EU basis', async () => {
+    const { results } = await buildLegalStance(db, { query: '안전성 확보', document_id: '개인정보 보호법' });
+    const [pipa] = results.statutes;
+
+    expect(pipa.provisions[0]).toMatchObject({
+      provision_ref: 'art-29',
+      categories: ['obligations'],
+      implemented_by: [expect.objectContaining({ document_id: 'decree-pipa', provision_ref: 'art-30', citation: '법 제29조' })],
+      eu_basis: [expect.objectContaining({ id: 'regulation:2016/679', article: '32' })],
+    });
+    expect(pipa.provisions[1]).toMatchObject({ provision_ref: 'art-75', categories: ['sanctions'], implemented_by: [], eu_basis: [] });
+    expect(results.stance).toEqual({
+      obligations: ['개인정보 보호법 제29조(안전조치의무)'],
+      rights: [],
+      sanctions: ['개인정보 보호법 제75조(과태료)'],
+      definitions: [],
+    });
+  });
+
+  it('warns about repealed statutes and marks them not current', async () => {
+    const { results, _metadata } = await buildLegalStance(db, { query: '안전성 확보' });
+
+    expect(results.statutes.find(s => s.document_id === 'act-old')).toMatchObject({ is_current: false, status: 'repealed' });
+    expect(_metadata.warnings).toEqual([
+      '공공기관의 개인정보 보호에 관한 법률 has been repealed (폐지); its provisions are not current law.',
+    ]);
+  });
+
+  it('falls back to LIKE when no full-text variant matches', async () => {
+    // Only inside a word ("보호위원회가"), which the FTS tokens do not split
+    const { results, _metadata } = await buildLegalStance(db, { query: '호위원' });
+
+    expect(_metadata.query_strategy).toBe('like_fallback');
+    expect(results.statutes.map(s => s.document_id)).toEqual(['decree-pipa']);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseCitation } from '../../src/citation/parser.js';
+
+describe('parseCitation branch articles', () => {
+  it('reads 제N조의M as article "N-M"', () => {
+    expect(parseCitation('개인정보 보호법 제28조의8')).toMatchObject({
+      valid: true,
+      type: 'statute',
+      title: '개인정보 보호법',
+      article: '28-8',
+    });
+    expect(parseCitation('제 28 조의 8 제 1 항 개인정보 보호법')).toMatchObject({ article: '28-8', paragraph: '1' });
+  });
+
+  it('reads branch items down to the sub-item', () => {
+    expect(parseCitation('「개인정보 보호법」 제15조제1항제1호의2')).toMatchObject({ article: '15', paragraph: '1', item: '1-2' });
+    expect(parseCitation('개인정보 보호법 제2조제1호의2가목 단서')).toMatchObject({
+      article: '2',
+      item: '1-2',
+      sub_item: '가',
+      clause: '단서',
+    });
+  });
+
+  it('reads English branch numbers and Latin suffixes', () => {
+    expect(parseCitation('Article 28-8, PIPA')).toMatchObject({ title: '개인정보 보호법', article: '28-8' });
+    expect(parseCitation('Art. 28bis, PIPA')).toMatchObject({ article: '28-2' });
+    expect(parseCitation('Article 39 ter of the Credit Information Act')).toMatchObject({ article: '39-3' });
+    expect(parseCitation('Enforcement Decree of the PIPA, Article 14-2(1)')).toMatchObject({
+      type: 'presidential_decree',
+      article: '14-2',
+      paragraph: '1',
+    });
+  });
+
+  it('keeps plain articles without a branch', () => {
+    expect(parseCitation('제28조 개인정보 보호법').article).toBe('28');
+    expect(parseCitation('act-270351, art. 28').article).toBe('28');
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, encodeCursor, requestFingerprint } from '../../src/utils/cursor.js';
+
+describe('requestFingerprint', () => {
+  it('ignores key order and treats undefined as absent', () => {
+    expect(requestFingerprint({ query: '동의', status: 'in_force', limit: undefined }))
+      .toBe(requestFingerprint({ limit: null, status: 'in_force', query: '동의' }));
+    expect(requestFingerprint({ query: '동의' })).not.toBe(requestFingerprint({ query: '동의서' }));
+  });
+});
+
+describe('encodeCursor / decodeCursor', () => {
+  const fingerprint = requestFingerprint({ query: '개인정보' });
+
+  it('round-trips the offset and tier as an opaque base64url string', () => {
+    const cursor = encodeCursor({ offset: 40, tier: 3 }, fingerprint);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, fingerprint)).toEqual({ offset: 40, tier: 3 });
+    expect(decodeCursor(encodeCursor({ offset: 200 }, fingerprint), fingerprint)).toEqual({ offset: 200 });
+  });
+
+  it('rejects a cursor issued for other request parameters', () => {
+    const cursor = encodeCursor({ offset: 40 }, fingerprint);
+    expect(() => decodeCursor(cursor, requestFingerprint({ query: '동의' })))
+      .toThrow('Cursor does not match this request');
+  });
+
+  it('rejects malformed cursors', () => {
+    const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+    for (const cursor of ['not a cursor', encode(null), encode([1]), encode({ offset: -1, fingerprint }), encode({ offset: 1.5, fingerprint })]) {
+      expect(() => decodeCursor(cursor, fingerprint)).toThrow('Invalid cursor');
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedProvisionUnit } from '../../scripts/lib/parser.js';
+import { extractDefinitions, isDefinitionArticle } from '../../scripts/lib/definitions.js';
+
+function unit(unitType: ParsedProvisionUnit['unit_type'], item: string | null, subItem: string | null, content: string): ParsedProvisionUnit {
+  return { unit_type: unitType, paragraph: null, item, sub_item: subItem, label: '', content };
+}
+
+describe('isDefinitionArticle', () => {
+  it('recognises 정의 headings', () => {
+    expect(isDefinitionArticle({ title: '정의', content: '' })).toBe(true);
+    expect(isDefinitionArticle({ title: '용어의 정의', content: '' })).toBe(true);
+    expect(isDefinitionArticle({ title: '목적', content: '' })).toBe(false);
+  });
+});
+
+describe('extractDefinitions', () => {
+  it('reads one term per item and appends its sub-items', () => {
+    const definitions = extractDefinitions({
+      title: '정의',
+      content: '',
+      units: [
+        unit('item', '1', null, '1. "개인정보"란 살아 있는 개인에 관한 정보로서 다음 각 목의 어느 하나에 해당하는 정보를 말한다.'),
+        unit('sub_item', '1', '가', '가. 성명, 주민등록번호 및 영상 등을 통하여 개인을 알아볼 수 있는 정보'),
+        unit('sub_item', '1', '나', '나. 다른 정보와 쉽게 결합하여 알아볼 수 있는 정보'),
+        unit('item', '1-2', null, '1의2. “가명처리”란 추가 정보 없이는 특정 개인을 알아볼 수 없도록 처리하는 것을 말한다.'),
+        unit('item', '2', null, '2. "처리"라 함은 개인정보의 수집, 생성, 연계를 말한다.'),
+      ],
+    });
+
+    expect(definitions.map(d => [d.term, d.item])).toEqual([
+      ['개인정보', '1'],
+      ['가명처리', '1-2'],
+      ['처리', '2'],
+    ]);
+    expect(definitions[0].definition).toBe(
+      '"개인정보"란 살아 있는 개인에 관한 정보로서 다음 각 목의 어느 하나에 해당하는 정보를 말한다. ' +
+      '가. 성명, 주민등록번호 및 영상 등을 통하여 개인을 알아볼 수 있는 정보 ' +
+      '나. 다른 정보와 쉽게 결합하여 알아볼 수 있는 정보',
+    );
+  });
+
+  it('skips the paragraph introducing the items', () => {
+    const definitions = extractDefinitions({
+      title: '정의',
+      content: '',
+      units: [
+        { unit_type: 'paragraph', paragraph: '1', item: null, sub_item: null, label: '①', content: '① 이 법에서 사용하는 용어의 뜻은 다음과 같다.' },
+        { unit_type: 'item', paragraph: '1', item: '1', sub_item: null, label: '1.', content: '1. "전자문서"란 전자적 형태로 작성된 정보를 말한다.' },
+        { unit_type: 'paragraph', paragraph: '2', item: null, sub_item: null, label: '②', content: '② 이 법에서 "행정기관"이란 중앙행정기관을 말한다.' },
+      ],
+    });
+
+    expect(definitions.map(d => [d.term, d.paragraph, d.item])).toEqual([
+      ['전자문서', '1', '1'],
+      ['행정기관', '2', null],
+    ]);
+  });
+
+  it('reads a single term defined in the article text', () => {
+    expect(extractDefinitions({
+      title: '정의',
+      content: '제2조(정의) 이 법에서 "전자문서"란 정보처리시스템에 의하여 작성된 정보를 말한다.',
+    })).toEqual([{
+      term: '전자문서',
+      definition: '"전자문서"란 정보처리시스템에 의하여 작성된 정보를 말한다.',
+      paragraph: null,
+      item: null,
+    }]);
+  });
+
+  it('ignores terms quoted in the middle of a sentence and other articles', () => {
+    expect(extractDefinitions({ title: '정의', content: '제2조(정의) 이 조에서 말하는 "개인정보"란 제1조에 따른다.' })).toEqual([]);
+    expect(extractDefinitions({ title: '목적', content: '제1조(목적) "개인정보"란 ...' })).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { amendingActs, parseDeletion } from '../../scripts/lib/deletions.js';
+
+describe('parseDeletion', () => {
+  it('detects a deleted stub with its date', () => {
+    expect(parseDeletion('제39조의3 삭제 <2020. 2. 4.>')).toEqual({ deleted_date: '2020-02-04' });
+  });
+
+  it('takes the latest date of a stub deleted more than once', () => {
+    expect(parseDeletion('제8조 삭제 <2011. 3. 29., 2015. 7. 24.>')).toEqual({ deleted_date: '2015-07-24' });
+  });
+
+  it('accepts a stub without a date or with a kept heading', () => {
+    expect(parseDeletion('제8조 삭제')).toEqual({ deleted_date: null });
+    expect(parseDeletion('제8조(특례) 삭제 <2020. 2. 4.>')).toEqual({ deleted_date: '2020-02-04' });
+  });
+
+  it('returns null for an article with text', () => {
+    expect(parseDeletion('제29조(안전조치의무) 개인정보처리자는 ... 조치를 하여야 한다. <개정 2015. 7. 24.>')).toBeNull();
+    expect(parseDeletion('제30조(삭제된 정보의 처리) 삭제된 정보는 복구할 수 없도록 하여야 한다.')).toBeNull();
+  });
+});
+
+describe('amendingActs', () => {
+  it('cites amendments by act type and number, keyed by promulgation date', () => {
+    const acts = amendingActs('statute', [
+      { promulgation_number: '16930', promulgation_date: '2020-02-04' },
+      { promulgation_number: '19234', promulgation_date: '2023-03-14' },
+      { promulgation_number: null, promulgation_date: '2011-03-29' },
+    ]);
+
+    expect(acts.get('2020-02-04')).toBe('법률 제16930호');
+    expect(acts.get('2023-03-14')).toBe('법률 제19234호');
+    expect(acts.has('2011-03-29')).toBe(false);
+  });
+
+  it('keeps the first act of a date and omits the type of ordinances', () => {
+    expect(amendingActs('presidential_decree', [
+      { promulgation_number: '30892', promulgation_date: '2020-08-04' },
+      { promulgation_number: '30893', promulgation_date: '2020-08-04' },
+    ]).get('2020-08-04')).toBe('대통령령 제30892호');
+    expect(amendingActs('ministerial_ordinance', [{ promulgation_number: '1', promulgation_date: '2020-08-05' }])
+      .get('2020-08-05')).toBe('제1호');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { reciprocalRankFusion } from '../../src/utils/rank-fusion.js';
+import {
+  blobToVector,
+  findSimilarProvisions,
+  getQueryEmbedder,
+  isPinnedRevision,
+  vectorToBlob,
+  type Embedder,
+} from '../../src/utils/embeddings.js';
+import { searchLegislation, type SearchLegislationResult } from '../../src/tools/search-legislation.js';
+import { createTestDb, insertDocument, insertProvision, type TestDb } from '../helpers/test-db.js';
+
+vi.mock('../../src/utils/embeddings.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../../src/utils/embeddings.js')>(),
+  getQueryEmbedder: vi.fn(),
+}));
+
+/** Unit vectors along one axis per topic, so similarities are 1 or 0 */
+const AXES = ['안전', '동의', '파기'];
+
+function topicVector(text: string): Float32Array {
+  const vector = new Float32Array(AXES.length);
+  const axis = AXES.findIndex(topic => text.includes(topic));
+  if (axis >= 0) vector[axis] = 1;
+  return vector;
+}
+
+const stubEmbedder: Embedder = async texts => texts.map(topicVector);
+
+describe('reciprocalRankFusion', () => {
+  it('scores 1 / (k + rank) summed over the rankings, best first', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['c', 'a']], 60);
+
+    expect([...fused.keys()]).toEqual(['a', 'c', 'b']);
+    expect(fused.get('a')).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(fused.get('c')).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(fused.get('b')).toBeCloseTo(1 / 62);
+  });
+
+  it('lets an item ranked well twice beat one ranked first once', () => {
+    const fused = reciprocalRankFusion([['x', 'y'], ['z', 'y']]);
+    expect([...fused.keys()][0]).toBe('y');
+  });
+
+  it('handles empty rankings', () => {
+    expect(reciprocalRankFusion([[], []]).size).toBe(0);
+  });
+});
+
+describe('vectorToBlob / blobToVector', () => {
+  it('round-trips a vector', () => {
+    const vector = new Float32Array([0.25, -1.5, 3e-7, 0]);
+    expect(blobToVector(vectorToBlob(vector))).toEqual(vector);
+  });
+
+  it('reads blobs that are not 4-byte aligned', () => {
+    const bytes = vectorToBlob(new Float32Array([1, 2, 3]));
+    const padded = Buffer.alloc(bytes.length + 1);
+    bytes.copy(padded, 1);
+    expect(blobToVector(padded.subarray(1))).toEqual(new Float32Array([1, 2, 3]));
+  });
+});
+
+describe('isPinnedRevision', () => {
+  it('accepts only full commit SHAs', () => {
+    expect(isPinnedRevision('0123456789abcdef0123456789abcdef01234567')).toBe(true);
+    expect(isPinnedRevision('main')).toBe(false);
+    expect(isPinnedRevision('0123456')).toBe(false);
+    expect(isPinnedRevision(null)).toBe(false);
+  });
+});
+
+describe('hybrid search', () => {
+  let withEmbeddings: TestDb;
+  let withoutEmbeddings: TestDb;
+
+  function seed(db: TestDb): void {
+    insertDocument(db, { id: 'act-pipa', title: '개인정보 보호법' });
+    insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-21', content: '개인정보처리자는 보유기간이 경과한 개인정보를 지체 없이 파기하여야 한다.' });
+    insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-22', content: '개인정보처리자는 정보주체의 동의를 받을 때에는 동의 사항을 구분하여야 한다.' });
+    insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-29', content: '개인정보처리자는 안전성 확보에 필요한 조치를 하여야 한다.' });
+  }
+
+  beforeAll(() => {
+    withoutEmbeddings = createTestDb();
+    seed(withoutEmbeddings);
+
+    withEmbeddings = createTestDb({ embeddings: true });
+    seed(withEmbeddings);
+    const provisions = withEmbeddings.prepare('SELECT id, content FROM legal_provisions').all() as { id: number; content: string }[];
+    const insert = withEmbeddings.prepare('INSERT INTO provision_embeddings (provision_id, embedding) VALUES (?, ?)');
+    for (const { id, content } of provisions) insert.run(id, vectorToBlob(topicVector(content)));
+  });
+
+  it('finds the provisions nearest a query vector within the allowed set', () => {
+    const similar = findSimilarProvisions(withEmbeddings, topicVector('파기'), 2);
+    expect(similar[0].similarity).toBe(1);
+    expect(findSimilarProvisions(withEmbeddings, topicVector('파기'), 3, new Set([similar[1].provision_id])))
+      .toEqual([{ provision_id: similar[1].provision_id, similarity: 0 }]);
+  });
+
+  it('fuses full-text and embedding rankings', async () => {
+    vi.mocked(getQueryEmbedder).mockResolvedValue(stubEmbedder);
+    // No provision contains the words, but the query is about safeguards (안전)
+    const { results, _metadata } = await searchLegislation(withEmbeddings, { query: '안전 관리 체계', semantic_search: true });
+    const hits = results as SearchLegislationResult[];
+
+    expect(_metadata.query_strategy).toBe('hybrid_rrf');
+    expect(hits[0]).toMatchObject({ provision_ref: 'art-29', semantic_score: 1 });
+  });
+
+  it('degrades to full-text search when the database has no embeddings table', async () => {
+    vi.mocked(getQueryEmbedder).mockResolvedValue(stubEmbedder);
+    const { results, _metadata } = await searchLegislation(withoutEmbeddings, { query: '안전성 확보', semantic_search: true });
+
+    expect((results as SearchLegislationResult[]).map(r => r.provision_ref)).toEqual(['art-29']);
+    expect(_metadata.query_strategy).toBeUndefined();
+    expect(_metadata.warnings).toEqual([
+      'semantic_search ignored: this database was built without embeddings (npm run build:db -- --embeddings). Results use full-text search only.',
+    ]);
+  });
+
+  it('degrades to full-text search when the model cannot be loaded', async () => {
+    vi.mocked(getQueryEmbedder).mockResolvedValue(null);
+    const { results, _metadata } = await searchLegislation(withEmbeddings, { query: '안전성 확보', semantic_search: true });
+
+    expect((results as SearchLegislationResult[]).map(r => r.provision_ref)).toEqual(['art-29']);
+    expect(_metadata.warnings?.[0]).toContain('the embedding model is not available');
+  });
+});
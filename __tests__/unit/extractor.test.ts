@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { extractCitations } from '../../src/citation/extractor.js';
+
+const KNOWN_TITLES = new Set(['개인정보 보호법', '정보통신망 이용촉진 및 정보보호 등에 관한 법률']);
+const isKnownTitle = (title: string) => KNOWN_TITLES.has(title);
+
+function cited(text: string, options = {}) {
+  return extractCitations(text, options).map(c => c.citation);
+}
+
+describe('extractCitations', () => {
+  it('takes bracketed titles as written, with or without a pinpoint', () => {
+    const text = '「개인정보 보호법」 제15조제1항 단서에 따라 「신용정보법」에 따른';
+
+    expect(extractCitations(text)).toEqual([
+      {
+        text: '「개인정보 보호법」 제15조제1항 단서', start: 0, end: 21, language: 'ko',
+        title: '개인정보 보호법', pinpoint: '제15조제1항 단서', citation: '개인정보 보호법 제15조제1항 단서',
+      },
+      {
+        text: '「신용정보법」', start: 26, end: 33, language: 'ko',
+        title: '신용정보법', pinpoint: null, citation: '신용정보법',
+      },
+    ]);
+  });
+
+  it('starts an unbracketed title after the last word ending in a particle', () => {
+    const [citation] = extractCitations('정보주체는 가상 보호법 제3조에 따라');
+    expect(citation).toMatchObject({ text: '가상 보호법 제3조', start: 6, title: '가상 보호법' });
+  });
+
+  it('prefers the longest run naming a known law', () => {
+    const text = '정보통신망 이용촉진 및 정보보호 등에 관한 법률 제22조';
+
+    // Without the database, "및" and "등에" cut the title short
+    expect(cited(text)).toEqual(['관한 법률 제22조']);
+    expect(cited(text, { isKnownTitle })).toEqual(['정보통신망 이용촉진 및 정보보호 등에 관한 법률 제22조']);
+    expect(cited('개인정보처리자는 개인정보 보호법 제29조에 따라', { isKnownTitle })).toEqual(['개인정보 보호법 제29조']);
+  });
+
+  it('skips a bare 법 or 영, which names the parent law only implicitly', () => {
+    expect(extractCitations('법 제29조에 따라')).toEqual([]);
+  });
+
+  it('resolves 같은 법 and 동법 시행령 to the preceding title', () => {
+    const citations = extractCitations('「개인정보 보호법」 제17조 및 같은 법 제18조, 동법 시행령 제15조');
+
+    expect(citations.map(c => [c.text, c.citation])).toEqual([
+      ['「개인정보 보호법」 제17조', '개인정보 보호법 제17조'],
+      ['같은 법 제18조', '개인정보 보호법 제18조'],
+      ['동법 시행령 제15조', '개인정보 보호법 시행령 제15조'],
+    ]);
+    expect(extractCitations('같은 법 제3조')).toEqual([]);
+  });
+
+  it('finds English citations by title or abbreviation', () => {
+    const text = 'See Art. 28-8, PIPA and Article 15(1) of the Personal Information Protection Act (Act No. 19234).';
+
+    expect(extractCitations(text)).toEqual([
+      {
+        text: 'Art. 28-8, PIPA', start: 4, end: 19, language: 'en',
+        title: 'PIPA', pinpoint: 'Article 28-8', citation: 'Article 28-8, PIPA',
+      },
+      {
+        text: 'Article 15(1) of the Personal Information Protection Act (Act No. 19234)', start: 24, end: 96, language: 'en',
+        title: 'Personal Information Protection Act', pinpoint: 'Article 15(1)',
+        citation: 'Article 15(1), Personal Information Protection Act (Act No. 19234)',
+      },
+    ]);
+  });
+
+  it('ends an English title at the instrument so the next citation is found', () => {
+    expect(cited('Article 17 of the Personal Information Protection Act and Art. 15 of GDPR')).toEqual([
+      'Article 17, Personal Information Protection Act',
+      'Article 15, GDPR',
+    ]);
+  });
+
+  it('returns Korean and English citations in order and drops overlapping matches', () => {
+    expect(cited('「개인정보 보호법」 제15조 (Article 15 of the Personal Information Protection Act)')).toEqual([
+      '개인정보 보호법 제15조',
+      'Article 15, Personal Information Protection Act',
+    ]);
+    // The Korean title run starts inside the English citation ("PIPA 보호법")
+    expect(extractCitations('Art. 28-8, PIPA 보호법 제3조').map(c => c.text)).toEqual(['Art. 28-8, PIPA']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getDefinitions } from '../../src/tools/get-definitions.js';
+import { createTestDb, insertDocument, type TestDb } from '../helpers/test-db.js';
+
+describe('getDefinitions', () => {
+  let db: TestDb;
+
+  beforeAll(() => {
+    db = createTestDb();
+    insertDocument(db, { id: 'act-270351', title: '개인정보 보호법' });
+    insertDocument(db, { id: 'act-credit', title: '신용정보의 이용 및 보호에 관한 법률' });
+    const insert = db.prepare(`
+      INSERT INTO definitions (document_id, provision_ref, paragraph, item, term, term_key, definition)
+      VALUES (?, 'art-2', NULL, ?, ?, ?, ?)
+    `);
+    insert.run('act-270351', '1', '개인정보', '개인정보', '"개인정보"란 살아 있는 개인에 관한 정보를 말한다.');
+    insert.run('act-270351', '2', '처리', '처리', '"처리"란 개인정보의 수집, 생성, 연계를 말한다.');
+    insert.run('act-270351', '1-2', '가명처리', '가명처리', '"가명처리"란 추가 정보 없이는 특정 개인을 알아볼 수 없도록 처리하는 것을 말한다.');
+    insert.run('act-270351', '5', '개인정보처리자', '개인정보처리자', '"개인정보처리자"란 개인정보를 처리하는 공공기관, 법인을 말한다.');
+    insert.run('act-credit', '2', '개인정보', '개인정보', '"개인정보"란 「개인정보 보호법」 제2조제1호에 따른 개인정보를 말한다.');
+  });
+
+  it('returns every definition of a term with its pinpoint and wording variant', async () => {
+    const { results } = await getDefinitions(db, { term: '개인정보' });
+
+    expect(results.definitions.map(d => [d.document_id, d.pinpoint, d.variant, d.borrowed_from])).toEqual([
+      ['act-270351', '제2조제1호', 1, null],
+      ['act-credit', '제2조제2호', 2, '「개인정보 보호법」 제2조제1호'],
+    ]);
+    expect(results.distinct_definitions).toBe(2);
+    expect(results.related_terms).toEqual(['개인정보처리자']);
+  });
+
+  it('ignores whitespace in the term and restricts to one document', async () => {
+    const { results } = await getDefinitions(db, { term: '개인정보 처리자', document_id: '개인정보 보호법' });
+    expect(results.definitions.map(d => d.term)).toEqual(['개인정보처리자']);
+  });
+
+  it('lists defined terms containing the query when it is not defined itself', async () => {
+    const { results, _metadata } = await getDefinitions(db, { term: '명처' });
+    expect(results.definitions).toEqual([]);
+    expect(results.related_terms).toEqual(['가명처리']);
+    expect(_metadata.warnings?.[0]).toContain('see related_terms');
+  });
+
+  it('matches LIKE wildcards in the term literally', async () => {
+    for (const term of ['%', '_', '개인_보', '처%']) {
+      const { results } = await getDefinitions(db, { term });
+      expect(results.related_terms).toEqual([]);
+    }
+  });
+
+  it('rejects unknown documents', async () => {
+    await expect(getDefinitions(db, { term: '개인정보', document_id: '없는 법' })).rejects.toThrow('not found in database');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getProvision, type ProvisionResult } from '../../src/tools/get-provision.js';
+import { createTestDb, insertDocument, insertProvision, type TestDb } from '../helpers/test-db.js';
+
+type ProvisionPage = { provisions: ProvisionResult[]; truncated: boolean; total: number };
+
+describe('getProvision paging', () => {
+  let db: TestDb;
+
+  beforeAll(() => {
+    db = createTestDb();
+    insertDocument(db, { id: 'decree-network', title: '정보통신망 이용촉진 및 정보보호 등에 관한 법률 시행령', type: 'presidential_decree' });
+    insertDocument(db, { id: 'act-short', title: '전자서명법' });
+    for (let n = 1; n <= 250; n++) {
+      insertProvision(db, { document_id: 'decree-network', provision_ref: `art-${n}`, content: `제${n}조 본문` });
+    }
+    insertProvision(db, { document_id: 'act-short', provision_ref: 'art-1', content: '제1조(목적)' });
+  });
+
+  it('pages through every article of a statute past the first 200', async () => {
+    const first = await getProvision(db, { law_identifier: 'decree-network' });
+    const page1 = first.results as ProvisionPage;
+    expect(page1.provisions).toHaveLength(200);
+    expect(page1).toMatchObject({ truncated: true, total: 250 });
+    expect(first._metadata.next_cursor).toBeDefined();
+
+    const second = await getProvision(db, { law_identifier: 'decree-network', cursor: first._metadata.next_cursor });
+    const page2 = second.results as ProvisionPage;
+    expect(page2.provisions.map(p => p.provision_ref)).toEqual(
+      Array.from({ length: 50 }, (_, i) => `art-${201 + i}`),
+    );
+    expect(page2).toMatchObject({ truncated: false, total: 250 });
+    expect(second._metadata.next_cursor).toBeUndefined();
+  });
+
+  it('returns short statutes as a plain list without a cursor', async () => {
+    const { results, _metadata } = await getProvision(db, { law_identifier: 'act-short' });
+    expect((results as ProvisionResult[]).map(p => p.provision_ref)).toEqual(['art-1']);
+    expect(_metadata.next_cursor).toBeUndefined();
+  });
+
+  it('rejects a cursor from another statute', async () => {
+    const { _metadata } = await getProvision(db, { law_identifier: 'decree-network' });
+    await expect(getProvision(db, { law_identifier: 'act-short', cursor: _metadata.next_cursor }))
+      .rejects.toThrow('Cursor does not match this request');
+  });
+});
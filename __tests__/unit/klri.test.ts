@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  lastAmendmentDate,
+  parseEnglishDate,
+  parseKlriLaw,
+  parseKlriSearchResults,
+  pickKlriResult,
+} from '../../scripts/lib/klri.js';
+
+const LAW_PAGE = `
+<html><head><script>var x = '<p>Article 99 (Ignored)</p>';</script></head><body>
+<p>PERSONAL INFORMATION PROTECTION ACT</p>
+<p>[Enforcement Date 15. Sep, 2023.] [Act No. 19234, 14. Mar, 2023., Partial Amendment]</p>
+<p>CHAPTER I GENERAL PROVISIONS</p>
+<p>Article 1 (Purpose) The purpose of this Act is to protect the freedom and rights of individuals.</p>
+<p>Article 8 Deleted. &lt;Feb. 4, 2020&gt;</p>
+<p>CHAPTER III PROCESSING OF PERSONAL INFORMATION</p>
+<p>Article 28-8 (Transfer of Personal Information Abroad) (1) A personal information controller</p>
+<p>shall not transfer personal information abroad.</p>
+<p>Article 15 of the Act applies mutatis mutandis.</p>
+<p>ADDENDA &lt;Act No. 19234, Mar. 14, 2023&gt;</p>
+<p>Article 1 (Enforcement Date) This Act shall enter into force six months after promulgation.</p>
+</body></html>`;
+
+describe('parseKlriSearchResults', () => {
+  it('reads law serials from query strings and script calls', () => {
+    const html = `
+      <a href="lawView.do?hseq=62389&lang=ENG"><strong>PERSONAL INFORMATION</strong> PROTECTION ACT</a>
+      <a href="javascript:lawView('62390', 'ENG')">ENFORCEMENT DECREE OF THE PERSONAL INFORMATION PROTECTION ACT</a>
+      <a href="lawView.do?hseq=62389">duplicate</a>
+      <a href="/about">About</a>`;
+
+    expect(parseKlriSearchResults(html)).toEqual([
+      { klri_id: '62389', title: 'PERSONAL INFORMATION PROTECTION ACT' },
+      { klri_id: '62390', title: 'ENFORCEMENT DECREE OF THE PERSONAL INFORMATION PROTECTION ACT' },
+    ]);
+  });
+});
+
+describe('pickKlriResult', () => {
+  const results = [
+    { klri_id: '1', title: 'PERSONAL INFORMATION PROTECTION ACT' },
+    { klri_id: '2', title: 'ENFORCEMENT DECREE OF THE PERSONAL INFORMATION PROTECTION ACT' },
+  ];
+
+  it('prefers the exact English title, ignoring case and punctuation', () => {
+    expect(pickKlriResult(results, { title: '개인정보 보호법', title_en: 'Personal Information Protection Act' })?.klri_id).toBe('1');
+  });
+
+  it('takes a single result and gives up when several do not match', () => {
+    expect(pickKlriResult([results[1]], { title: '개인정보 보호법 시행령' })?.klri_id).toBe('2');
+    expect(pickKlriResult(results, { title: '개인정보 보호법' })).toBeUndefined();
+  });
+});
+
+describe('parseKlriLaw', () => {
+  const translation = parseKlriLaw(LAW_PAGE, '62389');
+
+  it('reads the title and the translated version', () => {
+    expect(translation).toMatchObject({
+      source: 'KLRI',
+      klri_id: '62389',
+      title: 'PERSONAL INFORMATION PROTECTION ACT',
+      law_number: '19234',
+      promulgation_date: '2023-03-14',
+      enforcement_date: '2023-09-15',
+      url: 'https://elaw.klri.re.kr/eng_service/lawView.do?hseq=62389&lang=ENG',
+    });
+  });
+
+  it('splits the text at article headings and maps branch articles to provision refs', () => {
+    expect(translation.articles.map(a => [a.provision_ref, a.section, a.title])).toEqual([
+      ['art-1', 'Article 1', 'Purpose'],
+      ['art-8', 'Article 8', ''],
+      ['art-28-8', 'Article 28-8', 'Transfer of Personal Information Abroad'],
+    ]);
+  });
+
+  it('joins continuation lines, skips structure headings and stops at the addenda', () => {
+    expect(translation.articles[1].text).toBe('Article 8 Deleted. <Feb. 4, 2020>');
+    expect(translation.articles[2].text).toBe(
+      'Article 28-8 (Transfer of Personal Information Abroad) (1) A personal information controller ' +
+      'shall not transfer personal information abroad. Article 15 of the Act applies mutatis mutandis.',
+    );
+  });
+});
+
+describe('lastAmendmentDate', () => {
+  it('takes the latest date of the amendment notes', () => {
+    expect(lastAmendmentDate('제29조(안전조치의무) ... <개정 2015. 7. 24., 2023. 3. 14.>')).toBe('2023-03-14');
+    expect(lastAmendmentDate('제28조의8(개인정보의 국외 이전) ... [본조신설 2023. 3. 14.]')).toBe('2023-03-14');
+  });
+
+  it('ignores dates outside amendment notes', () => {
+    expect(lastAmendmentDate('제1조(목적) 2024. 1. 1.부터 적용한다.')).toBeNull();
+  });
+});
+
+describe('parseEnglishDate', () => {
+  it('reads the date formats used by KLRI', () => {
+    expect(parseEnglishDate('15. Sep, 2023')).toBe('2023-09-15');
+    expect(parseEnglishDate('Mar. 14, 2023')).toBe('2023-03-14');
+    expect(parseEnglishDate('February 4, 2020')).toBe('2020-02-04');
+    expect(parseEnglishDate('2023. 9. 15.')).toBe('2023-09-15');
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseEnglishDate('Partial Amendment')).toBeNull();
+    expect(parseEnglishDate('15. Foo, 2023')).toBeNull();
+  });
+});
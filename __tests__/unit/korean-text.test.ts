@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeKoreanText, stripKoreanSuffix } from '../../src/utils/korean-text.js';
+import { buildFtsQueryVariants } from '../../src/utils/fts-query.js';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+import { createTestDb, insertDocument, insertProvision } from '../helpers/test-db.js';
+
+describe('stripKoreanSuffix', () => {
+  it('strips particles and 하다/되다 endings', () => {
+    expect(stripKoreanSuffix('개인정보를')).toBe('개인정보');
+    expect(stripKoreanSuffix('개인정보의')).toBe('개인정보');
+    expect(stripKoreanSuffix('정보주체가')).toBe('정보주체');
+    expect(stripKoreanSuffix('처리하는')).toBe('처리');
+    expect(stripKoreanSuffix('처리한')).toBe('처리');
+    expect(stripKoreanSuffix('제공되어야')).toBe('제공');
+    expect(stripKoreanSuffix('위원회에서는')).toBe('위원회');
+  });
+
+  it('keeps at least two syllables of stem', () => {
+    expect(stripKoreanSuffix('동의')).toBe('동의');
+    expect(stripKoreanSuffix('국가')).toBe('국가');
+    expect(stripKoreanSuffix('포함')).toBe('포함');
+  });
+
+  it('keeps nouns whose last syllable looks like a particle', () => {
+    expect(stripKoreanSuffix('영향평가')).toBe('영향평가');
+    expect(stripKoreanSuffix('사전동의')).toBe('사전동의');
+    expect(stripKoreanSuffix('접근권한')).toBe('접근권한');
+    expect(stripKoreanSuffix('처리결과')).toBe('처리결과');
+  });
+
+  it('still strips a particle after such a noun', () => {
+    expect(stripKoreanSuffix('영향평가의')).toBe('영향평가');
+    expect(stripKoreanSuffix('접근권한을')).toBe('접근권한');
+  });
+
+  it('passes non-Korean words through', () => {
+    expect(stripKoreanSuffix('GDPR')).toBe('GDPR');
+    expect(stripKoreanSuffix('2023')).toBe('2023');
+  });
+});
+
+describe('normalizeKoreanText', () => {
+  it('reduces every 어절 to its stem', () => {
+    expect(normalizeKoreanText('개인정보를 처리하는 자는')).toBe('개인정보 처리 자는');
+  });
+
+  it('splits enumerations joined by ㆍ and drops punctuation', () => {
+    expect(normalizeKoreanText('수집ㆍ이용한다.')).toBe('수집 이용');
+  });
+});
+
+describe('Korean-normalised search', () => {
+  it('adds the normalised phrase and stem variants to the FTS tiers', () => {
+    expect(buildFtsQueryVariants('개인정보를 처리하는').slice(0, 3)).toEqual([
+      '"개인정보를 처리하는"',
+      '"개인정보 처리"',
+      '개인정보* + 처리*',
+    ]);
+  });
+
+  it('matches an article whatever particles the query and the text use', async () => {
+    const db = createTestDb();
+    insertDocument(db, { id: 'act-270351', title: '개인정보 보호법' });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-15', content: '개인정보처리자는 다음 각 호의 어느 하나에 해당하는 경우에는 개인정보를 수집할 수 있다.' });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-29', content: '개인정보처리자는 개인정보를 처리하는 경우 안전성 확보에 필요한 조치를 하여야 한다.' });
+
+    const { results } = await searchLegislation(db, { query: '개인정보의 처리' });
+    expect((results as { provision_ref: string }[]).map(r => r.provision_ref)).toEqual(['art-29']);
+  });
+});
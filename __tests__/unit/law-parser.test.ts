@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { parseLawXml } from '../../scripts/lib/parser.js';
+
+const LAW_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<법령 법령키="270351">
+  <기본정보>
+    <법령명_한글>개인정보 보호법</법령명_한글>
+    <공포번호>19234</공포번호>
+    <공포일자>20230314</공포일자>
+    <시행일자>20230915</시행일자>
+    <법종구분>법률</법종구분>
+  </기본정보>
+  <조문>
+    <조문단위 조문키="0001000">
+      <조문번호>28</조문번호>
+      <조문여부>조문</조문여부>
+      <조문제목>개인정보취급자에 대한 감독</조문제목>
+      <조문내용>제28조(개인정보취급자에 대한 감독)</조문내용>
+    </조문단위>
+    <조문단위 조문키="0028008">
+      <조문번호>28</조문번호>
+      <조문가지번호>8</조문가지번호>
+      <조문여부>조문</조문여부>
+      <조문제목>개인정보의 국외 이전</조문제목>
+      <조문내용>제28조의8(개인정보의 국외 이전)</조문내용>
+      <항>
+        <항내용>① 개인정보처리자는 다음 각 호의 어느 하나에 해당하는 경우에는 개인정보를 국외로 이전할 수 있다.</항내용>
+        <호><호내용>1. 정보주체로부터 별도의 동의를 받은 경우</호내용></호>
+        <호><호내용>1의2. 법률에 특별한 규정이 있는 경우</호내용></호>
+      </항>
+    </조문단위>
+    <조문단위 조문키="0039003">
+      <조문번호>39의3</조문번호>
+      <조문여부>조문</조문여부>
+      <조문내용>제39조의3 삭제 &lt;2023. 3. 14.&gt;</조문내용>
+    </조문단위>
+  </조문>
+</법령>`;
+
+describe('parseLawXml branch articles', () => {
+  const law = parseLawXml(LAW_XML, '270351');
+
+  it('reads 조문가지번호 and inline "N의M" numbers as branch articles', () => {
+    expect(law.provisions.map(p => [p.provision_ref, p.section])).toEqual([
+      ['art-28', '제28조'],
+      ['art-28-8', '제28조의8'],
+      ['art-39-3', '제39조의3'],
+    ]);
+    expect(law.provisions[1].title).toBe('개인정보의 국외 이전');
+  });
+
+  it('numbers branch items within a branch article', () => {
+    expect(law.provisions[1].units?.map(u => [u.unit_type, u.paragraph, u.item])).toEqual([
+      ['paragraph', '1', null],
+      ['item', '1', '1'],
+      ['item', '1', '1-2'],
+    ]);
+  });
+});
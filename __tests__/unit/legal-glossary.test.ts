@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { findGlossaryTerms } from '../../src/utils/legal-glossary.js';
+import { buildFtsQueryPlan, buildGlossaryExpansion } from '../../src/utils/fts-query.js';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+import { createTestDb, insertDocument, insertProvision } from '../helpers/test-db.js';
+
+function matched(tokens: string[]) {
+  return findGlossaryTerms(tokens).map(m => [tokens.slice(m.start, m.end).join(' '), m.language, m.entry.ko[0]]);
+}
+
+describe('findGlossaryTerms', () => {
+  it('prefers the longest term and matches plurals and Korean particles', () => {
+    expect(matched(['personal', 'information', 'controllers', 'must', 'notify'])).toEqual([
+      ['personal information controllers', 'en', '개인정보처리자'],
+      ['notify', 'en', '통지'],
+    ]);
+    expect(matched(['개인정보를', '유출한', '경우'])).toEqual([
+      ['개인정보를', 'ko', '개인정보'],
+      ['유출한', 'ko', '유출'],
+    ]);
+  });
+
+  it('does not match everyday English words on their own', () => {
+    for (const word of ['use', 'access', 'report', 'notice', 'network', 'fine', 'controller', 'process']) {
+      expect(matched([word])).toEqual([]);
+    }
+    expect(matched(['network', 'access', 'fine'])).toEqual([]);
+  });
+
+  it('matches the phrases those words appear in', () => {
+    expect(matched(['access', 'request'])).toEqual([['access request', 'en', '열람']]);
+    expect(matched(['criminal', 'fine'])).toEqual([['criminal fine', 'en', '벌금']]);
+    expect(matched(['data', 'controller'])).toEqual([['data controller', 'en', '개인정보처리자']]);
+  });
+});
+
+describe('buildGlossaryExpansion', () => {
+  it('ORs each glossary term with its translations', () => {
+    expect(buildGlossaryExpansion('personal information consent')).toEqual({
+      query: '("personal information" OR 개인정보*) AND (consent OR 동의*)',
+      terms: [
+        { term: 'personal information', translations: ['개인정보'] },
+        { term: 'consent', translations: ['동의'] },
+      ],
+    });
+  });
+
+  it('expands Korean stems into quoted English phrases', () => {
+    expect(buildGlossaryExpansion('개인정보를 파기')?.query)
+      .toBe('(개인정보* OR "personal information" OR "personal data") AND (파기* OR destruction OR destroy)');
+  });
+
+  it('keeps other words as AND terms and offers a relaxed query without them', () => {
+    expect(buildGlossaryExpansion('use of CCTV')).toEqual({
+      query: 'use AND (CCTV OR 영상정보처리기기*)',
+      relaxed: '(CCTV OR 영상정보처리기기*)',
+      terms: [{ term: 'CCTV', translations: ['영상정보처리기기'] }],
+    });
+  });
+
+  it('splits hyphenated words and drops stopwords', () => {
+    expect(buildGlossaryExpansion('cross-border transfer of personal data')?.query)
+      .toBe('("cross border transfer" OR "국외 이전") AND ("personal data" OR 개인정보*)');
+  });
+
+  it('returns null without glossary terms or with boolean operators', () => {
+    expect(buildGlossaryExpansion('network access')).toBeNull();
+    expect(buildGlossaryExpansion('consent AND withdrawal')).toBeNull();
+  });
+});
+
+describe('buildFtsQueryPlan', () => {
+  it('returns the expansion it placed among the variants', () => {
+    const plan = buildFtsQueryPlan('consent withdrawal');
+    expect(plan.glossary?.query).toBe('(consent OR 동의*) AND withdrawal');
+    expect(plan.variants).toContain(plan.glossary?.query);
+    expect(plan.variants).toContain(plan.glossary?.relaxed);
+    expect(plan.variants.indexOf(plan.glossary!.query)).toBeLessThan(plan.variants.indexOf('consent AND withdrawal'));
+  });
+});
+
+describe('cross-lingual search', () => {
+  it('finds Korean text for an English query and reports the expansion', async () => {
+    const db = createTestDb();
+    insertDocument(db, { id: 'act-270351', title: '개인정보 보호법' });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-22', title: '동의를 받는 방법', content: '개인정보처리자는 정보주체의 동의를 받을 때에는 각각의 동의 사항을 구분하여 알려야 한다.' });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-29', content: '개인정보처리자는 안전성 확보에 필요한 조치를 하여야 한다.' });
+
+    const { results, _metadata } = await searchLegislation(db, { query: 'consent' });
+    expect((results as { provision_ref: string }[]).map(r => r.provision_ref)).toEqual(['art-22']);
+    expect(_metadata.query_strategy).toBe('glossary_expansion: consent → 동의');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { findProvisionUnits, hasPinpoint, normalizePinpointNumber } from '../../src/utils/provision-units.js';
+import { createTestDb, insertDocument, type TestDb } from '../helpers/test-db.js';
+
+const UNITS: [string, string | null, string | null, string | null, string, string][] = [
+  // provision_ref, paragraph, item, sub_item, label, content
+  ['art-2', null, '1', null, '1.', '1. "개인정보"란 살아 있는 개인에 관한 정보로서 다음 각 목의 어느 하나에 해당하는 정보를 말한다.'],
+  ['art-2', null, '1', '가', '가.', '가. 성명, 주민등록번호 및 영상 등을 통하여 개인을 알아볼 수 있는 정보'],
+  ['art-2', null, '1', '나', '나.', '나. 다른 정보와 쉽게 결합하여 알아볼 수 있는 정보'],
+  ['art-2', null, '1-2', null, '1의2.', '1의2. "가명처리"란 추가 정보 없이는 특정 개인을 알아볼 수 없도록 처리하는 것을 말한다.'],
+  ['art-15', '1', null, null, '①', '① 개인정보처리자는 다음 각 호의 어느 하나에 해당하는 경우에는 개인정보를 수집할 수 있다.'],
+  ['art-15', '1', '1', null, '1.', '1. 정보주체의 동의를 받은 경우'],
+  ['art-15', '1', '2', null, '2.', '2. 법률에 특별한 규정이 있는 경우'],
+  ['art-15', '2', null, null, '②', '② 개인정보처리자는 제1항제1호에 따른 동의를 받을 때에는 다음 각 호의 사항을 알려야 한다.'],
+];
+
+describe('normalizePinpointNumber', () => {
+  it('normalises paragraph, item and sub-item numbers as typed', () => {
+    expect(normalizePinpointNumber('①')).toBe('1');
+    expect(normalizePinpointNumber('제2항')).toBe('2');
+    expect(normalizePinpointNumber('㉑')).toBe('21');
+    expect(normalizePinpointNumber('제1호의2')).toBe('1-2');
+    expect(normalizePinpointNumber('가목')).toBe('가');
+    expect(normalizePinpointNumber(' ')).toBeUndefined();
+  });
+});
+
+describe('findProvisionUnits', () => {
+  let db: TestDb;
+
+  beforeAll(() => {
+    db = createTestDb();
+    insertDocument(db, { id: 'act-270351', title: '개인정보 보호법' });
+    const insert = db.prepare(`
+      INSERT INTO provision_units (document_id, provision_ref, unit_type, paragraph, item, sub_item, label, content, position)
+      VALUES ('act-270351', ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    UNITS.forEach(([ref, paragraph, item, subItem, label, content], position) => {
+      const unitType = subItem ? 'sub_item' : item ? 'item' : 'paragraph';
+      insert.run(ref, unitType, paragraph, item, subItem, label, content, position);
+    });
+  });
+
+  const labels = (ref: string, pinpoint: Parameters<typeof findProvisionUnits>[3]) =>
+    findProvisionUnits(db, 'act-270351', ref, pinpoint).map(u => u.label);
+
+  it('returns a paragraph with its items', () => {
+    expect(labels('art-15', { paragraph: '①' })).toEqual(['①', '1.', '2.']);
+    expect(labels('art-15', { paragraph: '2' })).toEqual(['②']);
+  });
+
+  it('resolves an item within a paragraph', () => {
+    const [unit] = findProvisionUnits(db, 'act-270351', 'art-15', { paragraph: '제1항', item: '제1호' });
+    expect(unit).toMatchObject({ unit_type: 'item', paragraph: '1', item: '1', text: '1. 정보주체의 동의를 받은 경우' });
+  });
+
+  it('looks up items of articles without numbered paragraphs, down to the sub-item', () => {
+    expect(labels('art-2', { item: '1' })).toEqual(['1.', '가.', '나.']);
+    expect(labels('art-2', { item: '1', sub_item: '나목' })).toEqual(['나.']);
+    expect(labels('art-2', { item: '1의2' })).toEqual(['1의2.']);
+  });
+
+  it('returns nothing for a pinpoint that does not exist', () => {
+    expect(labels('art-15', { paragraph: '3' })).toEqual([]);
+    expect(labels('art-15', { item: '1' })).toEqual([]);
+  });
+
+  it('tells whether a pinpoint was given', () => {
+    expect(hasPinpoint({})).toBe(false);
+    expect(hasPinpoint({ sub_item: '가' })).toBe(true);
+  });
+});
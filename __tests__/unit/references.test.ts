@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { articleRef, extractReferences, lawFamily, type ReferenceDocument } from '../../scripts/lib/references.js';
+
+const ACT: ReferenceDocument = { id: 'act', type: 'statute', title: '개인정보 보호법' };
+const DECREE: ReferenceDocument = { id: 'decree', type: 'presidential_decree', title: '개인정보 보호법 시행령' };
+const RULE: ReferenceDocument = { id: 'rule', type: 'ministerial_ordinance', title: '개인정보 보호법 시행규칙' };
+const CREDIT: ReferenceDocument = { id: 'credit', type: 'statute', title: '신용정보의 이용 및 보호에 관한 법률' };
+const CREDIT_DECREE: ReferenceDocument = { id: 'credit-decree', type: 'presidential_decree', title: '신용정보의 이용 및 보호에 관한 법률 시행령' };
+const DOCUMENTS = [ACT, DECREE, RULE, CREDIT, CREDIT_DECREE];
+
+function references(document: ReferenceDocument, content: string, provisionRef = 'art-1') {
+  return extractReferences(DOCUMENTS, [{ document_id: document.id, provision_ref: provisionRef, content }])
+    .map(r => [r.target_document_id, r.target_provision_ref, r.ref_type, r.context]);
+}
+
+describe('articleRef', () => {
+  it('builds provision refs for main and branch articles', () => {
+    expect(articleRef('15')).toBe('art-15');
+    expect(articleRef('28', '8')).toBe('art-28-8');
+  });
+});
+
+describe('lawFamily', () => {
+  it('finds the Act of a decree and the Act and decree of an ordinance', () => {
+    const byTitle = new Map(DOCUMENTS.map(d => [d.title, d]));
+    expect(lawFamily(DECREE, byTitle)).toEqual({ act: ACT, decree: undefined });
+    expect(lawFamily(RULE, byTitle)).toEqual({ act: ACT, decree: DECREE });
+    expect(lawFamily(ACT, byTitle)).toEqual({});
+  });
+});
+
+describe('extractReferences', () => {
+  it('links citations within the same document and skips the heading and self-citations', () => {
+    expect(references(ACT, '제15조(개인정보의 수집ㆍ이용) ① 제17조제1항에 따라 제공하거나 이 법 제28조의8에 따라 이전하는 경우 제15조를 준용한다.', 'art-15'))
+      .toEqual([
+        ['act', 'art-17', 'references', '제17조제1항'],
+        ['act', 'art-28-8', 'references', '이 법 제28조의8'],
+      ]);
+  });
+
+  it('links bracketed titles to other documents and drops laws not in the database', () => {
+    expect(references(ACT, '「신용정보의 이용 및 보호에 관한 법률」 제32조 및 「전자정부법」 제36조에 따른다.'))
+      .toEqual([['credit', 'art-32', 'references', '「신용정보의 이용 및 보호에 관한 법률」 제32조']]);
+  });
+
+  it('reads 같은 법 as the last bracketed law cited', () => {
+    expect(references(ACT, '「신용정보의 이용 및 보호에 관한 법률」 제32조에 따른 동의 및 같은 법 시행령 제28조제2항'))
+      .toEqual([
+        ['credit', 'art-32', 'references', '「신용정보의 이용 및 보호에 관한 법률」 제32조'],
+        ['credit-decree', 'art-28', 'references', '같은 법 시행령 제28조제2항'],
+      ]);
+  });
+
+  it('links the short forms of subordinate legislation to their parents', () => {
+    expect(references(DECREE, '법 제29조에 따라 안전성 확보 조치를 하여야 한다.'))
+      .toEqual([['act', 'art-29', 'implements', '법 제29조']]);
+    expect(references(RULE, '영 제30조제1항에 따른 조치와 법 제15조'))
+      .toEqual([
+        ['decree', 'art-30', 'implements', '영 제30조제1항'],
+        ['act', 'art-15', 'implements', '법 제15조'],
+      ]);
+  });
+
+  it('does not read the end of a law name or an unbracketed law as a citation', () => {
+    expect(references(ACT, '헌법 제17조에 따른 사생활의 비밀')).toEqual([]);
+    expect(references(DECREE, '개인정보 보호법 제3조')).toEqual([]);
+    expect(references(ACT, '법 제3조')).toEqual([]);
+  });
+
+  it('expands ranges and enumerations', () => {
+    expect(references(ACT, '제3조(원칙) 제15조부터 제17조까지 및 제22조의2').map(r => r[1]))
+      .toEqual(['art-15', 'art-16', 'art-17', 'art-22-2']);
+    expect(references(ACT, '제3조(원칙) 제15조, 제17조 또는 제18조').map(r => r[1]))
+      .toEqual(['art-15', 'art-17', 'art-18']);
+  });
+
+  it('does not expand ranges ending in a branch article or implausibly wide', () => {
+    expect(references(ACT, '제3조(원칙) 제15조부터 제15조의3까지').map(r => r[1])).toEqual(['art-15', 'art-15-3']);
+    expect(references(ACT, '제3조(원칙) 제2조부터 제90조까지').map(r => r[1])).toEqual(['art-2', 'art-90']);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedProvisionUnit } from '../../scripts/lib/parser.js';
+import { extractSanctions, isSanctionArticle, parseKrwAmount } from '../../scripts/lib/sanctions.js';
+
+function paragraph(number: string, content: string): ParsedProvisionUnit {
+  return { unit_type: 'paragraph', paragraph: number, item: null, sub_item: null, label: '', content };
+}
+
+function item(paragraphNumber: string | null, number: string, content: string): ParsedProvisionUnit {
+  return { unit_type: 'item', paragraph: paragraphNumber, item: number, sub_item: null, label: `${number}.`, content: `${number}. ${content}` };
+}
+
+describe('parseKrwAmount', () => {
+  it('reads amounts written with Korean units', () => {
+    expect(parseKrwAmount('5천만원 이하의 벌금')).toBe(50_000_000);
+    expect(parseKrwAmount('1억5천만원 이하의 벌금')).toBe(150_000_000);
+    expect(parseKrwAmount('500만원 이하의 과태료')).toBe(5_000_000);
+    expect(parseKrwAmount('3,000,000원')).toBe(3_000_000);
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseKrwAmount('5년 이하의 징역')).toBeNull();
+  });
+});
+
+describe('isSanctionArticle', () => {
+  it('accepts 벌칙, 과태료 and 과징금 articles only', () => {
+    expect(isSanctionArticle({ title: '벌칙', content: '' })).toBe(true);
+    expect(isSanctionArticle({ title: '과징금의 부과', content: '' })).toBe(true);
+    expect(isSanctionArticle({ title: '양벌규정', content: '' })).toBe(false);
+    expect(isSanctionArticle({ title: '벌칙 적용에서 공무원 의제', content: '' })).toBe(false);
+    expect(isSanctionArticle({ title: '안전조치의무', content: '' })).toBe(false);
+  });
+});
+
+describe('extractSanctions', () => {
+  it('applies the penalty of a paragraph to each of its items', () => {
+    const sanctions = extractSanctions({
+      title: '과태료',
+      content: '',
+      units: [
+        paragraph('2', '② 다음 각 호의 어느 하나에 해당하는 자에게는 3천만원 이하의 과태료를 부과한다.'),
+        item('2', '5', '제28조의8제4항을 위반하여 보호조치를 하지 아니한 자'),
+        item('2', '6', '제29조를 위반하여 안전성 확보에 필요한 조치를 하지 아니한 자'),
+      ],
+    });
+
+    expect(sanctions).toHaveLength(2);
+    expect(sanctions[0]).toMatchObject({
+      paragraph: '2',
+      item: '5',
+      sanction_type: 'administrative_fine',
+      penalty: '3천만원 이하의 과태료',
+      max_fine_krw: 30_000_000,
+      violated_provision_ref: 'art-28-8',
+      violated_citation: '제28조의8제4항',
+    });
+    expect(sanctions[1]).toMatchObject({ item: '6', violated_provision_ref: 'art-29', violated_citation: '제29조' });
+  });
+
+  it('reads prison terms and fines of criminal penalties in articles without paragraphs', () => {
+    const [sanction] = extractSanctions({
+      title: '벌칙',
+      content: '제50조(벌칙) 제42조의2제1항을 위반한 자는 10년 이하의 징역 또는 1억5천만원 이하의 벌금에 처한다.',
+    });
+
+    expect(sanction).toMatchObject({
+      paragraph: null,
+      item: null,
+      sanction_type: 'criminal',
+      penalty: '10년 이하의 징역 또는 1억5천만원 이하의 벌금',
+      max_imprisonment_years: 10,
+      max_fine_krw: 150_000_000,
+      violated_provision_ref: 'art-42-2',
+    });
+  });
+
+  it('reads turnover caps of penalty surcharges', () => {
+    const [sanction] = extractSanctions({
+      title: '과징금의 부과',
+      content: '제64조의2(과징금의 부과) 보호위원회는 다음 각 호의 어느 하나에 해당하는 경우에는 전체 매출액의 100분의 3을 초과하지 아니하는 범위에서 과징금을 부과할 수 있다.',
+    });
+
+    expect(sanction).toMatchObject({ sanction_type: 'penalty_surcharge', revenue_share: '전체 매출액의 100분의 3' });
+  });
+
+  describe('violated article', () => {
+    const violated = (conduct: string) => extractSanctions({
+      title: '벌칙',
+      content: '',
+      units: [
+        paragraph('1', '① 다음 각 호의 어느 하나에 해당하는 자는 5년 이하의 징역 또는 5천만원 이하의 벌금에 처한다.'),
+        item('1', '1', conduct),
+      ],
+    }).map(s => s.violated_citation);
+
+    it('resolves 같은 항 against the preceding pinpoint and skips the qualifying citation', () => {
+      expect(violated('제17조제1항제2호에 해당하지 아니함에도 같은 항 제1호를 위반하여 개인정보를 제공한 자'))
+        .toEqual(['제17조제1항제1호']);
+    });
+
+    it('resolves 같은 조 제N항 and skips citations followed by 에 따른', () => {
+      expect(violated('제22조제1항에 따른 동의를 받지 아니하고 같은 조 제3항을 위반하여 개인정보를 처리한 자'))
+        .toEqual(['제22조제3항']);
+    });
+
+    it('falls back to the qualifying citation when the conduct names no breach', () => {
+      expect(violated('제17조제1항제2호에 해당하지 아니함에도 개인정보를 제공한 자')).toEqual(['제17조제1항제2호']);
+    });
+
+    it('ignores articles of other laws and citations after 위반', () => {
+      expect(violated('「전기통신사업법」 제83조를 위반한 자')).toEqual([null]);
+      expect(violated('제29조를 위반하여 제30조에 따른 조치를 하지 아니한 자')).toEqual(['제29조']);
+    });
+  });
+
+  it('returns nothing for other articles', () => {
+    expect(extractSanctions({ title: '안전조치의무', content: '제29조(안전조치의무) ... 5천만원 이하의 벌금에 처한다.' })).toEqual([]);
+  });
+});
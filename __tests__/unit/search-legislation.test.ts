@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  searchLegislation,
+  type FacetedSearchResult,
+  type SearchLegislationInput,
+  type SearchLegislationResult,
+} from '../../src/tools/search-legislation.js';
+import { createTestDb, insertDocument, insertProvision, type TestDb } from '../helpers/test-db.js';
+
+let db: TestDb;
+
+beforeAll(() => {
+  db = createTestDb();
+  insertDocument(db, {
+    id: 'act-pipa', title: '개인정보 보호법', ministry: '개인정보보호위원회',
+    issued_date: '2023-03-14', in_force_date: '2023-09-15',
+  });
+  insertDocument(db, {
+    id: 'decree-pipa', title: '개인정보 보호법 시행령', type: 'presidential_decree', ministry: '개인정보보호위원회',
+    issued_date: '2023-09-12', in_force_date: '2023-09-15',
+  });
+  insertDocument(db, {
+    id: 'act-credit', title: '신용정보의 이용 및 보호에 관한 법률', ministry: '금융위원회',
+    issued_date: '2020-02-04', in_force_date: '2020-08-05',
+  });
+  insertDocument(db, {
+    id: 'act-old', title: '공공기관의 개인정보 보호에 관한 법률', ministry: '행정안전부', status: 'repealed',
+    issued_date: '2008-02-29', in_force_date: '2008-02-29',
+  });
+
+  insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-15', chapter: '제3장 개인정보의 처리', content: '개인정보처리자는 정보주체의 동의를 받은 경우 개인정보를 수집할 수 있다.' });
+  insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-17', chapter: '제3장 개인정보의 처리', content: '개인정보처리자는 정보주체의 동의를 받은 경우 개인정보를 제3자에게 제공할 수 있다.' });
+  insertProvision(db, { document_id: 'act-pipa', provision_ref: 'art-29', chapter: '제4장 개인정보의 안전한 관리', content: '개인정보처리자는 개인정보가 유출되지 아니하도록 안전성 확보에 필요한 조치를 하여야 한다.' });
+  insertProvision(db, { document_id: 'decree-pipa', provision_ref: 'art-30', content: '개인정보처리자는 법 제29조에 따라 개인정보의 안전성 확보 조치를 해야 한다.' });
+  insertProvision(db, { document_id: 'act-credit', provision_ref: 'art-32', chapter: '제5장 신용정보주체의 보호', content: '신용정보제공자는 개인신용정보를 제공하려는 경우 개인정보 보호법에 따라 동의를 받아야 한다.' });
+  insertProvision(db, { document_id: 'act-old', provision_ref: 'art-1', content: '이 법은 공공기관의 개인정보 처리에 관한 사항을 정한다.' });
+});
+
+async function facetedSearch(input: SearchLegislationInput): Promise<FacetedSearchResult> {
+  return (await searchLegislation(db, { ...input, facets: true })).results as FacetedSearchResult;
+}
+
+function refs(results: SearchLegislationResult[] | FacetedSearchResult): string[] {
+  return (Array.isArray(results) ? results : results.hits).map(r => `${r.document_id}/${r.provision_ref}`);
+}
+
+describe('search facets', () => {
+  it('counts every hit by document, document type, status and chapter', async () => {
+    const { facets } = await facetedSearch({ query: '개인정보' });
+
+    expect(facets.total_hits).toBe(6);
+    expect(facets.by_document).toEqual([
+      { document_id: 'act-pipa', document_title: '개인정보 보호법', document_type: 'statute', count: 3 },
+      expect.objectContaining({ count: 1 }),
+      expect.objectContaining({ count: 1 }),
+      expect.objectContaining({ count: 1 }),
+    ]);
+    expect(facets.by_document_type).toEqual([
+      { document_type: 'statute', count: 5 },
+      { document_type: 'presidential_decree', count: 1 },
+    ]);
+    expect(facets.by_status).toEqual([
+      { status: 'in_force', count: 5 },
+      { status: 'repealed', count: 1 },
+    ]);
+  });
+
+  it('lists chapters per document and leaves out provisions outside a chapter', async () => {
+    const { facets } = await facetedSearch({ query: '개인정보', document_ids: ['act-pipa', 'decree-pipa'] });
+
+    expect(facets.by_chapter).toEqual([
+      { document_id: 'act-pipa', chapter: '제3장 개인정보의 처리', count: 2 },
+      { document_id: 'act-pipa', chapter: '제4장 개인정보의 안전한 관리', count: 1 },
+    ]);
+    expect(facets.total_hits).toBe(4);
+  });
+
+  it('counts beyond the page of hits returned', async () => {
+    const { hits, facets } = await facetedSearch({ query: '개인정보', limit: 2 });
+
+    expect(hits).toHaveLength(2);
+    expect(facets.total_hits).toBe(6);
+  });
+
+  it('counts the hits of the tier that matched', async () => {
+    const { hits, facets } = await facetedSearch({ query: '안전성 확보' });
+
+    expect(refs({ hits, facets }).sort()).toEqual(['act-pipa/art-29', 'decree-pipa/art-30']);
+    expect(facets.total_hits).toBe(2);
+  });
+
+  it('returns plain rows without facets and empty facets for an empty query', async () => {
+    const { results } = await searchLegislation(db, { query: '안전성 확보' });
+    expect(Array.isArray(results)).toBe(true);
+
+    expect(await facetedSearch({ query: ' ' })).toEqual({
+      hits: [],
+      facets: { total_hits: 0, by_document: [], by_document_type: [], by_status: [], by_chapter: [] },
+    });
+  });
+});
+
+describe('search paging', () => {
+  async function allPages(input: SearchLegislationInput): Promise<{ pages: string[][]; strategies: (string | undefined)[] }> {
+    const pages: string[][] = [];
+    const strategies: (string | undefined)[] = [];
+    let cursor: string | undefined;
+    do {
+      const { results, _metadata } = await searchLegislation(db, { ...input, cursor });
+      pages.push(refs(results));
+      strategies.push(_metadata.query_strategy);
+      cursor = _metadata.next_cursor;
+    } while (cursor && pages.length < 10);
+    return { pages, strategies };
+  }
+
+  it('pages through every full-text hit without repeats', async () => {
+    const { results } = await searchLegislation(db, { query: '개인정보', limit: 50 });
+    const { pages } = await allPages({ query: '개인정보', limit: 2 });
+
+    expect(pages.map(p => p.length)).toEqual([2, 2, 2]);
+    expect(pages.flat()).toEqual(refs(results));
+  });
+
+  it('keeps paging in the tier the first page settled on', async () => {
+    // "정보처리" is inside words only, so no FTS tier matches and LIKE finds it
+    const { pages, strategies } = await allPages({ query: '정보처리', limit: 1 });
+
+    expect(pages).toEqual([['act-pipa/art-15'], ['act-pipa/art-17'], ['act-pipa/art-29'], ['decree-pipa/art-30']]);
+    expect(strategies).toEqual(['like_fallback', 'like_fallback', 'like_fallback', 'like_fallback']);
+  });
+
+  it('rejects a cursor replayed with other parameters', async () => {
+    const { _metadata } = await searchLegislation(db, { query: '개인정보', limit: 2 });
+    await expect(searchLegislation(db, { query: '개인정보', limit: 2, document_type: 'statute', cursor: _metadata.next_cursor }))
+      .rejects.toThrow('Cursor does not match this request');
+  });
+});
+
+describe('search filters', () => {
+  // "개인정보" matches in full text; "정보처리" only in the LIKE fallback
+  const paths = [
+    { path: 'full-text', query: '개인정보', like: false },
+    { path: 'LIKE', query: '정보처리', like: true },
+  ];
+
+  async function search(input: SearchLegislationInput, like = false): Promise<string[]> {
+    const { results, _metadata } = await searchLegislation(db, { limit: 50, ...input });
+    expect(_metadata.query_strategy === 'like_fallback').toBe(like);
+    return refs(results).sort();
+  }
+
+  for (const { path, query, like } of paths) {
+    describe(`in the ${path} path`, () => {
+      it('filters by document type', async () => {
+        expect(await search({ query, document_type: 'presidential_decree' }, like)).toEqual(['decree-pipa/art-30']);
+      });
+
+      it('filters by ministry substring', async () => {
+        const hits = await search({ query, ministry: '보호위원회' }, like);
+        expect(hits.length).toBeGreaterThan(0);
+        expect(hits.every(h => h.startsWith('act-pipa/') || h.startsWith('decree-pipa/'))).toBe(true);
+      });
+
+      it('filters by promulgation and in-force date ranges', async () => {
+        expect(await search({ query, promulgated_from: '2023-09-01' }, like)).toEqual(['decree-pipa/art-30']);
+        expect(await search({ query, promulgated_to: '2023-03-14', document_type: 'statute' }, like))
+          .toEqual(like ? ['act-pipa/art-15', 'act-pipa/art-17', 'act-pipa/art-29'] : [
+            'act-credit/art-32', 'act-old/art-1', 'act-pipa/art-15', 'act-pipa/art-17', 'act-pipa/art-29',
+          ]);
+        expect(await search({ query, in_force_from: '2023-09-15', in_force_to: '2023-09-15', document_type: 'presidential_decree' }, like))
+          .toEqual(['decree-pipa/art-30']);
+      });
+
+      it('filters by a list of documents given by id or title', async () => {
+        expect(await search({ query, document_ids: ['decree-pipa', '개인정보 보호법'] }, like)).toEqual([
+          'act-pipa/art-15', 'act-pipa/art-17', 'act-pipa/art-29', 'decree-pipa/art-30',
+        ]);
+      });
+    });
+  }
+
+  it('combines filters', async () => {
+    expect(await search({ query: '개인정보', ministry: '금융위원회', promulgated_to: '2020-12-31' }))
+      .toEqual(['act-credit/art-32']);
+    expect(await search({ query: '개인정보', ministry: '금융위원회', promulgated_from: '2021-01-01' })).toEqual([]);
+  });
+
+  it('rejects malformed dates and unknown documents', async () => {
+    await expect(searchLegislation(db, { query: '개인정보', in_force_from: '2023-13-01' })).rejects.toThrow('in_force_from');
+    await expect(searchLegislation(db, { query: '개인정보', document_ids: ['act-pipa', 'no-such-law'] }))
+      .rejects.toThrow('Document "no-such-law" not found in database');
+  });
+});
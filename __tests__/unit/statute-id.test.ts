@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { rankDocuments, resetCaches, resolveDocument, resolveDocumentId } from '../../src/utils/statute-id.js';
+import { createTestDb, insertDocument, type TestDb } from '../helpers/test-db.js';
+
+let db: TestDb;
+
+beforeAll(() => {
+  db = createTestDb();
+  insertDocument(db, { id: 'act-pipa', title: '개인정보 보호법', title_en: 'Personal Information Protection Act' });
+  insertDocument(db, { id: 'decree-pipa', title: '개인정보 보호법 시행령', type: 'presidential_decree' });
+  insertDocument(db, { id: 'rule-pipa', title: '개인정보 보호법 시행규칙', type: 'ministerial_ordinance' });
+  insertDocument(db, { id: 'act-credit', title: '신용정보의 이용 및 보호에 관한 법률', short_name: '신용정보법' });
+  insertDocument(db, { id: 'reg-credit', title: '신용정보 관련 금융회사의 전자금융거래 및 개인신용정보의 보호에 관한 규정', type: 'ministerial_ordinance' });
+  db.prepare("UPDATE legal_documents SET law_number = '19234' WHERE id = 'act-pipa'").run();
+  resetCaches();
+});
+
+function best(input: string) {
+  const [candidate] = rankDocuments(db, input);
+  return candidate && [candidate.id, candidate.confidence, candidate.match_reason];
+}
+
+describe('rankDocuments', () => {
+  it('scores exact matches by the name they match', () => {
+    expect(best('act-pipa')).toEqual(['act-pipa', 1, 'id']);
+    expect(best('개인정보 보호법')).toEqual(['act-pipa', 1, 'exact_title']);
+    expect(best('개인정보보호법')).toEqual(['act-pipa', 0.95, 'title_ignoring_spacing']);
+    expect(best('personal information protection act')).toEqual(['act-pipa', 0.95, 'english_title']);
+    expect(best('신용정보법')).toEqual(['act-credit', 0.95, 'short_name']);
+    expect(best('법률 제19234호')).toEqual(['act-pipa', 0.9, 'law_number']);
+  });
+
+  it('scores partial matches by the share of the name the input covers', () => {
+    expect(rankDocuments(db, '개인정보 보호법').map(c => [c.id, c.confidence, c.match_reason])).toEqual([
+      ['act-pipa', 1, 'exact_title'],
+      ['decree-pipa', 0.75, 'title_contains'],
+      ['rule-pipa', 0.72, 'title_contains'],
+    ]);
+  });
+
+  it('returns nothing for an unknown or empty reference and honours the limit', () => {
+    expect(rankDocuments(db, '없는법')).toEqual([]);
+    expect(rankDocuments(db, '  ')).toEqual([]);
+    expect(rankDocuments(db, '개인정보 보호법', 1)).toHaveLength(1);
+  });
+});
+
+describe('resolveDocument', () => {
+  it('resolves an exact match that outranks the rest', () => {
+    expect(resolveDocument(db, '개인정보 보호법')).toMatchObject({ status: 'resolved', document_id: 'act-pipa' });
+    expect(resolveDocument(db, '법률 제19234호')).toMatchObject({ status: 'resolved', document_id: 'act-pipa' });
+  });
+
+  it('resolves a partial match that is confident and clearly ahead', () => {
+    // 0.78 against 0.54 for the regulation
+    const resolution = resolveDocument(db, '신용정보');
+    expect(resolution).toMatchObject({ status: 'resolved', document_id: 'act-credit' });
+    expect(resolution.candidates.map(c => [c.id, c.confidence])).toEqual([['act-credit', 0.78], ['reg-credit', 0.54]]);
+
+    expect(resolveDocument(db, '보호법 시행령')).toMatchObject({ status: 'resolved', document_id: 'decree-pipa' });
+  });
+
+  it('reports partial matches less than the margin apart as ambiguous', () => {
+    // 0.7, 0.64 and 0.63: the Act, its decree and its rules
+    const resolution = resolveDocument(db, '정보보호');
+    expect(resolution.status).toBe('ambiguous');
+    expect(resolution.document_id).toBeNull();
+    expect(resolution.candidates.map(c => c.id)).toEqual(['act-pipa', 'decree-pipa', 'rule-pipa']);
+  });
+
+  it('reports a lone partial match below the minimum confidence as ambiguous', () => {
+    expect(resolveDocument(db, '이용')).toMatchObject({
+      status: 'ambiguous',
+      candidates: [{ id: 'act-credit', confidence: 0.55 }],
+    });
+  });
+
+  it('reports exact matches that tie as ambiguous', () => {
+    const twins = createTestDb();
+    insertDocument(twins, { id: 'act-a', title: '전자서명법' });
+    insertDocument(twins, { id: 'act-b', title: '전자서명법' });
+    resetCaches();
+    try {
+      expect(resolveDocument(twins, '전자서명법').status).toBe('ambiguous');
+    } finally {
+      resetCaches();
+    }
+  });
+
+  it('reports not_found when nothing matches', () => {
+    expect(resolveDocument(db, '없는법')).toEqual({ input: '없는법', status: 'not_found', document_id: null, candidates: [] });
+  });
+});
+
+describe('resolveDocumentId', () => {
+  it('returns the id, null, or throws with the candidates', () => {
+    expect(resolveDocumentId(db, '신용정보법')).toBe('act-credit');
+    expect(resolveDocumentId(db, '없는법')).toBeNull();
+    expect(() => resolveDocumentId(db, '정보보호')).toThrow(
+      'Document "정보보호" is ambiguous. Candidates: 개인정보 보호법 (act-pipa, confidence 0.7);',
+    );
+  });
+});
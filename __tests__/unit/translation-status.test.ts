@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { addTranslationStatus, staleTranslationWarning } from '../../src/utils/translation-status.js';
+import { generateResponseMetadata } from '../../src/utils/metadata.js';
+import { getProvision } from '../../src/tools/get-provision.js';
+import { searchLegislation } from '../../src/tools/search-legislation.js';
+import { buildLegalStance } from '../../src/tools/build-legal-stance.js';
+import { createTestDb, insertDocument, insertProvision, type TestDb } from '../helpers/test-db.js';
+
+const PIPA = '개인정보 보호법';
+
+function provision(provisionRef: string, section: string, validTo: string | null = null) {
+  return { document_id: 'act-270351', document_title: PIPA, provision_ref: provisionRef, section, valid_to: validTo };
+}
+
+describe('addTranslationStatus', () => {
+  let db: TestDb;
+
+  beforeAll(() => {
+    db = createTestDb();
+    insertDocument(db, { id: 'act-270351', title: PIPA });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-15', title: '개인정보의 수집ㆍ이용', content: '개인정보처리자는 정보주체의 동의를 받은 경우 개인정보를 수집할 수 있다.' });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-17', title: '개인정보의 제공', content: '개인정보처리자는 정보주체의 동의를 받은 경우 개인정보를 제공할 수 있다.' });
+    insertProvision(db, { document_id: 'act-270351', provision_ref: 'art-18', title: '개인정보의 목적 외 이용ㆍ제공 제한', content: '개인정보처리자는 개인정보를 목적 외의 용도로 이용하여서는 아니 된다.' });
+    const insert = db.prepare(`
+      INSERT INTO english_translations (document_id, provision_ref, translation, source_url, translation_date, korean_date, stale)
+      VALUES ('act-270351', ?, ?, 'https://elaw.klri.re.kr/eng_service/lawView.do?hseq=62389', ?, ?, ?)
+    `);
+    insert.run('art-15', 'A personal information controller may collect personal information.', '2023-03-14', '2023-03-14', 0);
+    insert.run('art-17', 'A personal information controller may provide personal information.', '2020-02-04', '2023-03-14', 1);
+  });
+
+  it('attaches the status of current provisions and none to superseded versions or untranslated articles', () => {
+    const provisions = [provision('art-15', '제15조'), provision('art-15', '제15조', '2023-09-14'), provision('art-18', '제18조')];
+    addTranslationStatus(db, provisions, generateResponseMetadata());
+
+    expect(provisions[0]).toHaveProperty('translation', {
+      source: 'KLRI',
+      translated_version_date: '2023-03-14',
+      korean_version_date: '2023-03-14',
+      stale: false,
+      source_url: 'https://elaw.klri.re.kr/eng_service/lawView.do?hseq=62389',
+    });
+    expect(provisions[1]).toHaveProperty('translation', null);
+    expect(provisions[2]).toHaveProperty('translation', null);
+  });
+
+  it('warns about stale translations after the existing warnings', () => {
+    const metadata = { ...generateResponseMetadata(), warnings: ['earlier'] };
+    addTranslationStatus(db, [provision('art-15', '제15조'), provision('art-17', '제17조')], metadata);
+
+    expect(metadata.warnings).toEqual([
+      'earlier',
+      `The English translation of ${PIPA} 제17조 predates the current Korean text (translated version of 2020-02-04). ` +
+        'Quote the Korean text; the English is for orientation only.',
+    ]);
+  });
+
+  it('leaves provisions untouched on databases without translations', () => {
+    const bare = createTestDb();
+    bare.exec('DROP TABLE english_translations');
+    const provisions: ReturnType<typeof provision>[] = [provision('art-15', '제15조')];
+    const metadata = generateResponseMetadata();
+    addTranslationStatus(bare, provisions, metadata);
+
+    expect(provisions[0]).not.toHaveProperty('translation');
+    expect(metadata.warnings).toBeUndefined();
+  });
+
+  it('is applied by get_provision, search_legislation and build_legal_stance', async () => {
+    const article = await getProvision(db, { law_identifier: 'act-270351', article: '17' });
+    expect(article.results).toHaveProperty('translation.stale', true);
+    expect(article._metadata.warnings?.join(' ')).toContain(`${PIPA} 제17조 predates`);
+
+    const search = await searchLegislation(db, { query: '제공', document_id: 'act-270351' });
+    const hits = search.results as { provision_ref: string; translation?: unknown }[];
+    expect(hits.find(h => h.provision_ref === 'art-17')).toHaveProperty('translation.stale', true);
+    expect(search._metadata.warnings?.join(' ')).toContain(`${PIPA} 제17조 predates`);
+
+    const stance = await buildLegalStance(db, { query: '제공' });
+    expect(stance.results.statutes[0].provisions.find(p => p.provision_ref === 'art-17'))
+      .toHaveProperty('translation.stale', true);
+    expect(stance._metadata.warnings?.join(' ')).toContain(`${PIPA} 제17조 predates`);
+  });
+});
+
+describe('staleTranslationWarning', () => {
+  it('omits the translated version when the stale articles were translated from different versions', () => {
+    const status = (date: string) => ({
+      source: 'KLRI', translated_version_date: date, korean_version_date: '2023-03-14', stale: true, source_url: null,
+    });
+    expect(staleTranslationWarning([
+      { label: `${PIPA} 제17조`, translation: status('2020-02-04') },
+      { label: `${PIPA} 제18조`, translation: status('2021-10-19') },
+      { label: `${PIPA} 제15조`, translation: null },
+    ])).toBe(
+      `The English translation of ${PIPA} 제17조, ${PIPA} 제18조 predates the current Korean text. ` +
+        'Quote the Korean text; the English is for orientation only.',
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedLaw } from '../../scripts/lib/parser.js';
+import { buildProvisionVersions, buildRevisions } from '../../scripts/lib/versions.js';
+
+function snapshot(
+  lawNumber: string,
+  issuedDate: string,
+  inForceDate: string,
+  articles: Record<string, string>,
+  revisionType = '일부개정',
+): ParsedLaw {
+  return {
+    id: `law-${lawNumber}`,
+    type: 'statute',
+    title: '개인정보 보호법',
+    title_en: '',
+    short_name: '',
+    law_number: lawNumber,
+    revision_type: revisionType,
+    status: 'in_force',
+    issued_date: issuedDate,
+    in_force_date: inForceDate,
+    url: '',
+    provisions: Object.entries(articles).map(([ref, content]) => ({ provision_ref: ref, section: ref, title: '', content })),
+  };
+}
+
+const ORIGINAL = snapshot('10465', '2011-03-29', '2011-09-30', { 'art-8': '제8조 보호위원회', 'art-29': '제29조 안전조치' }, '제정');
+const AMENDED = snapshot('13423', '2015-07-24', '2015-07-24', { 'art-8': '제8조 보호위원회', 'art-29': '제29조 안전조치(개정)' });
+const REPEALED = snapshot('16930', '2020-02-04', '2020-08-05', { 'art-29': '제29조 안전조치(개정)', 'art-28-2': '제28조의2 가명정보' });
+
+describe('buildProvisionVersions', () => {
+  it('opens a window per distinct text and closes it on the amending date', () => {
+    const versions = buildProvisionVersions([REPEALED, ORIGINAL, AMENDED]);
+
+    expect(versions.map(v => [v.provision_ref, v.valid_from, v.valid_to])).toEqual([
+      ['art-28-2', '2020-08-05', undefined],
+      ['art-29', '2011-09-30', '2015-07-24'],
+      ['art-29', '2015-07-24', undefined],
+      ['art-8', '2011-09-30', '2020-08-05'],
+    ]);
+    expect(versions[2].content).toBe('제29조 안전조치(개정)');
+  });
+
+  it('keeps only the later text of two revisions in force on the same day', () => {
+    const sameDay = snapshot('13424', '2015-07-24', '2015-07-24', { 'art-8': '제8조 보호위원회', 'art-29': '제29조 안전조치(재개정)' });
+    const versions = buildProvisionVersions([ORIGINAL, AMENDED, sameDay]).filter(v => v.provision_ref === 'art-29');
+
+    expect(versions.map(v => [v.content, v.valid_from, v.valid_to])).toEqual([
+      ['제29조 안전조치', '2011-09-30', '2015-07-24'],
+      ['제29조 안전조치(재개정)', '2015-07-24', undefined],
+    ]);
+  });
+
+  it('ignores snapshots without an enforcement date', () => {
+    const undated = snapshot('0', '', '', { 'art-29': '제29조 미상' });
+    expect(buildProvisionVersions([ORIGINAL, undated]).map(v => v.content)).toEqual(['제29조 안전조치', '제8조 보호위원회']);
+  });
+});
+
+describe('buildRevisions', () => {
+  it('lists each promulgated revision once, oldest first', () => {
+    expect(buildRevisions([REPEALED, ORIGINAL, AMENDED, AMENDED])).toEqual([
+      { promulgation_number: '10465', promulgation_date: '2011-03-29', effective_date: '2011-09-30', revision_type: '제정' },
+      { promulgation_number: '13423', promulgation_date: '2015-07-24', effective_date: '2015-07-24', revision_type: '일부개정' },
+      { promulgation_number: '16930', promulgation_date: '2020-02-04', effective_date: '2020-08-05', revision_type: '일부개정' },
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords } from '../../src/utils/word-diff.js';
+
+describe('diffWords', () => {
+  it('reports an inserted 어절 as one insertion', () => {
+    const diff = diffWords('정보주체의 동의를 받아야 한다.', '정보주체의 별도의 동의를 받아야 한다.');
+    expect(diff.inserted_words).toBe(1);
+    expect(diff.deleted_words).toBe(0);
+    expect(diff.segments.filter(s => s.op === 'insert').map(s => s.text.trim())).toEqual(['별도의']);
+    expect(diff.inline).toBe('정보주체의 {+별도의 +}동의를 받아야 한다.');
+  });
+
+  it('reports a replaced word as a deletion and an insertion', () => {
+    const diff = diffWords('3천만원 이하의 과태료', '5천만원 이하의 과태료');
+    expect(diff.deleted_words).toBe(1);
+    expect(diff.inserted_words).toBe(1);
+    expect(diff.inline).toBe('[-3천만원-]{+5천만원+} 이하의 과태료');
+  });
+
+  it('treats reflowed whitespace as unchanged', () => {
+    const diff = diffWords('제29조(안전조치의무)  개인정보처리자는\n조치를 하여야 한다.', '제29조(안전조치의무) 개인정보처리자는 조치를 하여야 한다.');
+    expect(diff.segments.every(s => s.op === 'equal')).toBe(true);
+    expect(diff.inserted_words + diff.deleted_words).toBe(0);
+  });
+
+  it('splits punctuation touched by amendments from the words around it', () => {
+    const diff = diffWords('분실ㆍ도난', '분실ㆍ도난ㆍ유출');
+    expect(diff.inserted_words).toBe(1);
+    expect(diff.inline).toBe('분실ㆍ도난{+ㆍ유출+}');
+  });
+
+  it('handles an empty side', () => {
+    const diff = diffWords('', '신설 조문');
+    expect(diff.segments).toEqual([{ op: 'insert', text: '신설 조문' }]);
+    expect(diff.inserted_words).toBe(2);
+  });
+});
@@ -5,12 +5,31 @@
  * Builds the SQLite database from seed JSON files in data/seed/.
  *
  * Usage: npm run build:db
+ *        npm run build:db -- --embeddings   (also build the vector index for semantic search)
  */
 
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { extractDefinitions } from './lib/definitions.js';
+import { extractSanctions } from './lib/sanctions.js';
+import { amendingActs, parseDeletion } from './lib/deletions.js';
+import { extractReferences, type ReferenceDocument, type ReferenceProvision } from './lib/references.js';
+import { lastAmendmentDate } from './lib/klri.js';
+import { EMBEDDINGS_SCHEMA, SCHEMA } from './lib/schema.js';
+// Shared with the query builder: both sides must normalise identically
+import { normalizeKoreanText } from '../src/utils/korean-text.js';
+import { tagActors } from '../src/utils/obligations.js';
+// Shared with search: queries must be embedded by the same model
+import {
+  EMBEDDING_DIMENSIONS,
+  EMBEDDING_MODEL,
+  EMBEDDING_MODEL_REVISION,
+  isPinnedRevision,
+  loadEmbedder,
+  vectorToBlob,
+} from '../src/utils/embeddings.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,6 +37,11 @@ const __dirname = path.dirname(__filename);
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
 const DB_PATH = path.resolve(__dirname, '../data/database.db');
 
+const BUILD_EMBEDDINGS = process.argv.includes('--embeddings');
+
+/** Provisions embedded per model call */
+const EMBEDDING_BATCH_SIZE = 32;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Seed file types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -29,6 +53,8 @@ interface DocumentSeed {
   title_en?: string;
   short_name?: string;
   law_number?: string;
+  revision_type?: string;
+  ministry?: string;
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
   issued_date?: string;
   in_force_date?: string;
@@ -36,171 +62,75 @@ interface DocumentSeed {
   description?: string;
   language?: string;
   provisions?: ProvisionSeed[];
+  headings?: HeadingSeed[];
+  commencements?: CommencementSeed[];
+  provision_versions?: ProvisionVersionSeed[];
+  revisions?: RevisionSeed[];
+  translation?: TranslationSeed;
+}
+
+interface TranslationSeed {
+  source: string;
+  title: string;
+  law_number: string | null;
+  promulgation_date: string | null;
+  url: string;
+  articles: { provision_ref: string; section: string; title: string; text: string }[];
+}
+
+interface HeadingSeed {
+  heading_ref: string;
+  parent_ref: string | null;
+  level: 'part' | 'chapter' | 'section' | 'subsection';
+  label: string;
+  title: string;
+}
+
+interface CommencementSeed {
+  provision_ref: string | null;
+  effective_date: string;
+  promulgation_number: string | null;
+  addendum_ref: string;
+  clause: string;
 }
 
 interface ProvisionSeed {
   provision_ref: string;
+  kind?: 'article' | 'addendum';
   chapter?: string;
+  heading_ref?: string;
   section: string;
   title?: string;
   content: string;
   content_en?: string;
   metadata?: Record<string, unknown>;
+  units?: ProvisionUnitSeed[];
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Database schema
-// ─────────────────────────────────────────────────────────────────────────────
+interface ProvisionUnitSeed {
+  unit_type: 'paragraph' | 'item' | 'sub_item';
+  paragraph: string | null;
+  item: string | null;
+  sub_item: string | null;
+  label: string;
+  content: string;
+}
 
-const SCHEMA = `
--- Legal documents (statutes, presidential decrees, ministerial ordinances)
-CREATE TABLE legal_documents (
-  id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK(type IN ('statute', 'presidential_decree', 'ministerial_ordinance')),
-  title TEXT NOT NULL,
-  title_en TEXT,
-  short_name TEXT,
-  law_number TEXT,
-  status TEXT NOT NULL DEFAULT 'in_force'
-    CHECK(status IN ('in_force', 'amended', 'repealed', 'not_yet_in_force')),
-  issued_date TEXT,
-  in_force_date TEXT,
-  url TEXT,
-  description TEXT,
-  language TEXT DEFAULT 'ko',
-  last_updated TEXT DEFAULT (datetime('now'))
-);
-
-CREATE INDEX idx_documents_law_number ON legal_documents(law_number);
-
--- Individual provisions from statutes
-CREATE TABLE legal_provisions (
-  id INTEGER PRIMARY KEY,
-  document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  provision_ref TEXT NOT NULL,
-  chapter TEXT,
-  section TEXT NOT NULL,
-  title TEXT,
-  content TEXT NOT NULL,
-  content_en TEXT,
-  language TEXT DEFAULT 'ko',
-  metadata TEXT,
-  UNIQUE(document_id, provision_ref)
-);
-
-CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
-CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
-
--- FTS5 for provision search (Korean + English content)
-CREATE VIRTUAL TABLE provisions_fts USING fts5(
-  content, title, content_en,
-  content='legal_provisions',
-  content_rowid='id',
-  tokenize='unicode61'
-);
-
-CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(rowid, content, title, content_en)
-  VALUES (new.id, new.content, new.title, COALESCE(new.content_en, ''));
-END;
-
-CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, content_en)
-  VALUES ('delete', old.id, old.content, old.title, COALESCE(old.content_en, ''));
-END;
-
-CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, content_en)
-  VALUES ('delete', old.id, old.content, old.title, COALESCE(old.content_en, ''));
-  INSERT INTO provisions_fts(rowid, content, title, content_en)
-  VALUES (new.id, new.content, new.title, COALESCE(new.content_en, ''));
-END;
-
--- English translations (separate table for KLRI translations)
-CREATE TABLE english_translations (
-  id INTEGER PRIMARY KEY,
-  document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  provision_ref TEXT,
-  translation TEXT NOT NULL,
-  source TEXT DEFAULT 'KLRI',
-  last_updated TEXT DEFAULT (datetime('now')),
-  UNIQUE(document_id, provision_ref)
-);
-
-CREATE INDEX idx_translations_doc ON english_translations(document_id);
-
--- Cross-references between provisions/documents
-CREATE TABLE cross_references (
-  id INTEGER PRIMARY KEY,
-  source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  source_provision_ref TEXT,
-  target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  target_provision_ref TEXT,
-  ref_type TEXT NOT NULL DEFAULT 'references'
-    CHECK(ref_type IN ('references', 'amended_by', 'implements', 'see_also'))
-);
-
-CREATE INDEX idx_xref_source ON cross_references(source_document_id);
-CREATE INDEX idx_xref_target ON cross_references(target_document_id);
-
--- =============================================================================
--- EU REFERENCES SCHEMA
--- =============================================================================
-
-CREATE TABLE eu_documents (
-  id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK (type IN ('directive', 'regulation')),
-  year INTEGER NOT NULL CHECK (year >= 1957 AND year <= 2100),
-  number INTEGER NOT NULL CHECK (number > 0),
-  community TEXT CHECK (community IN ('EU', 'EC', 'EEC', 'Euratom')),
-  celex_number TEXT,
-  title TEXT,
-  title_en TEXT,
-  short_name TEXT,
-  adoption_date TEXT,
-  entry_into_force_date TEXT,
-  in_force BOOLEAN DEFAULT 1,
-  amended_by TEXT,
-  repeals TEXT,
-  url_eur_lex TEXT,
-  description TEXT,
-  last_updated TEXT DEFAULT CURRENT_TIMESTAMP
-);
-
-CREATE INDEX idx_eu_documents_type_year ON eu_documents(type, year DESC);
-CREATE INDEX idx_eu_documents_celex ON eu_documents(celex_number);
-
-CREATE TABLE eu_references (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  source_type TEXT NOT NULL CHECK (source_type IN ('provision', 'document', 'case_law')),
-  source_id TEXT NOT NULL,
-  document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  provision_id INTEGER REFERENCES legal_provisions(id),
-  eu_document_id TEXT NOT NULL REFERENCES eu_documents(id),
-  eu_article TEXT,
-  reference_type TEXT NOT NULL CHECK (reference_type IN (
-    'implements', 'supplements', 'applies', 'references', 'complies_with',
-    'derogates_from', 'amended_by', 'repealed_by', 'cites_article'
-  )),
-  reference_context TEXT,
-  full_citation TEXT,
-  is_primary_implementation BOOLEAN DEFAULT 0,
-  implementation_status TEXT CHECK (implementation_status IN ('complete', 'partial', 'pending', 'unknown')),
-  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-  last_verified TEXT,
-  UNIQUE(source_id, eu_document_id, eu_article)
-);
-
-CREATE INDEX idx_eu_references_document ON eu_references(document_id, eu_document_id);
-CREATE INDEX idx_eu_references_eu_document ON eu_references(eu_document_id, document_id);
-CREATE INDEX idx_eu_references_provision ON eu_references(provision_id, eu_document_id);
-
--- Build metadata (tier, schema version, build timestamp)
-CREATE TABLE db_metadata (
-  key TEXT PRIMARY KEY,
-  value TEXT NOT NULL
-);
-`;
+interface RevisionSeed {
+  promulgation_number: string;
+  promulgation_date: string;
+  effective_date: string;
+  revision_type: string | null;
+}
+
+interface ProvisionVersionSeed {
+  provision_ref: string;
+  section: string;
+  title?: string;
+  content: string;
+  valid_from: string;
+  valid_to?: string;
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helpers
@@ -238,11 +168,36 @@ function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   return Array.from(byRef.values());
 }
 
+/** A provision_versions row before insertion */
+interface VersionRow {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  content: string;
+  valid_from: string | null;
+  valid_to: string | null;
+  deleted: boolean;
+}
+
+/**
+ * One version per (provision_ref, valid_from), the last one given winning:
+ * ingested history over the current-text fallback. Rows are inserted once
+ * instead of replaced, since replacing one would leave its entry behind in
+ * the external-content provision_versions_fts.
+ */
+function dedupeVersions(versions: VersionRow[]): VersionRow[] {
+  const byKey = new Map<string, VersionRow>();
+  for (const version of versions) {
+    byKey.set(`${version.provision_ref}|${version.valid_from ?? ''}`, version);
+  }
+  return Array.from(byKey.values());
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Build
 // ─────────────────────────────────────────────────────────────────────────────
 
-function buildDatabase(): void {
+async function buildDatabase(): Promise<void> {
   console.log('Building South Korea Law MCP database...\n');
 
   if (fs.existsSync(DB_PATH)) {
@@ -262,15 +217,68 @@ function buildDatabase(): void {
   db.exec(SCHEMA);
 
   const insertDoc = db.prepare(`
-    INSERT INTO legal_documents (id, type, title, title_en, short_name, law_number, status, issued_date, in_force_date, url, description, language)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_documents (id, type, title, title_en, short_name, law_number, ministry, status, issued_date, in_force_date, url, description, language)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, content_en, language, metadata)
+    INSERT INTO legal_provisions (document_id, provision_ref, kind, chapter, heading_ref, section, title, content, content_en, content_norm, language, metadata, valid_from, valid_to,
+      deleted, deleted_date, deleted_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertHeading = db.prepare(`
+    INSERT OR IGNORE INTO headings (document_id, heading_ref, parent_ref, level, label, title, position)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertUnit = db.prepare(`
+    INSERT INTO provision_units (document_id, provision_ref, unit_type, paragraph, item, sub_item, label, content, position)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const insertDefinition = db.prepare(`
+    INSERT INTO definitions (document_id, provision_ref, paragraph, item, term, term_key, definition)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertSanction = db.prepare(`
+    INSERT INTO sanctions (document_id, provision_ref, paragraph, item, sanction_type, penalty,
+      max_imprisonment_years, max_fine_krw, revenue_share, violated_provision_ref, violated_citation, conduct)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertActor = db.prepare(`
+    INSERT INTO provision_actors (document_id, provision_ref, actor_id, term, addressee)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertCommencement = db.prepare(`
+    INSERT INTO commencements (document_id, provision_ref, effective_date, promulgation_number, addendum_ref, clause)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertVersion = db.prepare(`
+    INSERT INTO provision_versions (document_id, provision_ref, section, title, content, content_norm, valid_from, valid_to, deleted)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertTranslation = db.prepare(`
+    INSERT OR REPLACE INTO english_translations
+      (document_id, provision_ref, translation, title, source, source_url, translated_law_number, translation_date, korean_date, stale)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertRevision = db.prepare(`
+    INSERT OR IGNORE INTO revisions (document_id, promulgation_number, promulgation_date, effective_date, revision_type)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type, context)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
   const insertEuDocument = db.prepare(`
     INSERT OR IGNORE INTO eu_documents
       (id, type, year, number, community, title, short_name, url_eur_lex, description)
@@ -309,10 +317,27 @@ function buildDatabase(): void {
 
   let totalDocs = 0;
   let totalProvisions = 0;
+  let totalVersions = 0;
+  let totalRevisions = 0;
+  let totalTranslations = 0;
+  let staleTranslations = 0;
+  let totalUnits = 0;
+  let totalHeadings = 0;
+  let totalDefinitions = 0;
+  let totalSanctions = 0;
+  let totalActorTags = 0;
+  let totalAddenda = 0;
+  let totalDeleted = 0;
+  let totalCommencements = 0;
+  let totalReferences = 0;
+  let totalDelegations = 0;
   let totalEuDocuments = 0;
   let totalEuReferences = 0;
   let emptyDocs = 0;
 
+  const referenceDocs: ReferenceDocument[] = [];
+  const referenceProvisions: ReferenceProvision[] = [];
+
   const loadAll = db.transaction(() => {
     // Insert default EU documents for cross-referencing
     insertDefaultEuDocuments(db, insertEuDocument);
@@ -327,9 +352,10 @@ function buildDatabase(): void {
         seed.id,
         seed.type ?? 'statute',
         seed.title,
-        seed.title_en ?? null,
+        seed.title_en || seed.translation?.title || null,
         seed.short_name ?? null,
         seed.law_number ?? null,
+        seed.ministry || null,
         seed.status ?? 'in_force',
         seed.issued_date ?? null,
         seed.in_force_date ?? null,
@@ -338,27 +364,182 @@ function buildDatabase(): void {
         seed.language ?? 'ko',
       );
       totalDocs++;
+      referenceDocs.push({ id: seed.id, type: seed.type ?? 'statute', title: seed.title });
 
       if (!seed.provisions || seed.provisions.length === 0) {
         emptyDocs++;
         continue;
       }
 
+      (seed.headings ?? []).forEach((heading, position) => {
+        insertHeading.run(
+          seed.id, heading.heading_ref, heading.parent_ref, heading.level,
+          heading.label, heading.title, position,
+        );
+        totalHeadings++;
+      });
+
       const deduped = dedupeProvisions(seed.provisions);
+      const history = seed.provision_versions ?? [];
+
+      // Start of the current text: the open-ended historical window if history
+      // was ingested, otherwise the enforcement date of the current version.
+      const currentSince = new Map<string, string>();
+      for (const version of history) {
+        if (!version.valid_to) currentSince.set(version.provision_ref, version.valid_from);
+      }
+
+      // English text aligned by provision ref. The Korean side's last
+      // amendment is the later of its 개정 notes and, for articles the
+      // history shows as amended, the promulgation of the current version.
+      const translation = seed.translation;
+      const translatedArticles = new Map((translation?.articles ?? []).map(a => [a.provision_ref, a]));
+      const amendedRefs = new Set(history.filter(v => v.valid_to).map(v => v.provision_ref));
+      const promulgatedOn = new Map((seed.revisions ?? []).map(r => [r.effective_date, r.promulgation_date]));
+
+      // Deleting acts are identified by the promulgation date in the stub
+      const deletingActs = amendingActs(seed.type ?? 'statute', [
+        ...(seed.revisions ?? []),
+        ...deduped.filter(p => p.kind === 'addendum').map(p => ({
+          promulgation_number: (p.metadata?.promulgation_number as string | null) ?? null,
+          promulgation_date: (p.metadata?.promulgation_date as string | null) ?? null,
+        })),
+      ]);
+
+      const versions: VersionRow[] = [];
 
       for (const prov of deduped) {
+        const validFrom = currentSince.get(prov.provision_ref) ?? seed.in_force_date ?? null;
+        const deletion = prov.kind === 'addendum' ? null : parseDeletion(prov.content);
+        if (deletion) totalDeleted++;
         insertProvision.run(
           seed.id,
           prov.provision_ref,
+          prov.kind ?? 'article',
           prov.chapter ?? null,
+          prov.heading_ref ?? null,
           prov.section,
           prov.title ?? null,
           prov.content,
-          prov.content_en ?? null,
+          prov.content_en ?? translatedArticles.get(prov.provision_ref)?.text ?? null,
+          normalizeKoreanText(prov.content),
           'ko',
           prov.metadata ? JSON.stringify(prov.metadata) : null,
+          validFrom,
+          null,
+          deletion ? 1 : 0,
+          deletion?.deleted_date ?? null,
+          deletion?.deleted_date ? deletingActs.get(deletion.deleted_date) ?? null : null,
         );
         totalProvisions++;
+        if (prov.kind === 'addendum') totalAddenda++;
+        referenceProvisions.push({ document_id: seed.id, provision_ref: prov.provision_ref, content: prov.content });
+
+        const english = translatedArticles.get(prov.provision_ref);
+        if (translation && english) {
+          const koreanDate = [
+            lastAmendmentDate(prov.content),
+            amendedRefs.has(prov.provision_ref) && validFrom ? promulgatedOn.get(validFrom) ?? validFrom : null,
+          ].filter((d): d is string => !!d).sort().pop() ?? null;
+          const stale = !!(koreanDate && translation.promulgation_date && koreanDate > translation.promulgation_date);
+
+          insertTranslation.run(
+            seed.id, prov.provision_ref, english.text, english.title || null,
+            translation.source, translation.url, translation.law_number,
+            translation.promulgation_date, koreanDate, stale ? 1 : 0,
+          );
+          totalTranslations++;
+          if (stale) staleTranslations++;
+        }
+
+        (prov.units ?? []).forEach((unit, position) => {
+          insertUnit.run(
+            seed.id, prov.provision_ref, unit.unit_type,
+            unit.paragraph, unit.item, unit.sub_item,
+            unit.label, unit.content, position,
+          );
+          totalUnits++;
+        });
+
+        for (const def of extractDefinitions(prov)) {
+          insertDefinition.run(
+            seed.id, prov.provision_ref, def.paragraph, def.item,
+            def.term, def.term.replace(/\s+/g, ''), def.definition,
+          );
+          totalDefinitions++;
+        }
+
+        for (const sanction of extractSanctions(prov)) {
+          insertSanction.run(
+            seed.id, prov.provision_ref, sanction.paragraph, sanction.item,
+            sanction.sanction_type, sanction.penalty,
+            sanction.max_imprisonment_years, sanction.max_fine_krw, sanction.revenue_share,
+            sanction.violated_provision_ref, sanction.violated_citation, sanction.conduct,
+          );
+          totalSanctions++;
+        }
+
+        for (const tag of tagActors(prov.content)) {
+          insertActor.run(seed.id, prov.provision_ref, tag.actor_id, tag.term, tag.addressee ? 1 : 0);
+          totalActorTags++;
+        }
+
+        if (!currentSince.has(prov.provision_ref)) {
+          versions.push({
+            provision_ref: prov.provision_ref, section: prov.section, title: prov.title ?? null,
+            content: prov.content, valid_from: validFrom, valid_to: null, deleted: !!deletion,
+          });
+        }
+      }
+
+      for (const commencement of seed.commencements ?? []) {
+        insertCommencement.run(
+          seed.id, commencement.provision_ref, commencement.effective_date,
+          commencement.promulgation_number, commencement.addendum_ref, commencement.clause,
+        );
+        totalCommencements++;
+      }
+
+      // Without ingested history, the current version is the only known revision
+      const revisions = seed.revisions ?? [{
+        promulgation_number: seed.law_number ?? '',
+        promulgation_date: seed.issued_date ?? '',
+        effective_date: seed.in_force_date ?? '',
+        revision_type: seed.revision_type ?? null,
+      }];
+      for (const revision of revisions) {
+        if (!revision.promulgation_number && !revision.effective_date) continue;
+        const result = insertRevision.run(
+          seed.id,
+          revision.promulgation_number || null,
+          revision.promulgation_date || null,
+          revision.effective_date || null,
+          revision.revision_type,
+        );
+        totalRevisions += result.changes;
+      }
+
+      for (const version of history) {
+        versions.push({
+          provision_ref: version.provision_ref, section: version.section, title: version.title ?? null,
+          content: version.content, valid_from: version.valid_from, valid_to: version.valid_to ?? null,
+          deleted: !!parseDeletion(version.content),
+        });
+      }
+
+      for (const version of dedupeVersions(versions)) {
+        insertVersion.run(
+          seed.id,
+          version.provision_ref,
+          version.section,
+          version.title,
+          version.content,
+          normalizeKoreanText(version.content),
+          version.valid_from,
+          version.valid_to,
+          version.deleted ? 1 : 0,
+        );
+        totalVersions++;
       }
 
       // Auto-add GDPR cross-reference for PIPA
@@ -378,18 +559,39 @@ function buildDatabase(): void {
         }
       }
     }
+
+    // Citations of other documents (and 법 → 시행령 → 시행규칙 delegation)
+    // can only be resolved once every document is loaded
+    for (const link of extractReferences(referenceDocs, referenceProvisions)) {
+      insertCrossReference.run(
+        link.source_document_id, link.source_provision_ref,
+        link.target_document_id, link.target_provision_ref,
+        link.ref_type, link.context,
+      );
+      if (link.ref_type === 'implements') totalDelegations++;
+      else totalReferences++;
+    }
   });
 
   loadAll();
 
+  const totalEmbeddings = BUILD_EMBEDDINGS ? await buildEmbeddings(db) : 0;
+
   writeMetadata(db);
   finalizeDb(db);
 
   const size = fs.statSync(DB_PATH).size;
   console.log(
-    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
+    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions (${totalDeleted} deleted), ${totalVersions} provision versions, ${totalRevisions} revisions, ${totalUnits} paragraph/item units, ${totalHeadings} headings, ` +
+    `${totalAddenda} addendum articles, ${totalCommencements} commencement dates, ${totalDefinitions} definitions, ${totalSanctions} sanctions, ${totalActorTags} actor tags, ${totalReferences} cross-references, ${totalDelegations} delegation links, ` +
     `${totalEuDocuments} EU documents, ${totalEuReferences} EU references`
   );
+  if (totalTranslations > 0) {
+    console.log(`  ${totalTranslations} English article translations (${staleTranslations} behind the Korean text).`);
+  }
+  if (totalEmbeddings > 0) {
+    console.log(`  ${totalEmbeddings} provision embeddings (${EMBEDDING_MODEL}).`);
+  }
   if (emptyDocs > 0) {
     console.log(`  ${emptyDocs} documents with no provisions.`);
   }
@@ -423,11 +625,52 @@ function insertDefaultEuDocuments(db: Database, stmt: Database.Statement): void
   );
 }
 
+/**
+ * Embed every current provision for semantic search. Skipped, leaving search
+ * on FTS, when no model commit is pinned or @huggingface/transformers or the
+ * model cannot be loaded.
+ */
+async function buildEmbeddings(db: Database.Database): Promise<number> {
+  if (!isPinnedRevision(EMBEDDING_MODEL_REVISION)) {
+    console.log(`Embeddings skipped: set EMBEDDING_MODEL_REVISION in src/utils/embeddings.ts to a commit SHA of ${EMBEDDING_MODEL} on the Hugging Face Hub.`);
+    return 0;
+  }
+
+  const embed = await loadEmbedder({ allowDownload: true });
+  if (!embed) {
+    console.log('Embeddings skipped: install @huggingface/transformers (see the README) to build the vector index.');
+    return 0;
+  }
+
+  db.exec(EMBEDDINGS_SCHEMA);
+  const insertEmbedding = db.prepare('INSERT INTO provision_embeddings (provision_id, embedding) VALUES (?, ?)');
+  const insertBatch = db.transaction((ids: number[], vectors: Float32Array[]) => {
+    ids.forEach((id, i) => insertEmbedding.run(id, vectorToBlob(vectors[i])));
+  });
+
+  const provisions = db.prepare('SELECT id, content FROM legal_provisions ORDER BY id').all() as { id: number; content: string }[];
+  for (let start = 0; start < provisions.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = provisions.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await embed(batch.map(p => p.content), 'passage');
+    if (vectors.some(v => v.length !== EMBEDDING_DIMENSIONS)) {
+      throw new Error(`${EMBEDDING_MODEL} returned vectors of ${vectors[0]?.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+    }
+    insertBatch(batch.map(p => p.id), vectors);
+    if ((start / EMBEDDING_BATCH_SIZE) % 20 === 0) {
+      console.log(`  Embedded ${Math.min(start + EMBEDDING_BATCH_SIZE, provisions.length)}/${provisions.length} provisions`);
+    }
+  }
+
+  db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)').run('embedding_model', EMBEDDING_MODEL);
+  db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)').run('embedding_model_revision', EMBEDDING_MODEL_REVISION);
+  return provisions.length;
+}
+
 function writeMetadata(db: Database): void {
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   const writeMeta = db.transaction(() => {
     insertMeta.run('tier', 'free');
-    insertMeta.run('schema_version', '1');
+    insertMeta.run('schema_version', '2');
     insertMeta.run('built_at', new Date().toISOString());
     insertMeta.run('builder', 'build-db.ts');
     insertMeta.run('jurisdiction', 'KR');
@@ -444,4 +687,7 @@ function finalizeDb(db: Database): void {
   db.close();
 }
 
-buildDatabase();
+buildDatabase().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
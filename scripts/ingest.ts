@@ -5,11 +5,15 @@
  * Two-phase ingestion of Korean legislation from open.law.go.kr:
  *   Phase 1 (Discovery): Fetch law list from API
  *   Phase 2 (Content): Fetch individual law XML, parse, and write seed JSON
+ * plus an optional English stage:
+ *   Phase 3 (English): Fetch KLRI translations (elaw.klri.re.kr) into the seeds
  *
  * Usage:
  *   npm run ingest                    # Full ingestion
  *   npm run ingest -- --limit 20      # Test with 20 laws
  *   npm run ingest -- --skip-discovery # Reuse cached law index
+ *   npm run ingest -- --history       # Also fetch revision history (연혁)
+ *   npm run ingest -- --english       # Also fetch KLRI English translations
  *
  * Requires KOREA_LAW_API_KEY environment variable (free registration at open.law.go.kr).
  */
@@ -17,8 +21,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { fetchLawList, fetchLawDetail, requireApiKey, isApiError } from './lib/fetcher.js';
+import {
+  fetchLawList, fetchLawDetail, fetchLawHistory, fetchKlriTranslation, fetchKlriLawDetail, requireApiKey, isApiError,
+} from './lib/fetcher.js';
 import { parseLawList, parseLawXml, type LawIndexEntry, type ParsedLaw } from './lib/parser.js';
+import { buildProvisionVersions, buildRevisions, type ParsedProvisionVersion, type ParsedRevision } from './lib/versions.js';
+import { parseKlriLaw, parseKlriSearchResults, pickKlriResult, type ParsedTranslation } from './lib/klri.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -34,10 +42,12 @@ const FULL_CORPUS_QUERY = '*';
 // CLI argument parsing
 // ─────────────────────────────────────────────────────────────────────────────
 
-function parseArgs(): { limit: number | null; skipDiscovery: boolean } {
+function parseArgs(): { limit: number | null; skipDiscovery: boolean; history: boolean; english: boolean } {
   const args = process.argv.slice(2);
   let limit: number | null = null;
   let skipDiscovery = false;
+  let history = false;
+  let english = false;
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--limit' && args[i + 1]) {
@@ -45,10 +55,14 @@ function parseArgs(): { limit: number | null; skipDiscovery: boolean } {
       i++;
     } else if (args[i] === '--skip-discovery') {
       skipDiscovery = true;
+    } else if (args[i] === '--history') {
+      history = true;
+    } else if (args[i] === '--english') {
+      english = true;
     }
   }
 
-  return { limit, skipDiscovery };
+  return { limit, skipDiscovery, history, english };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -109,7 +123,7 @@ async function discoverLaws(): Promise<LawIndexEntry[]> {
 // Phase 2: Content — Fetch and parse each law
 // ─────────────────────────────────────────────────────────────────────────────
 
-async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null): Promise<void> {
+async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null, history: boolean): Promise<void> {
   const toProcess = limit ? laws.slice(0, limit) : laws;
   console.log(`Phase 2: Fetching content for ${toProcess.length} laws...\n`);
 
@@ -119,12 +133,22 @@ async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null): P
   let skipped = 0;
   let failed = 0;
   let totalProvisions = 0;
+  let totalVersions = 0;
 
   for (const law of toProcess) {
     const seedFile = path.join(SEED_DIR, `${law.lawId}.json`);
 
-    // Incremental: skip if seed already exists
+    // Incremental: skip if seed already exists (history is backfilled if requested)
     if (fs.existsSync(seedFile)) {
+      if (history) {
+        const existing = JSON.parse(fs.readFileSync(seedFile, 'utf-8')) as ParsedLaw;
+        if (!existing.provision_versions && existing.provisions.length > 0) {
+          const revisionHistory = await fetchRevisionHistory(law, existing);
+          Object.assign(existing, revisionHistory);
+          fs.writeFileSync(seedFile, JSON.stringify(existing, null, 2));
+          totalVersions += revisionHistory.provision_versions.length;
+        }
+      }
       skipped++;
       processed++;
       if (processed % 50 === 0) {
@@ -148,6 +172,7 @@ async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null): P
             title_en: '',
             short_name: '',
             law_number: law.lawNumber,
+            ...(law.ministry ? { ministry: law.ministry } : {}),
             status: 'in_force',
             issued_date: law.promulgationDate,
             in_force_date: law.enforcementDate,
@@ -162,6 +187,12 @@ async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null): P
         }
       } else {
         const parsed = parseLawXml(result.body, law.lawId);
+        parsed.ministry ||= law.ministry || undefined;
+        if (history && parsed.provisions.length > 0) {
+          const revisionHistory = await fetchRevisionHistory(law, parsed);
+          Object.assign(parsed, revisionHistory);
+          totalVersions += revisionHistory.provision_versions.length;
+        }
         fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
         totalProvisions += parsed.provisions.length;
       }
@@ -182,6 +213,133 @@ async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null): P
   console.log(`  Skipped (already cached): ${skipped}`);
   console.log(`  Failed/Not available: ${failed}`);
   console.log(`  Total provisions extracted: ${totalProvisions}`);
+  if (history) {
+    console.log(`  Total provision versions: ${totalVersions}`);
+  }
+}
+
+/**
+ * Fetch every historical version (연혁) of a law and collapse them into
+ * per-article validity windows, along with the list of revisions (제개정
+ * type, 공포번호, dates). The already-parsed current version is included as
+ * the latest snapshot so it does not need to be fetched twice.
+ */
+async function fetchRevisionHistory(
+  law: LawIndexEntry,
+  current: ParsedLaw,
+): Promise<{ provision_versions: ParsedProvisionVersion[]; revisions: ParsedRevision[] }> {
+  const snapshots: ParsedLaw[] = [current];
+  const revisions: LawIndexEntry[] = [];
+
+  let page = 1;
+  while (true) {
+    const result = await fetchLawHistory(law.title, page);
+    if (result.status !== 200 || isApiError(result.body)) {
+      console.log(`  WARN: could not fetch history for ${law.lawId} (${law.title})`);
+      break;
+    }
+
+    const listResult = parseLawList(result.body);
+    // Title search also returns decrees/ordinances of the same Act
+    revisions.push(...listResult.entries.filter(e => e.title === law.title && e.lawId !== law.lawId));
+
+    if (!listResult.hasNextPage || listResult.entries.length === 0) break;
+    page++;
+  }
+
+  for (const revision of revisions) {
+    try {
+      const detail = await fetchLawDetail(revision.lawId);
+      if (detail.status !== 200 || isApiError(detail.body)) continue;
+      const snapshot = parseLawXml(detail.body, revision.lawId);
+      snapshot.revision_type ||= revision.revisionType || undefined;
+      snapshots.push(snapshot);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  WARN: skipping revision ${revision.lawId} of ${law.title}: ${msg}`);
+    }
+  }
+
+  return {
+    provision_versions: buildProvisionVersions(snapshots),
+    revisions: buildRevisions(snapshots),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Phase 3: English — KLRI translations
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Attach KLRI English translations to the seeds written in Phase 2. Seeds that
+ * already carry a translation are skipped; delete the `translation` field to
+ * refetch after KLRI publishes a newer version.
+ */
+async function fetchEnglishTranslations(laws: LawIndexEntry[], limit: number | null): Promise<void> {
+  const toProcess = limit ? laws.slice(0, limit) : laws;
+  console.log(`\nPhase 3: Fetching KLRI English translations for ${toProcess.length} laws...\n`);
+
+  let translated = 0;
+  let notFound = 0;
+  let alignedArticles = 0;
+  let unalignedArticles = 0;
+
+  for (const law of toProcess) {
+    const seedFile = path.join(SEED_DIR, `${law.lawId}.json`);
+    if (!fs.existsSync(seedFile)) continue;
+
+    const seed = JSON.parse(fs.readFileSync(seedFile, 'utf-8')) as ParsedLaw;
+    if (seed.translation || seed.provisions.length === 0) continue;
+
+    try {
+      const translation = await fetchTranslation(seed);
+      if (!translation) {
+        notFound++;
+        continue;
+      }
+
+      // Align by provision ref; KLRI numbers bis articles "Article 28-8" like art-28-8
+      const refs = new Set(seed.provisions.map(p => p.provision_ref));
+      const aligned = translation.articles.filter(a => refs.has(a.provision_ref)).length;
+      alignedArticles += aligned;
+      unalignedArticles += translation.articles.length - aligned;
+      if (aligned < translation.articles.length) {
+        console.log(`  WARN: ${translation.articles.length - aligned} KLRI articles of ${seed.title} have no Korean counterpart`);
+      }
+
+      seed.translation = translation;
+      fs.writeFileSync(seedFile, JSON.stringify(seed, null, 2));
+      translated++;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  WARN: KLRI translation of ${seed.title} failed: ${msg}`);
+    }
+  }
+
+  console.log(`\nPhase 3 complete:`);
+  console.log(`  Translated: ${translated}`);
+  console.log(`  No KLRI translation found: ${notFound}`);
+  console.log(`  Articles aligned: ${alignedArticles} (${unalignedArticles} unaligned)`);
+}
+
+async function fetchTranslation(seed: ParsedLaw): Promise<ParsedTranslation | undefined> {
+  const search = await fetchKlriTranslation(seed.title);
+  if (search.status !== 200) {
+    console.log(`  WARN: KLRI search returned HTTP ${search.status} for ${seed.title}`);
+    return undefined;
+  }
+
+  const result = pickKlriResult(parseKlriSearchResults(search.body), seed);
+  if (!result) return undefined;
+
+  const detail = await fetchKlriLawDetail(result.klri_id);
+  if (detail.status !== 200) {
+    console.log(`  WARN: KLRI law page returned HTTP ${detail.status} for ${seed.title}`);
+    return undefined;
+  }
+
+  const translation = parseKlriLaw(detail.body, result.klri_id);
+  return translation.articles.length > 0 ? translation : undefined;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -189,7 +347,7 @@ async function fetchAndParseLaws(laws: LawIndexEntry[], limit: number | null): P
 // ─────────────────────────────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
-  const { limit, skipDiscovery } = parseArgs();
+  const { limit, skipDiscovery, history, english } = parseArgs();
 
   console.log('South Korea Law MCP — Ingestion Pipeline');
   console.log('=========================================\n');
@@ -199,6 +357,8 @@ async function main(): Promise<void> {
 
   if (limit) console.log(`  --limit ${limit}`);
   if (skipDiscovery) console.log(`  --skip-discovery`);
+  if (history) console.log(`  --history`);
+  if (english) console.log(`  --english`);
   console.log('');
 
   let laws: LawIndexEntry[];
@@ -211,7 +371,10 @@ async function main(): Promise<void> {
     laws = await discoverLaws();
   }
 
-  await fetchAndParseLaws(laws, limit);
+  await fetchAndParseLaws(laws, limit, history);
+  if (english) {
+    await fetchEnglishTranslations(laws, limit);
+  }
 
   console.log('\nIngestion complete.');
 }
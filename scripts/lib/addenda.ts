@@ -0,0 +1,174 @@
+/**
+ * Addenda (부칙) of Korean legislation.
+ *
+ * Every amendment adds a 부칙 block identified by the promulgation number of
+ * the amending act:
+ *
+ *   부칙 <제19234호, 2023. 3. 14.>
+ *   제1조(시행일) 이 법은 공포 후 6개월이 경과한 날부터 시행한다. 다만,
+ *     제35조의2의 개정규정은 2024년 3월 15일부터 시행하고, ...
+ *   제2조(개인정보 국외 이전에 관한 경과조치) ...
+ *
+ * Each addendum article becomes a provision of kind 'addendum'. The 시행일
+ * article is also parsed into commencement dates, so an article whose
+ * amendment takes effect later than the rest of the act can be flagged.
+ */
+
+export interface ParsedAddendumProvision {
+  provision_ref: string;
+  kind: 'addendum';
+  /** Addendum heading: "부칙 <제19234호, 2023. 3. 14.>" */
+  chapter: string;
+  section: string;
+  title: string;
+  content: string;
+  metadata: { promulgation_number: string | null; promulgation_date: string | null };
+}
+
+/**
+ * Effective date set by a 시행일 clause. provision_ref is null for the main
+ * clause ("이 법은 ... 시행한다"), which covers the whole amendment.
+ */
+export interface ParsedCommencement {
+  provision_ref: string | null;
+  effective_date: string;
+  promulgation_number: string | null;
+  addendum_ref: string;
+  clause: string;
+}
+
+export interface AddendumInput {
+  promulgation_number: string | null;
+  /** YYYY-MM-DD */
+  promulgation_date: string | null;
+  text: string;
+}
+
+/** Addendum article start: 제1조(시행일) */
+const ADDENDUM_ARTICLE = /^제(\d+)조(?:의(\d+))?\(([^)]*)\)\s*/;
+
+/** "제35조의2", "제28조의8, 제35조의3 및 제39조의3" before 개정규정/규정 */
+const TARGET_ARTICLE = /제(\d+)조(?:의(\d+))?/g;
+
+/**
+ * Split the text of one 부칙단위 into provisions. An addendum without
+ * numbered articles ("이 법은 공포한 날부터 시행한다.") is one provision.
+ */
+export function parseAddendum(
+  addendum: AddendumInput,
+  index: number,
+  usedRefs: Set<string>,
+): ParsedAddendumProvision[] {
+  const lines = addendum.text.split(/\n+/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const heading = lines[0]?.startsWith('부칙') ? lines.shift()! : `부칙 <제${addendum.promulgation_number ?? '?'}호>`;
+
+  let base = `add-${addendum.promulgation_number ?? index + 1}`;
+  if (usedRefs.has(base)) base = `${base}-${index + 1}`;
+  usedRefs.add(base);
+
+  const metadata = {
+    promulgation_number: addendum.promulgation_number,
+    promulgation_date: addendum.promulgation_date,
+  };
+
+  const articles: ParsedAddendumProvision[] = [];
+  let preamble = '';
+
+  for (const line of lines) {
+    const match = line.match(ADDENDUM_ARTICLE);
+    if (match) {
+      const number = match[2] ? `${match[1]}-${match[2]}` : match[1];
+      articles.push({
+        provision_ref: `${base}-art-${number}`,
+        kind: 'addendum',
+        chapter: heading,
+        section: `부칙 제${match[1]}조${match[2] ? `의${match[2]}` : ''}`,
+        title: match[3].trim(),
+        content: line,
+        metadata,
+      });
+    } else if (articles.length > 0) {
+      const last = articles[articles.length - 1];
+      last.content = `${last.content} ${line}`;
+    } else {
+      preamble = preamble ? `${preamble} ${line}` : line;
+    }
+  }
+
+  if (articles.length === 0 && preamble) {
+    return [{ provision_ref: base, kind: 'addendum', chapter: heading, section: '부칙', title: '', content: preamble, metadata }];
+  }
+  return articles;
+}
+
+/**
+ * Commencement dates from the 시행일 article of an addendum (or from a
+ * single-sentence addendum). Clauses whose date is delegated ("대통령령으로
+ * 정하는 날") cannot be resolved and are skipped.
+ */
+export function extractCommencements(
+  provisions: ParsedAddendumProvision[],
+): ParsedCommencement[] {
+  const source = provisions.find(p => p.title.includes('시행일'))
+    ?? (provisions.length === 1 && provisions[0].section === '부칙' ? provisions[0] : undefined);
+  if (!source) return [];
+
+  const { promulgation_number, promulgation_date } = source.metadata;
+  const body = source.content.replace(ADDENDUM_ARTICLE, '');
+  const commencements: ParsedCommencement[] = [];
+
+  // "이 법은 X부터 시행한다. 다만, A의 개정규정은 Y부터 시행하고, B의 개정규정은 Z부터 시행한다."
+  const clauses = body.split(/다만,|(?<=시행하고|시행하며),/).map(c => c.trim()).filter(Boolean);
+  for (const clause of clauses) {
+    const date = resolveCommencementDate(clause, promulgation_date);
+    if (!date) continue;
+
+    const subject = clause.split(/(?:개정)?규정[은는]|법[은는]|영[은는]|규칙[은는]/)[0];
+    const targets = /^이\s*(?:법|영|규칙)/.test(clause.trim())
+      ? []
+      : [...subject.matchAll(TARGET_ARTICLE)].map(([, article, branch]) => branch ? `art-${article}-${branch}` : `art-${article}`);
+
+    if (targets.length === 0) {
+      commencements.push({ provision_ref: null, effective_date: date, promulgation_number, addendum_ref: source.provision_ref, clause });
+    }
+    for (const ref of targets) {
+      commencements.push({ provision_ref: ref, effective_date: date, promulgation_number, addendum_ref: source.provision_ref, clause });
+    }
+  }
+
+  return commencements;
+}
+
+/**
+ * Resolve the date in a 시행일 clause:
+ *   "2024년 3월 15일부터"            → 2024-03-15
+ *   "공포한 날부터"                  → promulgation date
+ *   "공포 후 6개월이 경과한 날부터"   → the day after the period ends
+ *     (Civil Act 제157조/제160조: the first day is not counted, a period in
+ *     months ends on the same day number of the last month)
+ */
+export function resolveCommencementDate(clause: string, promulgationDate: string | null): string | null {
+  const explicit = clause.match(/(\d{4})\s*년\s*(\d{1,2})\s*월\s*(\d{1,2})\s*일부터/);
+  if (explicit) {
+    return `${explicit[1]}-${explicit[2].padStart(2, '0')}-${explicit[3].padStart(2, '0')}`;
+  }
+  if (!promulgationDate || !/^\d{4}-\d{2}-\d{2}$/.test(promulgationDate)) return null;
+
+  if (/공포한\s*날부터/.test(clause)) return promulgationDate;
+
+  const relative = clause.match(/공포\s*후\s*(\d+)\s*(년|개월|일)이?\s*경과한\s*날부터/);
+  if (!relative) return null;
+
+  const [year, month, day] = promulgationDate.split('-').map(Number);
+  const amount = Number(relative[1]);
+  let end: Date;
+  if (relative[2] === '일') {
+    end = new Date(Date.UTC(year, month - 1, day + amount));
+  } else {
+    const months = relative[2] === '년' ? amount * 12 : amount;
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    end = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)));
+  }
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end.toISOString().slice(0, 10);
+}
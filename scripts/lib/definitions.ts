@@ -0,0 +1,95 @@
+/**
+ * Defined-term extraction for Korean legislation.
+ *
+ * Definition articles (usually 제2조(정의)) list terms as numbered items:
+ *
+ *   제2조(정의) 이 법에서 사용하는 용어의 뜻은 다음과 같다.
+ *     1. "개인정보"란 살아 있는 개인에 관한 정보로서 ... 정보를 말한다.
+ *       가. 성명, 주민등록번호 ...
+ *     1의2. "가명처리"란 ...
+ *
+ * Single-term articles put the definition in the article or paragraph text
+ * itself ("이 법에서 "전자문서"란 ...을 말한다"). Sub-items (목) belong to
+ * the definition of their item and are appended to it.
+ */
+
+import type { ParsedProvisionUnit } from './parser.js';
+
+export interface ParsedDefinition {
+  term: string;
+  definition: string;
+  paragraph: string | null;
+  item: string | null;
+}
+
+interface DefinitionSource {
+  title?: string;
+  content: string;
+  units?: ParsedProvisionUnit[];
+}
+
+/** "X"란 / "X"이란 / "X"라 함은 — straight or curly quotes */
+const DEFINED_TERM = /["“]([^"”]{1,60})["”]\s*(?:이?란|이?라\s*함은)\s*/;
+
+/** Unit label or article heading in front of the definition */
+const LEADING_LABEL = /^\s*(?:제\d+조(?:의\d+)?(?:\([^)]*\))?|[①-⑳㉑-㉟㊱-㊿]|\d+(?:의\d+)?\.)\s*/;
+
+/** Is this a definition article? 제2조(정의), 제3조(용어의 정의) */
+export function isDefinitionArticle(provision: DefinitionSource): boolean {
+  return /정의/.test(provision.title ?? '');
+}
+
+/**
+ * Extract the terms defined by a definition article. Returns an empty list
+ * for any other article.
+ */
+export function extractDefinitions(provision: DefinitionSource): ParsedDefinition[] {
+  if (!isDefinitionArticle(provision)) return [];
+
+  const units = provision.units ?? [];
+  const definitions: ParsedDefinition[] = [];
+
+  for (const unit of units) {
+    if (unit.unit_type === 'sub_item') continue;
+
+    const parsed = parseDefinition(unit.content);
+    if (!parsed) continue;
+
+    if (unit.unit_type === 'paragraph' && units.some(u => u.unit_type === 'item' && u.paragraph === unit.paragraph)) {
+      // "① 이 법에서 사용하는 용어의 뜻은 다음과 같다." — the items carry the terms
+      continue;
+    }
+
+    const subItems = units
+      .filter(u => u.unit_type === 'sub_item' && u.paragraph === unit.paragraph && u.item === unit.item)
+      .map(u => u.content);
+
+    definitions.push({
+      term: parsed.term,
+      definition: [parsed.definition, ...subItems].join(' '),
+      paragraph: unit.paragraph,
+      item: unit.unit_type === 'item' ? unit.item : null,
+    });
+  }
+
+  // Articles without a 항/호 tree define a single term in their own text
+  if (definitions.length === 0 && units.length === 0) {
+    const parsed = parseDefinition(provision.content);
+    if (parsed) definitions.push({ ...parsed, paragraph: null, item: null });
+  }
+
+  return definitions;
+}
+
+function parseDefinition(text: string): { term: string; definition: string } | null {
+  const body = text.replace(LEADING_LABEL, '');
+  const match = body.match(DEFINED_TERM);
+  if (!match || match.index === undefined) return null;
+
+  // The term must open the sentence (allowing "이 법에서"), not be quoted mid-text
+  const before = body.slice(0, match.index).trim();
+  if (before && !/^이\s*(?:법|영|규칙)에서(?:\s*사용하는)?$/.test(before)) return null;
+
+  const term = match[1].trim();
+  return term ? { term, definition: body.slice(match.index).trim() } : null;
+}
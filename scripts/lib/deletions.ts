@@ -0,0 +1,57 @@
+/**
+ * Deleted-article stubs in Korean legislation.
+ *
+ * A repealed article keeps its number so the following articles keep theirs;
+ * law.go.kr returns it as a stub with the promulgation date of the amending
+ * act (several when it was deleted, restored and deleted again):
+ *
+ *   제39조의3 삭제 <2020. 2. 4.>
+ *   제8조 삭제 <2011. 3. 29., 2015. 7. 24.>
+ *
+ * The amending act is found by that date among the revisions (제개정이력) or
+ * the addenda (부칙) of the law.
+ */
+
+export interface ParsedDeletion {
+  /** Promulgation date of the deleting act (YYYY-MM-DD); null when the stub carries none */
+  deleted_date: string | null;
+}
+
+/** Promulgation number and kind of act ("법률", "대통령령", ...) by promulgation date */
+export type AmendingActs = Map<string, string>;
+
+const DELETED_STUB = /^\s*제\d+조(?:의\d+)?(?:\([^)]*\))?\s*삭제\s*(?:<([^<>]*)>)?\s*$/;
+
+/** Detect a deleted-article stub; null for an article with text */
+export function parseDeletion(content: string): ParsedDeletion | null {
+  const match = content.match(DELETED_STUB);
+  if (!match) return null;
+
+  const dates = [...(match[1] ?? '').matchAll(/(\d{4})\.\s*(\d{1,2})\.\s*(\d{1,2})\./g)]
+    .map(([, y, m, d]) => `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`)
+    .sort();
+  return { deleted_date: dates.pop() ?? null };
+}
+
+/** Act type of the amendments of a document, as cited: 법률 제16930호 */
+const ACT_TYPE: Record<string, string> = {
+  statute: '법률',
+  presidential_decree: '대통령령',
+};
+
+/**
+ * Amending acts of a document by promulgation date, from its revisions and
+ * the promulgation numbers of its addenda.
+ */
+export function amendingActs(
+  documentType: string,
+  amendments: Array<{ promulgation_number: string | null; promulgation_date: string | null }>,
+): AmendingActs {
+  const prefix = ACT_TYPE[documentType];
+  const acts: AmendingActs = new Map();
+  for (const { promulgation_number, promulgation_date } of amendments) {
+    if (!promulgation_number || !promulgation_date || acts.has(promulgation_date)) continue;
+    acts.set(promulgation_date, `${prefix ? `${prefix} ` : ''}제${promulgation_number}호`);
+  }
+  return acts;
+}
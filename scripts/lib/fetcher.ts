@@ -138,6 +138,28 @@ export async function fetchLawDetail(lawId: string): Promise<FetchResult> {
   return fetchWithRateLimit(url);
 }
 
+/**
+ * Fetch the revision history (연혁) of a law from law.go.kr API.
+ * Uses the enforcement-date listing (eflaw), which returns every past,
+ * current and scheduled version of the law with its own MST serial number.
+ * The query is a title search, so callers must filter entries by exact title.
+ */
+export async function fetchLawHistory(lawName: string, page = 1): Promise<FetchResult> {
+  const apiKey = process.env.KOREA_LAW_API_KEY ?? '';
+  const baseUrl = 'https://www.law.go.kr/DRF/lawSearch.do';
+  const params = new URLSearchParams({
+    OC: apiKey,
+    target: 'eflaw',
+    type: 'XML',
+    display: '100',
+    page: String(page),
+    query: lawName,
+  });
+
+  const url = `${baseUrl}?${params.toString()}`;
+  return fetchWithRateLimit(url);
+}
+
 /**
  * Fetch English translation from KLRI (elaw.klri.re.kr).
  * HTML scraping - no API available.
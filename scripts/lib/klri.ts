@@ -0,0 +1,206 @@
+/**
+ * Parser for English translations from the Korea Legislation Research
+ * Institute (elaw.klri.re.kr).
+ *
+ * KLRI has no API; its law pages are HTML. The text is reduced to lines and
+ * split at article headings:
+ *
+ *   PERSONAL INFORMATION PROTECTION ACT
+ *   [Enforcement Date 15. Sep, 2023.] [Act No. 19234, 14. Mar, 2023., Partial Amendment]
+ *   CHAPTER I GENERAL PROVISIONS
+ *   Article 1 (Purpose) The purpose of this Act is ...
+ *   Article 28-8 (Transfer of Personal Information Abroad) (1) ...
+ *   ADDENDA <Act No. 19234, Mar. 14, 2023>
+ *
+ * Article numbers map onto provision refs the same way as the Korean text
+ * (Article 28-8 = 제28조의8 = art-28-8). A translation is of one version of
+ * the law, identified by its Act number and promulgation date, so it goes
+ * stale when the Korean article is amended afterwards.
+ */
+
+export interface KlriSearchResult {
+  /** KLRI law serial (hseq) */
+  klri_id: string;
+  title: string;
+}
+
+export interface ParsedTranslationArticle {
+  provision_ref: string;
+  /** "Article 28-8" */
+  section: string;
+  title: string;
+  text: string;
+}
+
+export interface ParsedTranslation {
+  source: 'KLRI';
+  klri_id: string;
+  title: string;
+  /** Act/Decree number of the translated version, e.g. "19234" */
+  law_number: string | null;
+  /** Promulgation date of the translated version (YYYY-MM-DD) */
+  promulgation_date: string | null;
+  enforcement_date: string | null;
+  url: string;
+  articles: ParsedTranslationArticle[];
+}
+
+/** "Article 28-8 (Title) ..." or "Article 8 Deleted." — not a sentence opening with "Article 15 ..." */
+const ARTICLE_HEADING = /^Article\s+(\d+)(?:-(\d+))?\s*(?:\(([^)]*)\)|(?=Deleted\b))/;
+const STRUCTURE_HEADING = /^(?:PART|CHAPTER|SECTION|SUB-SECTION)\s+[IVXLCDM\d]+\b/;
+const ADDENDA_HEADING = /^(?:ADDENDA|ADDENDUM)\b/i;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+/**
+ * Candidate laws from a KLRI search result page. Links carry the law serial
+ * either as a query parameter (lawView.do?hseq=62389) or as a script call
+ * argument (lawView('62389')).
+ */
+export function parseKlriSearchResults(html: string): KlriSearchResult[] {
+  const results: KlriSearchResult[] = [];
+  const seen = new Set<string>();
+  const anchor = /<a\b[^>]*?(?:hseq=(\d+)|\(\s*'(\d+)'[^)]*\))[^>]*>([\s\S]*?)<\/a>/gi;
+
+  for (const match of html.matchAll(anchor)) {
+    const klriId = match[1] ?? match[2];
+    const title = decodeEntities(match[3].replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+    if (!klriId || !title || seen.has(klriId)) continue;
+    seen.add(klriId);
+    results.push({ klri_id: klriId, title });
+  }
+
+  return results;
+}
+
+/**
+ * Pick the search result for a law: exact English title first, then exact
+ * Korean title, then the only result. Returns undefined when ambiguous.
+ */
+export function pickKlriResult(
+  results: KlriSearchResult[],
+  law: { title: string; title_en?: string },
+): KlriSearchResult | undefined {
+  const key = (value: string) => value.toLowerCase().replace(/[^a-z0-9가-힣]/g, '');
+  if (law.title_en) {
+    const english = results.find(r => key(r.title) === key(law.title_en!));
+    if (english) return english;
+  }
+  const korean = results.find(r => key(r.title) === key(law.title));
+  if (korean) return korean;
+  return results.length === 1 ? results[0] : undefined;
+}
+
+/** Parse a KLRI law page into per-article English text. */
+export function parseKlriLaw(html: string, klriId: string): ParsedTranslation {
+  const lines = htmlToLines(html);
+
+  const versionLine = lines.find(l => /\[(?:Act|Presidential Decree|[A-Z][\w\s]*Ordinance|[A-Z][\w\s]*Rule)\s+No\./.test(l)) ?? '';
+  const enforcementLine = lines.find(l => /\[Enforcement Date/i.test(l)) ?? '';
+  const version = versionLine.match(/No\.\s*([\d-]+),\s*([^\]]*?\d{4})/);
+  const enforcement = enforcementLine.match(/Enforcement Date\s*:?\s*([^\]]*\d{4})/i);
+
+  const articles: ParsedTranslationArticle[] = [];
+  let title = '';
+  const seen = new Set<string>();
+
+  for (const line of lines) {
+    if (ADDENDA_HEADING.test(line)) break;
+
+    const heading = line.match(ARTICLE_HEADING);
+    if (heading) {
+      const [, number, branch, articleTitle] = heading;
+      const ref = branch ? `art-${number}-${branch}` : `art-${number}`;
+      if (seen.has(ref)) continue;
+      seen.add(ref);
+      articles.push({
+        provision_ref: ref,
+        section: `Article ${number}${branch ? `-${branch}` : ''}`,
+        title: (articleTitle ?? '').trim(),
+        text: line,
+      });
+      continue;
+    }
+
+    if (articles.length === 0) {
+      // The law title is the first line before the version stamps
+      if (!title && !line.startsWith('[') && /[A-Z]/.test(line)) title = line;
+      continue;
+    }
+
+    if (STRUCTURE_HEADING.test(line)) continue;
+    const last = articles[articles.length - 1];
+    last.text = `${last.text} ${line}`;
+  }
+
+  return {
+    source: 'KLRI',
+    klri_id: klriId,
+    title,
+    law_number: version ? version[1].replace(/,/g, '') : null,
+    promulgation_date: version ? parseEnglishDate(version[2]) : null,
+    enforcement_date: enforcement ? parseEnglishDate(enforcement[1]) : null,
+    url: `https://elaw.klri.re.kr/eng_service/lawView.do?hseq=${klriId}&lang=ENG`,
+    articles,
+  };
+}
+
+/**
+ * Latest promulgation date in the amendment notes of a Korean article:
+ * "<개정 2015. 7. 24., 2023. 3. 14.>", "[본조신설 2020. 2. 4.]", "[전문개정 ...]".
+ */
+export function lastAmendmentDate(content: string): string | null {
+  let latest: string | null = null;
+  for (const [note] of content.matchAll(/[<[][^<>[\]]*(?:개정|신설)[^<>[\]]*[>\]]/g)) {
+    for (const [, y, m, d] of note.matchAll(/(\d{4})\.\s*(\d{1,2})\.\s*(\d{1,2})\./g)) {
+      const date = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+      if (!latest || date > latest) latest = date;
+    }
+  }
+  return latest;
+}
+
+/** "15. Sep, 2023", "Sep. 15, 2023", "2023. 9. 15." → 2023-09-15 */
+export function parseEnglishDate(value: string): string | null {
+  const text = value.trim();
+
+  const numeric = text.match(/(\d{4})\.\s*(\d{1,2})\.\s*(\d{1,2})/);
+  if (numeric) return `${numeric[1]}-${numeric[2].padStart(2, '0')}-${numeric[3].padStart(2, '0')}`;
+
+  const dayFirst = text.match(/(\d{1,2})\.?\s+([A-Za-z]{3})[a-z]*\.?,?\s+(\d{4})/);
+  const monthFirst = text.match(/([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})/);
+  const parts = dayFirst
+    ? { day: dayFirst[1], month: dayFirst[2], year: dayFirst[3] }
+    : monthFirst ? { day: monthFirst[2], month: monthFirst[1], year: monthFirst[3] } : undefined;
+  const monthNumber = parts ? MONTHS[parts.month.toLowerCase()] : undefined;
+  if (!parts || !monthNumber) return null;
+  const { day, year } = parts;
+
+  return `${year}-${String(monthNumber).padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function htmlToLines(html: string): string[] {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/(?:p|div|li|tr|h\d|dd|dt)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
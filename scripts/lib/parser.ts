@@ -12,10 +12,15 @@
  *   - Articles: 제N조 (e.g., 제1조, 제15조)
  *   - Bis articles: 제N조의M (e.g., 제15조의2)
  *   - Paragraphs: ①, ②, ③ (circled numbers)
- *   - Items: 1., 2., 3. (Arabic with period)
+ *   - Items: 1., 2., 3. (Arabic with period), bis items 1의2.
+ *   - Sub-items: 가., 나., 다. (Hangul syllables with period)
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import type { ParsedProvisionVersion, ParsedRevision } from './versions.js';
+import { extractCommencements, parseAddendum, type ParsedCommencement } from './addenda.js';
+import type { ParsedTranslation } from './klri.js';
+import { articleRef } from './references.js';
 
 const parser = new XMLParser({
   ignoreAttributes: false,
@@ -23,7 +28,7 @@ const parser = new XMLParser({
   textNodeName: '#text',
   isArray: (name) => {
     return [
-      '조문단위', '항', '호', '목',
+      '조문단위', '항', '호', '목', '부칙단위', '부칙내용',
       'entry', 'law',
     ].includes(name);
   },
@@ -42,6 +47,10 @@ export interface LawIndexEntry {
   promulgationDate: string;
   enforcementDate: string;
   lawType: string;
+  /** 제개정구분: 제정, 일부개정, 전부개정, 타법개정, ... */
+  revisionType: string;
+  /** 소관부처명; jointly administered laws list several, comma-separated */
+  ministry: string;
   url: string;
 }
 
@@ -73,6 +82,8 @@ export function parseLawList(xml: string): LawListResult {
     const promulgationDate = extractText(entry['공포일자'] ?? entry.promulgationDate) ?? '';
     const enforcementDate = extractText(entry['시행일자'] ?? entry.enforcementDate) ?? '';
     const lawType = extractText(entry['법령구분명'] ?? entry['법령종류'] ?? entry.lawType ?? '') ?? 'statute';
+    const revisionType = extractText(entry['제개정구분명'] ?? entry['제개정구분'] ?? '') ?? '';
+    const ministry = extractMinistry(entry['소관부처명'] ?? entry['소관부처']);
 
     if (!title) continue;
 
@@ -83,6 +94,8 @@ export function parseLawList(xml: string): LawListResult {
       promulgationDate,
       enforcementDate,
       lawType,
+      revisionType,
+      ministry,
       url: `https://www.law.go.kr/LSW/lsInfoP.do?lsiSeq=${lawId}`,
     });
   }
@@ -99,9 +112,47 @@ export function parseLawList(xml: string): LawListResult {
 
 export interface ParsedProvision {
   provision_ref: string;
+  /** 'addendum' for 부칙 articles (provision_ref "add-<공포번호>-art-N"); default 'article' */
+  kind?: 'article' | 'addendum';
+  /** Containing headings, outermost first: "제3장 개인정보의 처리 > 제1절 개인정보의 수집, 이용, 제공 등" */
+  chapter?: string;
+  /** Innermost containing heading, e.g. "ch-3/sec-1" */
+  heading_ref?: string;
   section: string;
   title: string;
   content: string;
+  units?: ParsedProvisionUnit[];
+  /** Addenda: promulgation number and date of the amendment they belong to */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A 편/장/절/관 heading. heading_ref is the path of normalised numbers from
+ * the outermost heading down ("pt-2/ch-4", "ch-3/sec-1", "ch-3-2" for
+ * 제3장의2), since chapter numbers restart in every 편 of a code.
+ */
+export interface ParsedHeading {
+  heading_ref: string;
+  parent_ref: string | null;
+  level: HeadingLevel;
+  label: string;
+  title: string;
+}
+
+export type HeadingLevel = 'part' | 'chapter' | 'section' | 'subsection';
+
+/**
+ * One node of the 항/호/목 tree of an article, in document order.
+ * Numbers are normalised for lookup: ① → "1", 1의2. → "1-2", 가. → "가".
+ * The paragraph number is null for items of articles without numbered paragraphs.
+ */
+export interface ParsedProvisionUnit {
+  unit_type: 'paragraph' | 'item' | 'sub_item';
+  paragraph: string | null;
+  item: string | null;
+  sub_item: string | null;
+  label: string;
+  content: string;
 }
 
 export interface ParsedLaw {
@@ -111,11 +162,21 @@ export interface ParsedLaw {
   title_en: string;
   short_name: string;
   law_number: string;
+  /** 제개정구분 of this version: 제정, 일부개정, 전부개정, 타법개정, ... */
+  revision_type?: string;
+  /** 소관부처: ministry or commission in charge, comma-separated when jointly administered */
+  ministry?: string;
   status: 'in_force' | 'amended' | 'repealed';
   issued_date: string;
   in_force_date: string;
   url: string;
   provisions: ParsedProvision[];
+  headings?: ParsedHeading[];
+  commencements?: ParsedCommencement[];
+  provision_versions?: ParsedProvisionVersion[];
+  revisions?: ParsedRevision[];
+  /** English translation from KLRI (`ingest --english`) */
+  translation?: ParsedTranslation;
 }
 
 /**
@@ -131,12 +192,21 @@ export interface ParsedLaw {
  *     <조문>
  *       <조문단위 조문키="...">
  *         <조문번호>1</조문번호>
- *         <조문여부>조문</조문여부>  (조문=article, 전문=section header)
+ *         <조문가지번호>2</조문가지번호>  (branch article: 제1조의2; absent otherwise)
+ *         <조문여부>조문</조문여부>  (조문=article, 전문=편/장/절/관 heading)
  *         <조문제목>...</조문제목>
  *         <조문내용>...</조문내용>
  *         <항><항내용>...</항내용></항>
  *       </조문단위>
  *     </조문>
+ *     <부칙>
+ *       <부칙단위 부칙키="...">
+ *         <부칙공포일자>20230314</부칙공포일자>
+ *         <부칙공포번호>19234</부칙공포번호>
+ *         <부칙내용>부칙 &lt;제19234호, 2023. 3. 14.&gt;</부칙내용>
+ *         <부칙내용>제1조(시행일) ...</부칙내용>
+ *       </부칙단위>
+ *     </부칙>
  *   </법령>
  */
 export function parseLawXml(xml: string, lawId: string): ParsedLaw {
@@ -154,11 +224,16 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
   const enforcementDate = extractText(info['시행일자'] ?? root['시행일자']) ?? '';
   const lawTypeNode = info['법종구분'] ?? root['법종구분'] ?? {};
   const lawType = extractText(lawTypeNode) ?? '';
+  const revisionType = extractText(info['제개정구분'] ?? info['제개정구분명'] ?? root['제개정구분']) ?? '';
+  const ministry = extractMinistry(info['소관부처'] ?? root['소관부처']);
 
   const type = inferDocumentType(lawType);
   const shortName = buildShortName(title);
 
   const provisions: ParsedProvision[] = [];
+  const headings: ParsedHeading[] = [];
+  // Headings enclosing the current article, outermost first
+  let openHeadings: ParsedHeading[] = [];
 
   // Articles are nested under 조문 > 조문단위
   const joMun = root['조문'];
@@ -168,9 +243,20 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
   for (const article of articleList) {
     if (!article) continue;
 
-    // Skip section/chapter headers (전문) — only parse actual articles (조문)
+    // 전문 rows are 편/장/절/관 headings; they apply to every article until
+    // the next heading of the same or a higher level
     const articleType = extractText(article['조문여부']) ?? '';
-    if (articleType === '전문') continue;
+    if (articleType === '전문') {
+      const heading = parseHeading(extractText(article['조문내용']) ?? '', openHeadings);
+      if (heading) {
+        openHeadings = [
+          ...openHeadings.filter(h => HEADING_LEVELS.indexOf(h.level) < HEADING_LEVELS.indexOf(heading.level)),
+          heading,
+        ];
+        headings.push(heading);
+      }
+      continue;
+    }
 
     const articleNumber = extractText(article['조문번호'] ?? article.articleNumber) ?? '';
     const articleTitle = extractText(article['조문제목'] ?? article.articleTitle) ?? '';
@@ -178,10 +264,14 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
 
     if (!articleNumber && !articleContent) continue;
 
-    const cleanNumber = articleNumber.replace(/[제조]/g, '').trim();
-    const provisionRef = `art-${cleanNumber}`;
+    // 제15조의2 comes as 조문번호 15 with 조문가지번호 2; some responses inline it as "15의2"
+    const [number, inlineBranch] = articleNumber.replace(/[제조\s]/g, '').split(/의|-/);
+    const branch = extractText(article['조문가지번호']) || inlineBranch || undefined;
+    const provisionRef = articleRef(number, branch);
+    const section = `제${number}조${branch ? `의${branch}` : ''}`;
 
     let fullContent = articleContent;
+    const units: ParsedProvisionUnit[] = [];
 
     // Parse paragraphs (항)
     const paragraphs = article['항'] ?? [];
@@ -189,9 +279,21 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
 
     for (const para of paraList) {
       if (!para) continue;
-      const paraContent = extractText(para['항내용'] ?? para.paragraphContent ?? para) ?? '';
+      // Items of articles without numbered paragraphs sit in an unnumbered 항 wrapper
+      const hasParaContent = typeof para !== 'object' || '항내용' in para || 'paragraphContent' in para;
+      const paraContent = hasParaContent ? extractText(para['항내용'] ?? para.paragraphContent ?? para) ?? '' : '';
+      const paraLabel = leadingLabel(paraContent, PARAGRAPH_LABEL) ?? extractText(para['항번호']);
+      const paraNumber = paraLabel ? paragraphNumber(paraLabel) : null;
       if (paraContent.trim()) {
         fullContent += '\n' + paraContent;
+        units.push({
+          unit_type: 'paragraph',
+          paragraph: paraNumber,
+          item: null,
+          sub_item: null,
+          label: paraLabel ?? '',
+          content: normalizeWhitespace(paraContent),
+        });
       }
 
       // Parse items (호)
@@ -200,8 +302,18 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
       for (const item of itemList) {
         if (!item) continue;
         const itemContent = extractText(item['호내용'] ?? item.itemContent ?? item) ?? '';
+        const itemLabel = leadingLabel(itemContent, ITEM_LABEL) ?? extractText(item['호번호']);
+        const itemNumber = itemLabel ? itemNumberOf(itemLabel) : null;
         if (itemContent.trim()) {
           fullContent += '\n  ' + itemContent;
+          units.push({
+            unit_type: 'item',
+            paragraph: paraNumber,
+            item: itemNumber,
+            sub_item: null,
+            label: itemLabel ?? '',
+            content: normalizeWhitespace(itemContent),
+          });
         }
 
         // Parse sub-items (목)
@@ -210,23 +322,62 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
         for (const sub of subList) {
           if (!sub) continue;
           const subContent = extractText(sub['목내용'] ?? sub) ?? '';
+          const subLabel = leadingLabel(subContent, SUB_ITEM_LABEL) ?? extractText(sub['목번호']);
           if (subContent.trim()) {
             fullContent += '\n    ' + subContent;
+            units.push({
+              unit_type: 'sub_item',
+              paragraph: paraNumber,
+              item: itemNumber,
+              sub_item: subLabel ? subLabel.replace(/[.\s]/g, '') : null,
+              label: subLabel ?? '',
+              content: normalizeWhitespace(subContent),
+            });
           }
         }
       }
     }
 
     if (fullContent.trim()) {
+      const innermost = openHeadings[openHeadings.length - 1];
       provisions.push({
         provision_ref: provisionRef,
-        section: `제${cleanNumber}조`,
+        ...(innermost ? {
+          chapter: openHeadings.map(h => `${h.label} ${h.title}`.trim()).join(' > '),
+          heading_ref: innermost.heading_ref,
+        } : {}),
+        section,
         title: articleTitle,
         content: fullContent.replace(/\s+/g, ' ').trim(),
+        ...(units.length > 0 ? { units } : {}),
       });
     }
   }
 
+  // Addenda (부칙), one 부칙단위 per amendment
+  const commencements: ParsedCommencement[] = [];
+  const addendumUnits = root['부칙']?.['부칙단위'] ?? [];
+  const addendumList = Array.isArray(addendumUnits) ? addendumUnits : [addendumUnits].filter(Boolean);
+  const addendumRefs = new Set<string>();
+
+  addendumList.forEach((unit, index) => {
+    if (!unit) return;
+    const contents = unit['부칙내용'] ?? [];
+    const text = (Array.isArray(contents) ? contents : [contents])
+      .map(c => extractText(c) ?? '')
+      .join('\n');
+    const addendumDate = extractText(unit['부칙공포일자']);
+
+    const addendumProvisions = parseAddendum({
+      promulgation_number: extractText(unit['부칙공포번호']) ?? null,
+      promulgation_date: addendumDate ? formatDate(addendumDate) : null,
+      text,
+    }, index, addendumRefs);
+
+    provisions.push(...addendumProvisions);
+    commencements.push(...extractCommencements(addendumProvisions));
+  });
+
   return {
     id: `act-${lawId}`,
     type,
@@ -234,11 +385,15 @@ export function parseLawXml(xml: string, lawId: string): ParsedLaw {
     title_en: titleEn,
     short_name: shortName,
     law_number: lawNumber,
+    ...(revisionType ? { revision_type: revisionType } : {}),
+    ...(ministry ? { ministry } : {}),
     status: 'in_force',
     issued_date: formatDate(promulgationDate),
     in_force_date: formatDate(enforcementDate),
     url: `https://www.law.go.kr/LSW/lsInfoP.do?lsiSeq=${lawId}`,
     provisions,
+    ...(headings.length > 0 ? { headings } : {}),
+    ...(commencements.length > 0 ? { commencements } : {}),
   };
 }
 
@@ -262,6 +417,79 @@ function extractText(node: unknown): string | undefined {
   return undefined;
 }
 
+/** 소관부처 element(s): <소관부처 소관부처코드="1741000">개인정보보호위원회</소관부처>, repeated when shared */
+function extractMinistry(node: unknown): string {
+  const nodes = Array.isArray(node) ? node : [node];
+  const names = nodes.map(n => extractText(n)?.trim()).filter((n): n is string => !!n);
+  return [...new Set(names)].join(', ');
+}
+
+const HEADING_LEVELS: HeadingLevel[] = ['part', 'chapter', 'section', 'subsection'];
+
+const HEADING_KINDS: Record<string, { level: HeadingLevel; prefix: string }> = {
+  편: { level: 'part', prefix: 'pt' },
+  장: { level: 'chapter', prefix: 'ch' },
+  절: { level: 'section', prefix: 'sec' },
+  관: { level: 'subsection', prefix: 'sub' },
+};
+
+/** "제3장의2 개인정보의 처리 <신설 2020. 2. 4.>" → label 제3장의2, title 개인정보의 처리 */
+const HEADING_TEXT = /^제(\d+)(편|장|절|관)(?:의(\d+))?\s*(.*)$/;
+
+/**
+ * Parse a 전문 row into a heading nested under the still-open headings of
+ * higher levels. Returns null for rows that are not 편/장/절/관 headings.
+ */
+function parseHeading(text: string, open: ParsedHeading[]): ParsedHeading | null {
+  const match = normalizeWhitespace(text).match(HEADING_TEXT);
+  if (!match) return null;
+
+  const [, number, kind, branch, rest] = match;
+  const { level, prefix } = HEADING_KINDS[kind];
+  const parent = open.filter(h => HEADING_LEVELS.indexOf(h.level) < HEADING_LEVELS.indexOf(level)).pop();
+  const segment = `${prefix}-${number}${branch ? `-${branch}` : ''}`;
+
+  return {
+    heading_ref: parent ? `${parent.heading_ref}/${segment}` : segment,
+    parent_ref: parent?.heading_ref ?? null,
+    level,
+    label: `제${number}${kind}${branch ? `의${branch}` : ''}`,
+    title: rest.replace(/<[^>]*>/g, '').trim(),
+  };
+}
+
+const PARAGRAPH_LABEL = /^\s*([\u2460-\u2473\u3251-\u325f\u32b1-\u32bf])/;
+const ITEM_LABEL = /^\s*(\d+(?:의\d+)?\.)/;
+const SUB_ITEM_LABEL = /^\s*([가-힣](?:의\d+)?\.)/;
+
+/**
+ * Printed label at the start of a 항/호/목 text. Preferred over the 항번호/호번호
+ * nodes, which fast-xml-parser coerces to numbers ("2." → 2).
+ */
+function leadingLabel(content: string, pattern: RegExp): string | undefined {
+  return content.match(pattern)?.[1];
+}
+
+/** Circled paragraph number to its Arabic value: ① → "1", ㉑ → "21", ㊱ → "36". */
+function paragraphNumber(label: string): string | null {
+  const code = label.trim().codePointAt(0) ?? 0;
+  if (code >= 0x2460 && code <= 0x2473) return String(code - 0x2460 + 1);
+  if (code >= 0x3251 && code <= 0x325f) return String(code - 0x3251 + 21);
+  if (code >= 0x32b1 && code <= 0x32bf) return String(code - 0x32b1 + 36);
+  return label.match(/\d+/)?.[0] ?? null;
+}
+
+/** Item label to its lookup number: "1." → "1", "1의2." → "1-2". */
+function itemNumberOf(label: string): string | null {
+  const match = label.match(/(\d+)(?:의(\d+))?/);
+  if (!match) return null;
+  return match[2] ? `${match[1]}-${match[2]}` : match[1];
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
 function inferDocumentType(lawType: string): 'statute' | 'presidential_decree' | 'ministerial_ordinance' {
   if (/대통령령/.test(lawType)) return 'presidential_decree';
   if (/부령|총리령/.test(lawType)) return 'ministerial_ordinance';
@@ -0,0 +1,202 @@
+/**
+ * Reference extraction for Korean legislation.
+ *
+ * Detects citations in provision text so build-db can populate the
+ * cross_references table. A citation is a chain of article pinpoints with an
+ * optional prefix naming the law:
+ *
+ *   제17조제1항에 따라                          → same document      (references)
+ *   이 법 제3조                                 → same document      (references)
+ *   「신용정보의 이용 및 보호에 관한 법률」 제32조 → other document    (references)
+ *   같은 법 제5조                               → last 「」 law cited (references)
+ *
+ * Delegation (법률 → 시행령 → 시행규칙): an Act delegates details with phrases
+ * like "대통령령으로 정하는 바에 따라", and the implementing article cites its
+ * parent back with the short forms used inside a law family:
+ *
+ *   법 제29조에 따라      (in a 시행령 or 시행규칙)  → Act article     (implements)
+ *   영 제30조제1항에 따른  (in a 시행규칙)          → Decree article  (implements)
+ */
+
+export type DocumentType = 'statute' | 'presidential_decree' | 'ministerial_ordinance';
+
+export interface ReferenceDocument {
+  id: string;
+  type: DocumentType;
+  title: string;
+}
+
+export interface ReferenceProvision {
+  document_id: string;
+  provision_ref: string;
+  content: string;
+}
+
+export interface ExtractedReference {
+  source_document_id: string;
+  source_provision_ref: string;
+  target_document_id: string;
+  target_provision_ref: string;
+  ref_type: 'references' | 'implements';
+  /** The citation as written, e.g. "법 제15조제3항" */
+  context: string;
+}
+
+const DECREE_SUFFIX = ' 시행령';
+const ORDINANCE_SUFFIX = ' 시행규칙';
+
+/** Ranges wider than this are drafting errors or misparses, not citations */
+const MAX_RANGE = 50;
+
+/** Article pinpoint: 제15조, 제15조의2, 제15조제3항제2호 */
+const PINPOINT = /제(\d+)조(?:의(\d+))?(?:제\d+항)?(?:제\d+호(?:의\d+)?)?/g;
+
+/**
+ * Prefix (group 1) and a chain of pinpoints that continue the enumeration
+ * without repeating the law (group 2): "법 제15조제3항 또는 제17조제4항",
+ * "제15조부터 제17조까지". The lookbehinds keep "보호법 제3조" from reading
+ * as "법 제3조", and an unbracketed law name ("헌법 제17조") from reading as
+ * a citation of the same document.
+ */
+const CITATION = new RegExp(
+  String.raw`(?:(「[^」]+」|같은\s*법(?:\s*시행령)?|이\s*(?:법|영|규칙)|(?<![가-힣」])(?:법|영|시행령))\s*|(?<![가-힣\d]|[법령률칙」]\s+))` +
+  String.raw`(${PINPOINT.source}(?:\s*(?:,|ㆍ|및|또는|와|과|부터)\s*${PINPOINT.source})*)`,
+  'g',
+);
+
+/** Article heading at the start of the content: 제15조(개인정보의 수집ㆍ이용) */
+const HEADING = /^\s*제\d+조(?:의\d+)?(?:\([^)]*\))?/;
+
+interface Target {
+  document: ReferenceDocument;
+  ref_type: ExtractedReference['ref_type'];
+}
+
+/**
+ * Find the Act and Enforcement Decree of a decree's or ordinance's law family.
+ * "개인정보 보호법 시행령" → Act "개인정보 보호법";
+ * "개인정보 보호법 시행규칙" → Act "개인정보 보호법", Decree "개인정보 보호법 시행령".
+ */
+export function lawFamily(
+  doc: ReferenceDocument,
+  docsByTitle: Map<string, ReferenceDocument>,
+): { act?: ReferenceDocument; decree?: ReferenceDocument } {
+  let base: string | null = null;
+  if (doc.title.endsWith(DECREE_SUFFIX)) base = doc.title.slice(0, -DECREE_SUFFIX.length);
+  if (doc.title.endsWith(ORDINANCE_SUFFIX)) base = doc.title.slice(0, -ORDINANCE_SUFFIX.length);
+  if (!base) return {};
+
+  return {
+    act: docsByTitle.get(base),
+    decree: doc.type === 'ministerial_ordinance' ? docsByTitle.get(base + DECREE_SUFFIX) : undefined,
+  };
+}
+
+/** "15", "2" → "art-15-2" — the provision_ref convention used across the database. */
+export function articleRef(article: string, branch?: string): string {
+  return branch ? `art-${article}-${branch}` : `art-${article}`;
+}
+
+/**
+ * Extract provision-level citations from every provision. Citations of laws
+ * that are not in the database cannot be stored (target_document_id is a
+ * foreign key) and are dropped.
+ */
+export function extractReferences(
+  documents: ReferenceDocument[],
+  provisions: ReferenceProvision[],
+): ExtractedReference[] {
+  const docsById = new Map(documents.map(d => [d.id, d]));
+  const docsByTitle = new Map(documents.map(d => [d.title, d]));
+  const links = new Map<string, ExtractedReference>();
+
+  for (const provision of provisions) {
+    const doc = docsById.get(provision.document_id);
+    if (!doc) continue;
+
+    const family = lawFamily(doc, docsByTitle);
+    const heading = provision.content.match(HEADING)?.[0] ?? '';
+    let lastCited: string | undefined;
+
+    for (const match of provision.content.slice(heading.length).matchAll(CITATION)) {
+      const prefix = match[1]?.replace(/\s+/g, ' ');
+      if (prefix?.startsWith('「')) lastCited = prefix.slice(1, -1).trim();
+
+      const target = resolveTarget(prefix, doc, family, docsByTitle, lastCited);
+      if (!target) continue;
+
+      for (const { ref, pinpoint } of expandChain(match[2])) {
+        if (target.document.id === doc.id && ref === provision.provision_ref) continue;
+
+        const key = `${provision.document_id}|${provision.provision_ref}|${target.document.id}|${ref}`;
+        if (links.has(key)) continue;
+
+        links.set(key, {
+          source_document_id: provision.document_id,
+          source_provision_ref: provision.provision_ref,
+          target_document_id: target.document.id,
+          target_provision_ref: ref,
+          ref_type: target.ref_type,
+          context: prefix ? `${prefix} ${pinpoint}` : pinpoint,
+        });
+      }
+    }
+  }
+
+  return [...links.values()];
+}
+
+function resolveTarget(
+  prefix: string | undefined,
+  doc: ReferenceDocument,
+  family: { act?: ReferenceDocument; decree?: ReferenceDocument },
+  docsByTitle: Map<string, ReferenceDocument>,
+  lastCited: string | undefined,
+): Target | undefined {
+  const references = (document: ReferenceDocument | undefined): Target | undefined =>
+    document ? { document, ref_type: 'references' } : undefined;
+  const implementsParent = (document: ReferenceDocument | undefined): Target | undefined =>
+    document && document.id !== doc.id ? { document, ref_type: 'implements' } : undefined;
+
+  if (!prefix || prefix.startsWith('이')) return references(doc);
+  if (prefix.startsWith('「')) return references(docsByTitle.get(prefix.slice(1, -1).trim()));
+
+  // "같은 법" refers back to the last 「」 law cited; without one, a decree or
+  // ordinance means its own Act
+  if (prefix.startsWith('같은')) {
+    const decree = prefix.endsWith('시행령');
+    if (lastCited) return references(docsByTitle.get(decree ? lastCited + DECREE_SUFFIX : lastCited));
+    return implementsParent(decree ? family.decree : family.act);
+  }
+
+  // Bare 법 / 영 / 시행령: an Act calls itself "이 법", so only subordinate
+  // legislation uses these short forms, for its parents
+  if (doc.type === 'statute') return undefined;
+  return implementsParent(prefix === '법' ? family.act : family.decree);
+}
+
+/**
+ * Split a pinpoint chain into article refs. "제15조부터 제17조까지" expands to
+ * articles 15, 16 and 17; branch articles (제15조의2) are not range endpoints.
+ */
+function expandChain(chain: string): Array<{ ref: string; pinpoint: string }> {
+  const articles: Array<{ ref: string; pinpoint: string }> = [];
+  let rangeStart: number | undefined;
+
+  for (const match of chain.matchAll(PINPOINT)) {
+    const [pinpoint, article, branch] = match;
+    const number = Number(article);
+
+    if (rangeStart !== undefined && !branch && number > rangeStart && number - rangeStart <= MAX_RANGE) {
+      for (let n = rangeStart + 1; n < number; n++) {
+        articles.push({ ref: articleRef(String(n)), pinpoint: `제${n}조` });
+      }
+    }
+    articles.push({ ref: articleRef(article, branch), pinpoint });
+
+    const rest = chain.slice((match.index ?? 0) + pinpoint.length);
+    rangeStart = !branch && /^\s*부터/.test(rest) ? number : undefined;
+  }
+
+  return articles;
+}
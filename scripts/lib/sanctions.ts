@@ -0,0 +1,238 @@
+/**
+ * Sanction extraction for Korean legislation.
+ *
+ * Penalties sit in dedicated articles, usually in a 벌칙 chapter, and point
+ * back at the duty articles whose violation they punish:
+ *
+ *   제71조(벌칙) 다음 각 호의 어느 하나에 해당하는 자는 5년 이하의 징역 또는
+ *     5천만원 이하의 벌금에 처한다.                               (criminal)
+ *     1. 제17조제1항제2호에 해당하지 아니함에도 ... 제공한 자
+ *   제75조(과태료) ② 다음 각 호의 어느 하나에 해당하는 자에게는 3천만원 이하의
+ *     과태료를 부과한다.                                          (administrative_fine)
+ *     6. 제29조를 위반하여 안전성 확보에 필요한 조치를 하지 아니한 자
+ *   제64조의2(과징금의 부과) ① ... 전체 매출액의 100분의 3을 초과하지 아니하는
+ *     범위에서 과징금을 부과할 수 있다.                          (penalty_surcharge)
+ *
+ * The penalty is stated once per paragraph and applies to each of its items;
+ * every item (or a paragraph without items) names the conduct and, through
+ * the article it cites, the duty violated. 양벌규정 and 공무원 의제 articles
+ * extend existing penalties and are not sanctions of their own.
+ */
+
+import type { ParsedProvisionUnit } from './parser.js';
+import { articleRef } from './references.js';
+
+export type SanctionType = 'criminal' | 'administrative_fine' | 'penalty_surcharge';
+
+export interface ParsedSanction {
+  paragraph: string | null;
+  item: string | null;
+  sanction_type: SanctionType;
+  /** The penalty as written, e.g. "5년 이하의 징역 또는 5천만원 이하의 벌금" */
+  penalty: string;
+  max_imprisonment_years: number | null;
+  max_fine_krw: number | null;
+  /** Cap stated as a share of turnover, e.g. "전체 매출액의 100분의 3" */
+  revenue_share: string | null;
+  /** Article whose violation is punished (same document), e.g. "art-28-8" */
+  violated_provision_ref: string | null;
+  /** The violated pinpoint as cited, e.g. "제28조의8제1항" */
+  violated_citation: string | null;
+  /** Text of the item or paragraph describing the punished conduct */
+  conduct: string;
+}
+
+interface SanctionSource {
+  title?: string;
+  content: string;
+  units?: ParsedProvisionUnit[];
+}
+
+const SANCTION_TITLE = /벌칙|과태료|과징금/;
+const NOT_A_SANCTION_TITLE = /양벌|의제|적용|부과기준|징수|납부/;
+
+const PENALTIES: Array<{ type: SanctionType; pattern: RegExp }> = [
+  { type: 'criminal', pattern: /([^.]*?(?:징역|금고|벌금)[^.]*?)에\s*처한다/ },
+  { type: 'administrative_fine', pattern: /([^\s.]+\s*이하의\s*과태료)를\s*부과한다/ },
+  { type: 'penalty_surcharge', pattern: /([^.]*?(?:매출액|금액|원)[^.]*?)(?:을|를)?\s*(?:초과하지\s*아니하는\s*범위에서\s*과징금을|과징금으로)\s*부과할\s*수\s*있다/ },
+];
+
+/** Start of the penalty clause within a sentence: "…자는 ", "…자에게는 ", "…경우에는 " */
+const PENALTY_LEAD = /^.*(?:자는|자에게는|경우에는|때에는|범위에서)\s+/;
+
+// A pinpoint, or one relative to the previous pinpoint: 같은 조 제2항, 같은 항 제1호
+const PINPOINT = /제(\d+)조(?:의(\d+))?(?:제(\d+)항)?(?:제(\d+)호(?:의(\d+))?)?|같은\s*(조|항)(?:\s*제(\d+)(항|호)(?:의(\d+))?)?(?:\s*제(\d+)호(?:의(\d+))?)?/g;
+
+/** Citations that qualify the conduct rather than name the breached duty */
+const CONTEXT_AFTER = /^\s*에\s*(?:해당하지\s*아니함에도|따른)/;
+
+const KRW_UNITS: Record<string, number> = { 억: 1e8, 천만: 1e7, 백만: 1e6, 십만: 1e5, 만: 1e4, 천: 1e3 };
+
+/** Is this a sanction article? 벌칙, 과태료, 과징금 — not 양벌규정 or 벌칙 적용에서 공무원 의제 */
+export function isSanctionArticle(provision: SanctionSource): boolean {
+  const title = provision.title ?? '';
+  return SANCTION_TITLE.test(title) && !NOT_A_SANCTION_TITLE.test(title);
+}
+
+/** "1억5천만원" → 150000000, "5천만원" → 50000000, "500만원" → 5000000 */
+export function parseKrwAmount(text: string): number | null {
+  const match = text.match(/((?:[\d,]+\s*(?:억|천만|백만|십만|만|천)?\s*)+)원/);
+  if (!match) return null;
+
+  let total = 0;
+  for (const [, digits, unit] of match[1].matchAll(/([\d,]+)\s*(억|천만|백만|십만|만|천)?/g)) {
+    total += Number(digits.replace(/,/g, '')) * (unit ? KRW_UNITS[unit] : 1);
+  }
+  return total || null;
+}
+
+/**
+ * Extract the sanctions of a sanction article: one row per punished conduct
+ * and violated article. Returns an empty list for any other article.
+ */
+export function extractSanctions(provision: SanctionSource): ParsedSanction[] {
+  if (!isSanctionArticle(provision)) return [];
+
+  const units = provision.units ?? [];
+  const paragraphs = units.filter(u => u.unit_type === 'paragraph');
+  // Articles without numbered paragraphs state the penalty in their own text
+  const penaltySources = paragraphs.length > 0
+    ? paragraphs.map(p => ({ paragraph: p.paragraph, content: p.content.replace(/^\s*[①-⑳]\s*/, '') }))
+    : [{ paragraph: null, content: provision.content.replace(/^\s*제\d+조(?:의\d+)?(?:\([^)]*\))?\s*/, '') }];
+
+  const sanctions: ParsedSanction[] = [];
+
+  for (const source of penaltySources) {
+    const penalty = findPenalty(source.content);
+    if (!penalty) continue;
+
+    const items = units.filter(u => u.unit_type === 'item' && u.paragraph === source.paragraph);
+    const conducts = items.length > 0
+      ? items.map(i => ({ item: i.item, content: i.content.replace(/^\s*\d+(?:의\d+)?\.\s*/, '') }))
+      : [{ item: null, content: source.content }];
+
+    for (const conduct of conducts) {
+      const violated = violatedArticles(items.length > 0 ? conduct.content : conduct.content.slice(0, penalty.index));
+      const targets = violated.length > 0 ? violated : [null];
+
+      for (const target of targets) {
+        sanctions.push({
+          paragraph: source.paragraph,
+          item: conduct.item,
+          sanction_type: penalty.type,
+          penalty: penalty.text,
+          max_imprisonment_years: penalty.years,
+          max_fine_krw: penalty.krw,
+          revenue_share: penalty.share,
+          violated_provision_ref: target?.ref ?? null,
+          violated_citation: target?.citation ?? null,
+          conduct: conduct.content.trim(),
+        });
+      }
+    }
+  }
+
+  return sanctions;
+}
+
+interface Penalty {
+  type: SanctionType;
+  text: string;
+  /** Offset of the penalty clause, so conduct text before it can be told apart */
+  index: number;
+  years: number | null;
+  krw: number | null;
+  share: string | null;
+}
+
+function findPenalty(text: string): Penalty | null {
+  for (const { type, pattern } of PENALTIES) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const clause = match[1].replace(PENALTY_LEAD, '').trim();
+    const years = clause.match(/(\d+)년\s*이하의\s*(?:징역|금고)/);
+    const share = clause.match(/(?:전체\s*|연평균\s*)?매출액의\s*100분의\s*\d+/);
+    return {
+      type,
+      text: clause,
+      index: (match.index ?? 0) + match[0].indexOf(clause),
+      years: years ? Number(years[1]) : null,
+      krw: parseKrwAmount(clause),
+      share: share ? share[0].replace(/\s+/g, ' ') : null,
+    };
+  }
+  return null;
+}
+
+interface Pinpoint {
+  article: string;
+  branch?: string;
+  paragraph?: string;
+  item?: string;
+  /** Article of another law (「…」 제N조) */
+  external: boolean;
+}
+
+/** "제17조제1항제1호" from its parts */
+function pinpointCitation(p: Pinpoint): string {
+  return `제${p.article}조${p.branch ? `의${p.branch}` : ''}` +
+    (p.paragraph ? `제${p.paragraph}항` : '') +
+    (p.item ? `제${p.item}호` : '');
+}
+
+/**
+ * Resolve a PINPOINT match; 같은 조 / 같은 항 refer to the previous pinpoint.
+ * Returns null for a relative pinpoint with nothing before it.
+ */
+function resolvePinpoint(match: RegExpMatchArray, previous: Pinpoint | null, external: boolean): Pinpoint | null {
+  const [, article, branch, paragraph, item, itemBranch, same, number, level, numberBranch, trailingItem, trailingBranch] = match;
+  const withBranch = (n?: string, b?: string) => (n ? (b ? `${n}의${b}` : n) : undefined);
+  if (article) {
+    return { article, branch, paragraph, item: withBranch(item, itemBranch), external };
+  }
+  if (!previous) return null;
+  const base: Pinpoint = { article: previous.article, branch: previous.branch, external: previous.external };
+  if (same === '항') {
+    // 같은 항 제1호
+    return { ...base, paragraph: previous.paragraph, item: level === '호' ? withBranch(number, numberBranch) : undefined };
+  }
+  // 같은 조, 같은 조 제2항, 같은 조 제2항제1호, 같은 조 제3호
+  return level === '항'
+    ? { ...base, paragraph: number, item: withBranch(trailingItem, trailingBranch) }
+    : { ...base, item: level === '호' ? withBranch(number, numberBranch) : undefined };
+}
+
+/**
+ * Articles cited as violated. Conduct is drafted as "제29조를 위반하여 ...", so
+ * citations before the first 위반 are the violated duties; a later citation
+ * ("제17조제1항에 따른 동의") is context. Without 위반 every citation counts.
+ * A citation qualified by "에 해당하지 아니함에도" or "에 따른" is context
+ * too, and only counts when the conduct neither says 위반 nor cites anything
+ * else: in "제17조제1항제2호에 해당하지 아니함에도 같은 항 제1호를 위반하여"
+ * the duty is 제17조제1항제1호.
+ * Citations of other laws (「…」 제N조) are skipped.
+ */
+function violatedArticles(conduct: string): Array<{ ref: string; citation: string }> {
+  const breach = conduct.indexOf('위반');
+  const scope = breach >= 0 ? conduct.slice(0, breach) : conduct;
+  const duties = new Map<string, string>();
+  const context = new Map<string, string>();
+  let previous: Pinpoint | null = null;
+
+  for (const match of scope.matchAll(PINPOINT)) {
+    const index = match.index ?? 0;
+    const external = /「[^」]*」\s*$/.test(scope.slice(0, index));
+    const pinpoint = resolvePinpoint(match, previous, external);
+    if (!pinpoint) continue;
+    previous = pinpoint;
+    if (pinpoint.external) continue;
+
+    const ref = articleRef(pinpoint.article, pinpoint.branch);
+    const found = CONTEXT_AFTER.test(scope.slice(index + match[0].length)) ? context : duties;
+    if (!found.has(ref)) found.set(ref, pinpointCitation(pinpoint));
+  }
+  // With 위반 the breached duty is named; without it the qualifying citation is all there is
+  const violated = duties.size > 0 || breach >= 0 ? duties : context;
+  return [...violated].map(([ref, citation]) => ({ ref, citation }));
+}
@@ -0,0 +1,350 @@
+/**
+ * SQLite schema of the South Korea Law database.
+ *
+ * Written by build-db; kept in its own module so the schema can be created
+ * without running a build (tests open an in-memory database with it).
+ */
+
+export const SCHEMA = `
+-- Legal documents (statutes, presidential decrees, ministerial ordinances)
+CREATE TABLE legal_documents (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK(type IN ('statute', 'presidential_decree', 'ministerial_ordinance')),
+  title TEXT NOT NULL,
+  title_en TEXT,
+  short_name TEXT,
+  law_number TEXT,
+  -- 소관부처 (ministry in charge); comma-separated when jointly administered
+  ministry TEXT,
+  status TEXT NOT NULL DEFAULT 'in_force'
+    CHECK(status IN ('in_force', 'amended', 'repealed', 'not_yet_in_force')),
+  issued_date TEXT,
+  in_force_date TEXT,
+  url TEXT,
+  description TEXT,
+  language TEXT DEFAULT 'ko',
+  last_updated TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_documents_law_number ON legal_documents(law_number);
+
+-- Individual provisions from statutes
+CREATE TABLE legal_provisions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'article' CHECK(kind IN ('article', 'addendum')),
+  chapter TEXT,
+  heading_ref TEXT,
+  section TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  content_en TEXT,
+  -- content with particles and predicate endings stripped (개인정보를 → 개인정보), search only
+  content_norm TEXT,
+  language TEXT DEFAULT 'ko',
+  metadata TEXT,
+  valid_from TEXT,
+  valid_to TEXT,
+  -- Deleted-article stub ("제39조의3 삭제 <2020. 2. 4.>"): promulgation date and number of the deleting act
+  deleted INTEGER NOT NULL DEFAULT 0,
+  deleted_date TEXT,
+  deleted_by TEXT,
+  UNIQUE(document_id, provision_ref)
+);
+
+CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
+CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
+CREATE INDEX idx_provisions_heading ON legal_provisions(document_id, heading_ref);
+
+-- 편/장/절/관 outline. heading_ref is the path from the outermost heading
+-- (pt-2/ch-4, ch-3/sec-1); legal_provisions.heading_ref names the innermost
+-- heading containing each article.
+CREATE TABLE headings (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  heading_ref TEXT NOT NULL,
+  parent_ref TEXT,
+  level TEXT NOT NULL CHECK(level IN ('part', 'chapter', 'section', 'subsection')),
+  label TEXT NOT NULL,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  UNIQUE(document_id, heading_ref)
+);
+
+-- FTS5 for provision search (Korean + English content). content_norm lets
+-- "개인정보 처리" match "개인정보를 처리하는"; snippets come from content.
+CREATE VIRTUAL TABLE provisions_fts USING fts5(
+  content, title, content_en, content_norm,
+  content='legal_provisions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
+  INSERT INTO provisions_fts(rowid, content, title, content_en, content_norm)
+  VALUES (new.id, new.content, new.title, COALESCE(new.content_en, ''), COALESCE(new.content_norm, ''));
+END;
+
+CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, content_en, content_norm)
+  VALUES ('delete', old.id, old.content, old.title, COALESCE(old.content_en, ''), COALESCE(old.content_norm, ''));
+END;
+
+CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, content_en, content_norm)
+  VALUES ('delete', old.id, old.content, old.title, COALESCE(old.content_en, ''), COALESCE(old.content_norm, ''));
+  INSERT INTO provisions_fts(rowid, content, title, content_en, content_norm)
+  VALUES (new.id, new.content, new.title, COALESCE(new.content_en, ''), COALESCE(new.content_norm, ''));
+END;
+
+-- Paragraph (항) / item (호) / sub-item (목) tree of each current provision.
+-- Numbers are normalised for lookup (① → 1, 1의2. → 1-2, 가. → 가); label keeps the printed form.
+-- paragraph is NULL for items of articles without numbered paragraphs (e.g. 제2조제1호).
+CREATE TABLE provision_units (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  unit_type TEXT NOT NULL CHECK(unit_type IN ('paragraph', 'item', 'sub_item')),
+  paragraph TEXT,
+  item TEXT,
+  sub_item TEXT,
+  label TEXT NOT NULL,
+  content TEXT NOT NULL,
+  position INTEGER NOT NULL
+);
+
+CREATE INDEX idx_units_provision ON provision_units(document_id, provision_ref, paragraph, item);
+
+-- Defined terms (용어의 정의) from definition articles, one row per term.
+-- term_key drops whitespace so "개인정보 처리자" finds "개인정보처리자".
+CREATE TABLE definitions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  paragraph TEXT,
+  item TEXT,
+  term TEXT NOT NULL,
+  term_key TEXT NOT NULL,
+  definition TEXT NOT NULL
+);
+
+CREATE INDEX idx_definitions_term ON definitions(term_key);
+CREATE INDEX idx_definitions_document ON definitions(document_id);
+
+-- Sanctions (벌칙, 과태료, 과징금) from sanction articles, one row per punished
+-- conduct (paragraph/item) and violated article of the same document.
+-- violated_provision_ref NULL = the conduct cites no article.
+CREATE TABLE sanctions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  paragraph TEXT,
+  item TEXT,
+  sanction_type TEXT NOT NULL
+    CHECK(sanction_type IN ('criminal', 'administrative_fine', 'penalty_surcharge')),
+  penalty TEXT NOT NULL,
+  max_imprisonment_years INTEGER,
+  max_fine_krw INTEGER,
+  revenue_share TEXT,
+  violated_provision_ref TEXT,
+  violated_citation TEXT,
+  conduct TEXT NOT NULL
+);
+
+CREATE INDEX idx_sanctions_violated ON sanctions(document_id, violated_provision_ref);
+CREATE INDEX idx_sanctions_provision ON sanctions(document_id, provision_ref);
+
+-- Regulated actors (수범자) each provision mentions, e.g. 개인정보처리자 or
+-- 본인신용정보관리회사 (actor ids from src/utils/actors.ts).
+-- addressee = 1 when a duty of the provision ("…는 …하여야 한다") is addressed to the actor.
+CREATE TABLE provision_actors (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  actor_id TEXT NOT NULL,
+  term TEXT NOT NULL,
+  addressee INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_provision_actors_actor ON provision_actors(actor_id, document_id, provision_ref);
+CREATE INDEX idx_provision_actors_provision ON provision_actors(document_id, provision_ref);
+
+-- Effective dates set by the 시행일 article of each 부칙 (addendum).
+-- provision_ref NULL = the whole amendment; otherwise the article whose
+-- amended text takes effect on a different date ("제35조의2의 개정규정은 ...").
+CREATE TABLE commencements (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  effective_date TEXT NOT NULL,
+  promulgation_number TEXT,
+  addendum_ref TEXT NOT NULL,
+  clause TEXT NOT NULL
+);
+
+CREATE INDEX idx_commencements_provision ON commencements(document_id, provision_ref);
+
+-- Point-in-time provision versions (연혁)
+-- Half-open validity windows: valid_from inclusive, valid_to exclusive (NULL = still in force).
+-- Current text is always present as the open-ended row, so as-of lookups need only this table.
+CREATE TABLE provision_versions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  section TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  content_norm TEXT,
+  valid_from TEXT,
+  valid_to TEXT,
+  -- The version is a deleted-article stub
+  deleted INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(document_id, provision_ref, valid_from)
+);
+
+CREATE INDEX idx_versions_provision ON provision_versions(document_id, provision_ref, valid_from);
+
+CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
+  content, title, content_norm,
+  content='provision_versions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER provision_versions_ai AFTER INSERT ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(rowid, content, title, content_norm)
+  VALUES (new.id, new.content, new.title, COALESCE(new.content_norm, ''));
+END;
+
+CREATE TRIGGER provision_versions_ad AFTER DELETE ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title, content_norm)
+  VALUES ('delete', old.id, old.content, old.title, COALESCE(old.content_norm, ''));
+END;
+
+CREATE TRIGGER provision_versions_au AFTER UPDATE ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title, content_norm)
+  VALUES ('delete', old.id, old.content, old.title, COALESCE(old.content_norm, ''));
+  INSERT INTO provision_versions_fts(rowid, content, title, content_norm)
+  VALUES (new.id, new.content, new.title, COALESCE(new.content_norm, ''));
+END;
+
+-- Revisions (제정/개정) of each document, one row per promulgation. The
+-- articles a revision changed are the provision_versions whose window opens
+-- or closes on its effective_date.
+CREATE TABLE revisions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  promulgation_number TEXT,
+  promulgation_date TEXT,
+  effective_date TEXT,
+  revision_type TEXT,
+  UNIQUE(document_id, promulgation_number, effective_date)
+);
+
+CREATE INDEX idx_revisions_document ON revisions(document_id, effective_date);
+
+-- English translations (separate table for KLRI translations)
+-- translation_date is the promulgation date of the translated version of the
+-- law; korean_date the latest amendment of the Korean article (from its
+-- 개정/신설 notes or the revision history). stale = Korean amended since.
+CREATE TABLE english_translations (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  translation TEXT NOT NULL,
+  title TEXT,
+  source TEXT DEFAULT 'KLRI',
+  source_url TEXT,
+  translated_law_number TEXT,
+  translation_date TEXT,
+  korean_date TEXT,
+  stale INTEGER NOT NULL DEFAULT 0,
+  last_updated TEXT DEFAULT (datetime('now')),
+  UNIQUE(document_id, provision_ref)
+);
+
+CREATE INDEX idx_translations_doc ON english_translations(document_id);
+
+-- Cross-references between provisions/documents
+CREATE TABLE cross_references (
+  id INTEGER PRIMARY KEY,
+  source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  source_provision_ref TEXT,
+  target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  target_provision_ref TEXT,
+  ref_type TEXT NOT NULL DEFAULT 'references'
+    CHECK(ref_type IN ('references', 'amended_by', 'implements', 'see_also')),
+  context TEXT
+);
+
+CREATE INDEX idx_xref_source ON cross_references(source_document_id, source_provision_ref);
+CREATE INDEX idx_xref_target ON cross_references(target_document_id, target_provision_ref);
+
+-- =============================================================================
+-- EU REFERENCES SCHEMA
+-- =============================================================================
+
+CREATE TABLE eu_documents (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('directive', 'regulation')),
+  year INTEGER NOT NULL CHECK (year >= 1957 AND year <= 2100),
+  number INTEGER NOT NULL CHECK (number > 0),
+  community TEXT CHECK (community IN ('EU', 'EC', 'EEC', 'Euratom')),
+  celex_number TEXT,
+  title TEXT,
+  title_en TEXT,
+  short_name TEXT,
+  adoption_date TEXT,
+  entry_into_force_date TEXT,
+  in_force BOOLEAN DEFAULT 1,
+  amended_by TEXT,
+  repeals TEXT,
+  url_eur_lex TEXT,
+  description TEXT,
+  last_updated TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_eu_documents_type_year ON eu_documents(type, year DESC);
+CREATE INDEX idx_eu_documents_celex ON eu_documents(celex_number);
+
+CREATE TABLE eu_references (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_type TEXT NOT NULL CHECK (source_type IN ('provision', 'document', 'case_law')),
+  source_id TEXT NOT NULL,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_id INTEGER REFERENCES legal_provisions(id),
+  eu_document_id TEXT NOT NULL REFERENCES eu_documents(id),
+  eu_article TEXT,
+  reference_type TEXT NOT NULL CHECK (reference_type IN (
+    'implements', 'supplements', 'applies', 'references', 'complies_with',
+    'derogates_from', 'amended_by', 'repealed_by', 'cites_article'
+  )),
+  reference_context TEXT,
+  full_citation TEXT,
+  is_primary_implementation BOOLEAN DEFAULT 0,
+  implementation_status TEXT CHECK (implementation_status IN ('complete', 'partial', 'pending', 'unknown')),
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  last_verified TEXT,
+  UNIQUE(source_id, eu_document_id, eu_article)
+);
+
+CREATE INDEX idx_eu_references_document ON eu_references(document_id, eu_document_id);
+CREATE INDEX idx_eu_references_eu_document ON eu_references(eu_document_id, document_id);
+CREATE INDEX idx_eu_references_provision ON eu_references(provision_id, eu_document_id);
+
+-- Build metadata (tier, schema version, build timestamp)
+CREATE TABLE db_metadata (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+// Only created by --embeddings, so its absence tells search to stay on FTS.
+// One normalised float32 vector per current provision.
+export const EMBEDDINGS_SCHEMA = `
+CREATE TABLE provision_embeddings (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  embedding BLOB NOT NULL
+);
+`;
@@ -0,0 +1,129 @@
+/**
+ * Point-in-time provision versions for Korean legislation.
+ *
+ * law.go.kr publishes every revision (연혁) of a law as a complete text with
+ * its own serial number (MST) and enforcement date (시행일자). This module
+ * collapses those full-text snapshots into per-article validity windows:
+ *
+ *   art-29  2011-09-30 → 2015-07-24  (original text)
+ *   art-29  2015-07-24 → (open)      (text after the 2015 amendment)
+ *
+ * Windows are half-open: valid_from is inclusive, valid_to is exclusive and
+ * equals the enforcement date of the revision that changed or removed the
+ * article. The current text has no valid_to.
+ *
+ * The snapshots also yield the revision list itself (제개정 type, 공포번호,
+ * dates). A revision's changes are the versions whose window opens or
+ * closes on its enforcement date, so they are not stored separately.
+ */
+
+import type { ParsedLaw } from './parser.js';
+
+export interface ParsedProvisionVersion {
+  provision_ref: string;
+  section: string;
+  title: string;
+  content: string;
+  valid_from: string;
+  valid_to?: string;
+}
+
+/** One revision (제정/개정) of a law, as published on law.go.kr */
+export interface ParsedRevision {
+  promulgation_number: string;
+  promulgation_date: string;
+  effective_date: string;
+  /** 제개정구분: 제정, 일부개정, 전부개정, 타법개정, ... */
+  revision_type: string | null;
+}
+
+/**
+ * Build validity windows from a set of full-text snapshots of one law.
+ *
+ * Snapshots may be passed in any order; they are sorted by in_force_date.
+ * Snapshots without an enforcement date are ignored, since they cannot be
+ * placed on the timeline. Consecutive snapshots with identical article text
+ * extend the same window instead of opening a new one.
+ */
+export function buildProvisionVersions(snapshots: ParsedLaw[]): ParsedProvisionVersion[] {
+  const timeline = snapshots
+    .filter(s => /^\d{4}-\d{2}-\d{2}$/.test(s.in_force_date))
+    .sort((a, b) => a.in_force_date.localeCompare(b.in_force_date));
+
+  const open = new Map<string, ParsedProvisionVersion>();
+  const closed: ParsedProvisionVersion[] = [];
+
+  for (const snapshot of timeline) {
+    const date = snapshot.in_force_date;
+    const seen = new Set<string>();
+
+    for (const provision of snapshot.provisions) {
+      seen.add(provision.provision_ref);
+      const current = open.get(provision.provision_ref);
+
+      if (current && current.content === provision.content) {
+        continue;
+      }
+
+      if (current) {
+        closeVersion(current, date, closed);
+      }
+
+      open.set(provision.provision_ref, {
+        provision_ref: provision.provision_ref,
+        section: provision.section,
+        title: provision.title,
+        content: provision.content,
+        valid_from: date,
+      });
+    }
+
+    // Articles missing from this snapshot were removed by this revision
+    for (const [ref, version] of open) {
+      if (!seen.has(ref)) {
+        closeVersion(version, date, closed);
+        open.delete(ref);
+      }
+    }
+  }
+
+  return [...closed, ...open.values()].sort((a, b) =>
+    a.provision_ref.localeCompare(b.provision_ref) || a.valid_from.localeCompare(b.valid_from),
+  );
+}
+
+function closeVersion(
+  version: ParsedProvisionVersion,
+  date: string,
+  closed: ParsedProvisionVersion[],
+): void {
+  // Two revisions taking effect on the same day: keep only the later text
+  if (version.valid_from === date) return;
+  closed.push({ ...version, valid_to: date });
+}
+
+/**
+ * List the revisions behind a set of snapshots, oldest first. Snapshots
+ * promulgated by the same act (same 공포번호 and enforcement date) collapse
+ * into one revision.
+ */
+export function buildRevisions(snapshots: ParsedLaw[]): ParsedRevision[] {
+  const revisions = new Map<string, ParsedRevision>();
+
+  for (const snapshot of snapshots) {
+    if (!snapshot.law_number && !snapshot.in_force_date) continue;
+    const key = `${snapshot.law_number}::${snapshot.in_force_date}`;
+    if (revisions.has(key)) continue;
+
+    revisions.set(key, {
+      promulgation_number: snapshot.law_number,
+      promulgation_date: snapshot.issued_date,
+      effective_date: snapshot.in_force_date,
+      revision_type: snapshot.revision_type || null,
+    });
+  }
+
+  return [...revisions.values()].sort((a, b) =>
+    a.effective_date.localeCompare(b.effective_date) || a.promulgation_date.localeCompare(b.promulgation_date),
+  );
+}
@@ -9,6 +9,15 @@ export type Capability =
   | 'core_legislation'
   | 'eu_references'
   | 'english_translations'
+  | 'provision_versions'
+  | 'revisions'
+  | 'provision_units'
+  | 'definitions'
+  | 'sanctions'
+  | 'actors'
+  | 'headings'
+  | 'addenda'
+  | 'embeddings'
   | 'presidential_decrees'
   | 'pipc_guidelines';
 
@@ -16,6 +25,17 @@ const TABLE_MAP: Record<Capability, string[]> = {
   core_legislation: ['legal_documents', 'legal_provisions', 'provisions_fts'],
   eu_references: ['eu_documents', 'eu_references'],
   english_translations: ['english_translations'],
+  provision_versions: ['provision_versions', 'provision_versions_fts'],
+  revisions: ['revisions'],
+  provision_units: ['provision_units'],
+  definitions: ['definitions'],
+  sanctions: ['sanctions'],
+  actors: ['provision_actors'],
+  headings: ['headings'],
+  // Built together with legal_provisions.kind
+  addenda: ['commencements'],
+  // Only built by build:db --embeddings
+  embeddings: ['provision_embeddings'],
   presidential_decrees: ['presidential_decrees'],
   pipc_guidelines: ['pipc_guidelines'],
 };
@@ -36,6 +56,17 @@ export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capab
   return caps;
 }
 
+/**
+ * Whether a table has all the given columns. For columns added to existing
+ * tables, which older databases lack even when the table itself exists.
+ */
+export function hasColumns(db: InstanceType<typeof Database>, table: string, columns: string[]): boolean {
+  const present = new Set(
+    (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name)
+  );
+  return columns.every(c => present.has(c));
+}
+
 export interface DbMetadata {
   tier: string;
   schema_version: string;
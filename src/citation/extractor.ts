@@ -0,0 +1,211 @@
+/**
+ * Statute citations in free text.
+ *
+ * Finds the citations parseCitation understands inside running text:
+ *   1. Bracketed titles: "「개인정보 보호법」 제15조제1항", "「신용정보법」에 따라"
+ *   2. Unbracketed titles: "개인정보 보호법 제29조", "정보통신망법 시행령 제15조"
+ *   3. The same law again: "같은 법 제17조", "동법 시행령 제3조"
+ *   4. English: "Article 15(1) of the Personal Information Protection Act",
+ *      "Art. 28-8, PIPA"
+ *
+ * Unbracketed Korean titles have no delimiter before them, so the words
+ * preceding the article are tried from the longest run down and the first
+ * run naming a known law wins; otherwise the run starts after the last word
+ * ending in a particle ("정보주체는 가상 보호법 제3조" → 가상 보호법).
+ */
+
+import { KO_PINPOINT } from './parser.js';
+
+export interface ExtractedCitation {
+  /** The citation as written */
+  text: string;
+  /** Offsets of text in the input (UTF-16 code units, end exclusive) */
+  start: number;
+  end: number;
+  language: 'ko' | 'en';
+  /** Law title as cited, or the preceding citation's title for 같은 법 */
+  title: string;
+  /** Pinpoint in parser form ("제15조제1항 단서", "Article 15(1)"); null for a title-only citation */
+  pinpoint: string | null;
+  /** Citation string in a form parseCitation accepts */
+  citation: string;
+}
+
+export interface ExtractOptions {
+  /** Whether a title names a law in the database; used to delimit unbracketed titles */
+  isKnownTitle?: (title: string) => boolean;
+}
+
+/** Title words: up to 8 words, none an earlier pinpoint, before a word ending like a law title */
+const KO_TITLE_RUN = String.raw`(?:(?!제\s*\d+\s*조)[가-힣A-Za-z0-9ㆍ·]+\s+){0,8}[가-힣ㆍ·]*(?:법률|법|시행령|시행규칙|규칙|규정)`;
+
+const SAME_LAW = String.raw`(?:같은\s*법|동법)(?:\s*(?:시행령|시행규칙))?`;
+
+/** 같은 법 at the end of a title run: "및 같은 법 제17조" matches as a title run */
+const TRAILING_SAME_LAW = new RegExp(String.raw`(?:^|\s)(${SAME_LAW})$`);
+
+// Pinpoints as in parser.ts, not running into further digits
+const PINPOINT = String.raw`${KO_PINPOINT}(?!\d)`;
+
+const KO_CITATION = new RegExp(
+  String.raw`「([^」\n]{1,80})」(?:\s*${PINPOINT})?|(${SAME_LAW})\s*${PINPOINT}|(${KO_TITLE_RUN})\s*${PINPOINT}`,
+  'g',
+);
+
+const EN_ARTICLE = String.raw`(\d+(?:-\d+|\s?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies)\b)?)`;
+const EN_TITLE = String.raw`([A-Z][A-Za-z'-]*(?:\s+(?:[A-Z][A-Za-z'-]*|and|of|on|the|for|in|to|&))*)`;
+
+const EN_CITATION = new RegExp(
+  String.raw`\b(?:Article|Art\.?)\s+${EN_ARTICLE}((?:\(\d+\)){0,2})(?:\s*,\s*|\s+of\s+(?:the\s+)?)${EN_TITLE}(\s*\(Act\s+No\.\s*\d+\))?`,
+);
+
+/** English titles end in the kind of instrument, or are an abbreviation (PIPA) */
+const EN_TITLE_END = /^(.*?\b(?:Act|Decree|Rules?|Code|Law))\b/;
+const EN_ABBREVIATION = /^[A-Z]{2,}$/;
+
+/**
+ * Words after which a law title cannot continue: particles and conjunctions,
+ * and Latin words other than abbreviations ("... of the PIPA and 개인정보 보호법")
+ */
+const NOT_IN_TITLE = /(?:은|는|이|가|을|를|에|에서|에게|으로|로|와|과|도|만|의|께서)$|^(?:및|또는|그리고|그러나|이|그|해당)$|^(?=.*[a-z])[A-Za-z0-9]+$/;
+
+/** Every statute citation in the text, in order of appearance */
+export function extractCitations(text: string, options: ExtractOptions = {}): ExtractedCitation[] {
+  const citations = [...extractKorean(text, options), ...extractEnglish(text)]
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Keep the first of overlapping matches
+  const kept: ExtractedCitation[] = [];
+  for (const citation of citations) {
+    if (kept.length > 0 && citation.start < kept[kept.length - 1].end) continue;
+    kept.push(citation);
+  }
+  return kept;
+}
+
+function extractKorean(text: string, options: ExtractOptions): ExtractedCitation[] {
+  const citations: ExtractedCitation[] = [];
+  let previousTitle: string | null = null;
+
+  for (const match of text.matchAll(KO_CITATION)) {
+    const [whole, bracketed] = match;
+    const index = match.index ?? 0;
+    // Pinpoint groups (7 per alternative) of whichever alternative matched
+    const groups = bracketed !== undefined ? match.slice(2, 9) : match[9] !== undefined ? match.slice(10, 17) : match.slice(18, 25);
+    const pinpoint = groups[0] ? koreanPinpoint(groups) : null;
+
+    // Words before 같은 법 ("및 같은 법 제17조") make the title-run alternative match
+    const trailingSameLaw = match[17]?.match(TRAILING_SAME_LAW);
+    const sameLaw = match[9] ?? trailingSameLaw?.[1];
+
+    let title: string;
+    let start = index;
+    if (bracketed !== undefined) {
+      title = bracketed.trim();
+    } else if (sameLaw !== undefined) {
+      if (!previousTitle) continue;
+      const suffix = sameLaw.match(/시행령|시행규칙/)?.[0];
+      title = suffix && !previousTitle.endsWith(suffix) ? `${previousTitle} ${suffix}` : previousTitle;
+      if (trailingSameLaw) start = index + match[17].length - sameLaw.length;
+    } else {
+      const delimited = delimitTitle(match[17], options);
+      if (!delimited) continue;
+      title = delimited.title;
+      start = index + delimited.offset;
+    }
+
+    previousTitle = title;
+    citations.push({
+      text: text.slice(start, index + whole.length).trim(),
+      start,
+      end: index + whole.trimEnd().length,
+      language: 'ko',
+      title,
+      pinpoint,
+      citation: pinpoint ? `${title} ${pinpoint}` : title,
+    });
+  }
+
+  return citations;
+}
+
+/** "제 15 조 제 1 항 단서" groups → "제15조제1항 단서" */
+function koreanPinpoint([article, branch, paragraph, item, itemBranch, subItem, clause]: (string | undefined)[]): string {
+  return `제${article}조${branch ? `의${branch}` : ''}` +
+    (paragraph ? `제${paragraph}항` : '') +
+    (item ? `제${item}호${itemBranch ? `의${itemBranch}` : ''}` : '') +
+    (subItem ? `${subItem}목` : '') +
+    (clause ? ` ${clause}` : '');
+}
+
+/** Pick the title out of the words preceding an article */
+function delimitTitle(run: string, options: ExtractOptions): { title: string; offset: number } | null {
+  const words = [...run.matchAll(/\S+/g)].map(m => ({ word: m[0], offset: m.index ?? 0 }));
+  const candidate = (from: number) => ({
+    title: run.slice(words[from].offset).trim(),
+    offset: words[from].offset,
+  });
+
+  if (options.isKnownTitle) {
+    for (let from = 0; from < words.length; from++) {
+      const { title, offset } = candidate(from);
+      if (options.isKnownTitle(title)) return { title, offset };
+    }
+  }
+
+  let from = 0;
+  words.forEach(({ word }, i) => {
+    if (i < words.length - 1 && NOT_IN_TITLE.test(word)) from = i + 1;
+  });
+  const { title, offset } = candidate(from);
+  // "법 제29조" in a decree means its parent Act, which the text alone cannot name
+  return /^(?:법|영|법률|규칙|규정)$/.test(title) ? null : { title, offset };
+}
+
+function extractEnglish(text: string): ExtractedCitation[] {
+  const citations: ExtractedCitation[] = [];
+
+  // Title runs can reach into the next citation ("... Act and Art. 15"), so
+  // scanning resumes where the accepted title ends
+  const pattern = new RegExp(EN_CITATION.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [, article, paragraphs, rawTitle, actNumber] = match;
+    const index = match.index;
+
+    let title: string;
+    let consumed: number;
+    const instrument = rawTitle.match(EN_TITLE_END);
+    if (instrument) {
+      title = instrument[1];
+      consumed = instrument[1].length;
+    } else {
+      const abbreviation = rawTitle.split(/\s+/)[0];
+      if (!EN_ABBREVIATION.test(abbreviation)) {
+        pattern.lastIndex = index + 1;
+        continue;
+      }
+      title = abbreviation;
+      consumed = abbreviation.length;
+    }
+
+    // The Act number only belongs to the citation when it directly follows the full title
+    const titleStart = match[0].indexOf(rawTitle);
+    const withNumber = actNumber && consumed === rawTitle.length;
+    const end = index + titleStart + consumed + (withNumber ? actNumber.length : 0);
+    const pinpoint = `Article ${article.replace(/\s+/g, '')}${paragraphs}`;
+    pattern.lastIndex = end;
+
+    citations.push({
+      text: text.slice(index, end),
+      start: index,
+      end,
+      language: 'en',
+      title,
+      pinpoint,
+      citation: `${pinpoint}, ${title}${withNumber ? actNumber : ''}`,
+    });
+  }
+
+  return citations;
+}
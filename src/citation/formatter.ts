@@ -5,35 +5,52 @@
  *   korean:   "제15조 개인정보 보호법"
  *   full:     "Article 15, Personal Information Protection Act"
  *   short:    "Art. 15, PIPA"
- *   pinpoint: "제15조제1항"
+ *   pinpoint: "제15조제1항", "제2조제1호가목", "제15조제1항 단서"
+ *
+ * A law cited without an article formats as "개인정보 보호법(법률 제19234호)".
  */
 
-import type { ParsedCitation, CitationFormat } from '../types/index.js';
+import type { ParsedCitation, CitationClause, CitationFormat } from '../types/index.js';
+
+const CLAUSES_EN: Record<CitationClause, string> = {
+  '본문': 'main text',
+  '단서': 'proviso',
+  '전단': 'former part',
+  '후단': 'latter part',
+};
+
+const ACT_KINDS_EN: Partial<Record<ParsedCitation['type'], string>> = {
+  statute: 'Act',
+  presidential_decree: 'Presidential Decree',
+};
 
 export function formatCitation(
   parsed: ParsedCitation,
   format: CitationFormat = 'full'
 ): string {
-  if (!parsed.valid || !parsed.article) {
+  if (!parsed.valid) {
     return '';
   }
+  if (!parsed.article) {
+    return formatDocument(parsed, format);
+  }
 
   const pinpoint = buildKoreanPinpoint(parsed);
 
   switch (format) {
     case 'korean':
-      return `${pinpoint} ${parsed.title ?? parsed.title_en ?? ''}`.trim();
+      return `${pinpoint} ${citedTitle(parsed)}`.trim();
 
     case 'full': {
       const englishPinpoint = buildEnglishPinpoint(parsed);
-      const title = parsed.title_en ?? parsed.title ?? '';
+      const title = parsed.title_en ?? citedTitle(parsed);
       const lawNum = parsed.law_number ? ` (Act No. ${parsed.law_number})` : '';
       return `Article ${englishPinpoint}, ${title}${lawNum}`.trim();
     }
 
     case 'short': {
       const englishPinpoint = buildEnglishPinpoint(parsed);
-      const title = parsed.title_en ?? parsed.title ?? '';
+      const title = parsed.title_en ?? citedTitle(parsed);
       return `Art. ${englishPinpoint}, ${title}`.trim();
     }
 
@@ -41,17 +58,58 @@ export function formatCitation(
       return pinpoint;
 
     default:
-      return `${pinpoint} ${parsed.title ?? parsed.title_en ?? ''}`.trim();
+      return `${pinpoint} ${citedTitle(parsed)}`.trim();
+  }
+}
+
+/** Title as cited; 같은 법 (시행령) when the citation refers to the preceding law */
+function citedTitle(parsed: ParsedCitation): string {
+  if (parsed.title ?? parsed.title_en) return parsed.title ?? parsed.title_en ?? '';
+  if (!parsed.same_law) return '';
+  return parsed.type === 'presidential_decree' ? '같은 법 시행령'
+    : parsed.type === 'ministerial_ordinance' ? '같은 법 시행규칙'
+    : '같은 법';
+}
+
+/** A law cited without an article: 개인정보 보호법(법률 제19234호) */
+function formatDocument(parsed: ParsedCitation, format: CitationFormat): string {
+  const lawNumberKo = parsed.law_number ? `${parsed.law_number_kind ?? '법률'} 제${parsed.law_number}호` : '';
+  switch (format) {
+    case 'pinpoint':
+      return '';
+
+    case 'full':
+    case 'short': {
+      const title = parsed.title_en ?? parsed.title ?? '';
+      const lawNumberEn = parsed.law_number ? `${ACT_KINDS_EN[parsed.type] ?? ''} No. ${parsed.law_number}`.trim() : '';
+      if (format === 'short' || !lawNumberEn) return title || lawNumberEn;
+      return title ? `${title} (${lawNumberEn})` : lawNumberEn;
+    }
+
+    default: {
+      const title = parsed.title ?? parsed.title_en ?? '';
+      return title && lawNumberKo ? `${title}(${lawNumberKo})` : title || lawNumberKo;
+    }
   }
 }
 
 function buildKoreanPinpoint(parsed: ParsedCitation): string {
-  let ref = `제${parsed.article}조`;
+  // Branch articles are stored as "28-2" and cited as 제28조의2
+  const [article, articleBranch] = parsed.article!.split('-');
+  let ref = articleBranch ? `제${article}조의${articleBranch}` : `제${article}조`;
   if (parsed.paragraph) {
     ref += `제${parsed.paragraph}항`;
   }
   if (parsed.item) {
-    ref += `제${parsed.item}호`;
+    // Bis items are stored as "1-2" and cited as 제1호의2
+    const [item, branch] = parsed.item.split('-');
+    ref += branch ? `제${item}호의${branch}` : `제${item}호`;
+  }
+  if (parsed.sub_item) {
+    ref += `${parsed.sub_item}목`;
+  }
+  if (parsed.clause) {
+    ref += ` ${parsed.clause}`;
   }
   return ref;
 }
@@ -64,5 +122,11 @@ function buildEnglishPinpoint(parsed: ParsedCitation): string {
   if (parsed.item) {
     ref += `(${parsed.item})`;
   }
+  if (parsed.sub_item) {
+    ref += `(${parsed.sub_item})`;
+  }
+  if (parsed.clause) {
+    ref += ` ${CLAUSES_EN[parsed.clause]}`;
+  }
   return ref;
 }
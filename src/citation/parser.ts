@@ -2,30 +2,59 @@
  * Korean legal citation parser.
  *
  * Parses citations in multiple formats:
- *   1. Korean: "제15조 개인정보 보호법"
+ *   1. Korean: "제15조 개인정보 보호법", "「개인정보 보호법」 제15조제1항제2호"
  *   2. English: "Article 15, Personal Information Protection Act (Act No. 16930)"
- *   3. Short: "Art. 15, PIPA"
+ *   3. Short: "Art. 15, PIPA", "Article 15 of the PIPA"
  *   4. ID-based: "act-16930, art. 15"
- *   5. With paragraph: "Article 15(1)" / "제15조제1항"
+ *   5. With paragraph: "Article 15(1)" / "제15조제1항" / "제15조 제1항"
+ *   6. Down to sub-item: "제2조제1호가목", "제15조제1항제1호의2"
+ *   7. Branch articles: "제28조의8", "Article 28-8", "Art. 28bis"
+ *   8. Decrees and rules: "개인정보 보호법 시행령 제18조",
+ *      "Enforcement Decree of the PIPA, Article 18"
+ *   9. The same law again: "같은 법 시행령 제18조", "동법 제3조"
+ *  10. Law numbers: "법률 제19234호", "개인정보 보호법(법률 제19234호) 제15조"
+ *  11. Clauses: "제15조제1항 단서", "제22조 본문", "제17조제2항 후단"
  */
 
-import type { ParsedCitation } from '../types/index.js';
+import type { CitationClause, ParsedCitation } from '../types/index.js';
+import { normalizeArticle } from '../utils/article-ref.js';
+
+// Article number in English citations: 15, 15-2, 15bis, 15 ter
+const EN_ARTICLE = String.raw`(\d+(?:-\d+|\s?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies)\b)?)`;
+
+/**
+ * Korean pinpoint: 제15조의2제1항제1호의2가목 단서; levels may be spaced
+ * ("제15조 제1항"). Groups: article, branch, paragraph, item, item branch,
+ * sub-item, clause.
+ */
+export const KO_PINPOINT = String.raw`제\s*(\d+)\s*조(?:\s*의\s*(\d+))?(?:\s*제\s*(\d+)\s*항)?(?:\s*제\s*(\d+)\s*호(?:\s*의\s*(\d+))?)?(?:\s*([가나다라마바사아자차카타파하])\s*목)?(?:\s*(본문|단서|전단|후단))?`;
 
 // Korean format: 제15조 개인정보 보호법
 // With paragraph: 제15조제1항 개인정보 보호법
-const KOREAN_CITATION = /^제(\d+)조(?:의(\d+))?(?:제(\d+)항)?(?:제(\d+)호)?\s+(.+)$/;
+// With item/sub-item: 제2조제1호가목 개인정보 보호법
+const KOREAN_CITATION = new RegExp(`^${KO_PINPOINT}\\s+(.+)$`);
+
+// Trailing article format: 개인정보 보호법 제15조, 「개인정보 보호법」 제15조제1항 단서, 같은 법 시행령 제18조
+const TRAILING_KOREAN = new RegExp(`^(.+?)\\s*${KO_PINPOINT}$`);
+
+// Law number: 법률 제19234호, 대통령령 제33723호, 행정안전부령 제1호
+const LAW_NUMBER = /\(?\s*(법률|대통령령|총리령|[가-힣]+부령)\s*제\s*(\d+)\s*호\s*\)?/;
+
+// English clause after the paragraph: "Article 15(1) proviso"
+const EN_CLAUSE = String.raw`(?:\s+(proviso|main text))?`;
 
 // English format: Article 15, Personal Information Protection Act (Act No. 16930)
-const ENGLISH_CITATION = /^(?:Article|Art\.?)\s+(\d+)(?:\((\d+)\))?(?:\((\d+)\))?\s*,?\s+(.+?)(?:\s*\(Act\s+No\.\s*(\d+)\))?$/i;
+// Also: Article 15 of the Personal Information Protection Act, Art. 15, PIPA
+const ENGLISH_CITATION = new RegExp(
+  `^(?:Article|Art\\.?)\\s+${EN_ARTICLE}(?:\\((\\d+)\\))?(?:\\((\\d+)\\))?${EN_CLAUSE}` +
+  `(?:\\s*,\\s*|\\s+of\\s+(?:the\\s+)?|\\s+)(.+?)(?:\\s*\\(Act\\s+No\\.\\s*(\\d+)\\))?$`, 'i');
 
-// Short format: Art. 15, PIPA
-const SHORT_CITATION = /^(?:Art\.?)\s+(\d+)(?:\((\d+)\))?\s*,?\s+(.+?)$/i;
+// Title first: Enforcement Decree of the PIPA, Article 18
+const ENGLISH_TITLE_FIRST = new RegExp(
+  `^([A-Za-z][A-Za-z .'&-]*?)\\s*,?\\s+(?:Article|Art\\.?)\\s+${EN_ARTICLE}(?:\\((\\d+)\\))?(?:\\((\\d+)\\))?${EN_CLAUSE}$`, 'i');
 
 // ID-based format: act-16930, art. 15
-const ID_CITATION = /^(act-\d+)\s*,?\s*(?:art\.?|article)\s+(\d+)(?:\((\d+)\))?$/i;
-
-// Trailing article format: 개인정보 보호법 제15조
-const TRAILING_KOREAN = /^(.+?)\s+제(\d+)조(?:의(\d+))?(?:제(\d+)항)?(?:제(\d+)호)?$/;
+const ID_CITATION = new RegExp(`^(act-\\d+)\\s*,?\\s*(?:art\\.?|article)\\s+${EN_ARTICLE}(?:\\((\\d+)\\))?$`, 'i');
 
 /** Well-known short name mappings */
 const SHORT_NAMES: Record<string, string> = {
@@ -36,61 +65,66 @@ const SHORT_NAMES: Record<string, string> = {
   'intelligent informatization act': '지능정보화 기본법',
 };
 
+type CitationType = ParsedCitation['type'];
+type TitleParts = Pick<ParsedCitation, 'title' | 'title_en' | 'law_number' | 'law_number_kind' | 'same_law'> & { type: CitationType };
+
+const LAW_NUMBER_TYPES: Record<string, CitationType> = {
+  '법률': 'statute',
+  '대통령령': 'presidential_decree',
+};
+
+const EN_CLAUSES: Record<string, CitationClause> = {
+  'proviso': '단서',
+  'main text': '본문',
+};
+
 export function parseCitation(citation: string): ParsedCitation {
   const trimmed = citation.trim();
 
   // Korean format: 제15조 개인정보 보호법
   let match = trimmed.match(KOREAN_CITATION);
   if (match) {
-    return {
-      valid: true,
-      type: 'statute',
-      article: match[2] ? `${match[1]}-${match[2]}` : match[1],
-      paragraph: match[3] || undefined,
-      item: match[4] || undefined,
-      title: match[5].trim(),
-    };
+    return { valid: true, ...koreanTitle(match[8]), ...koreanPinpoint(match.slice(1, 8)) };
   }
 
   // Trailing Korean format: 개인정보 보호법 제15조
   match = trimmed.match(TRAILING_KOREAN);
   if (match) {
-    return {
-      valid: true,
-      type: 'statute',
-      title: match[1].trim(),
-      article: match[3] ? `${match[2]}-${match[3]}` : match[2],
-      paragraph: match[4] || undefined,
-      item: match[5] || undefined,
-    };
+    return { valid: true, ...koreanTitle(match[1]), ...koreanPinpoint(match.slice(2, 9)) };
+  }
+
+  // Title or law number alone: 「개인정보 보호법」, 법률 제19234호
+  if (/^「[^」]+」/.test(trimmed) || LAW_NUMBER.test(trimmed)) {
+    const parts = koreanTitle(trimmed);
+    if (parts.title || parts.law_number) {
+      return { valid: true, ...parts };
+    }
   }
 
   // English format: Article 15, Personal Information Protection Act (Act No. 16930)
+  // Short format: Art. 15, PIPA
   match = trimmed.match(ENGLISH_CITATION);
   if (match) {
     return {
       valid: true,
-      type: 'statute',
-      article: match[1],
+      ...englishTitle(match[5], match[6]),
+      article: normalizeArticle(match[1]),
       paragraph: match[2] || undefined,
       item: match[3] || undefined,
-      title_en: match[4].trim(),
-      law_number: match[5] || undefined,
+      clause: match[4] ? EN_CLAUSES[match[4].toLowerCase()] : undefined,
     };
   }
 
-  // Short format: Art. 15, PIPA
-  match = trimmed.match(SHORT_CITATION);
+  // Title-first English format: Enforcement Decree of the PIPA, Article 18
+  match = trimmed.match(ENGLISH_TITLE_FIRST);
   if (match) {
-    const shortName = match[3].trim().toLowerCase();
-    const resolvedTitle = SHORT_NAMES[shortName];
     return {
       valid: true,
-      type: 'statute',
-      article: match[1],
-      paragraph: match[2] || undefined,
-      title: resolvedTitle,
-      title_en: resolvedTitle ? undefined : match[3].trim(),
+      ...englishTitle(match[1]),
+      article: normalizeArticle(match[2]),
+      paragraph: match[3] || undefined,
+      item: match[4] || undefined,
+      clause: match[5] ? EN_CLAUSES[match[5].toLowerCase()] : undefined,
     };
   }
 
@@ -101,7 +135,7 @@ export function parseCitation(citation: string): ParsedCitation {
       valid: true,
       type: 'statute',
       title: match[1],
-      article: match[2],
+      article: normalizeArticle(match[2]),
       paragraph: match[3] || undefined,
     };
   }
@@ -112,3 +146,70 @@ export function parseCitation(citation: string): ParsedCitation {
     error: `Could not parse Korean legal citation: "${trimmed}"`,
   };
 }
+
+/** KO_PINPOINT groups → article/paragraph/item/sub_item/clause */
+function koreanPinpoint([article, branch, paragraph, item, itemBranch, subItem, clause]: (string | undefined)[]) {
+  return {
+    article: branch ? `${article}-${branch}` : article,
+    paragraph: paragraph || undefined,
+    item: item ? (itemBranch ? `${item}-${itemBranch}` : item) : undefined,
+    sub_item: subItem || undefined,
+    clause: (clause || undefined) as CitationClause | undefined,
+  };
+}
+
+/**
+ * Korean title as cited: strips 「」 and a law number ("(법률 제19234호)"),
+ * recognises 같은 법 / 동법 and infers the instrument from 시행령 / 시행규칙.
+ */
+function koreanTitle(raw: string): TitleParts {
+  let title = raw.trim();
+  let lawNumber: string | undefined;
+  let lawNumberKind: string | undefined;
+
+  const number = title.match(LAW_NUMBER);
+  if (number) {
+    lawNumberKind = number[1];
+    lawNumber = number[2];
+    title = title.replace(LAW_NUMBER, ' ');
+  }
+  title = title.replace(/[「」]/g, ' ').replace(/\s+/g, ' ').trim();
+
+  const sameLaw = title.match(/^(?:같은\s*법|동법)(?:\s*(시행령|시행규칙))?$/);
+  const instrument = sameLaw ? sameLaw[1] ?? '' : title.match(/(시행령|시행규칙)$/)?.[1] ?? '';
+  const type: CitationType = instrument === '시행령' ? 'presidential_decree'
+    : instrument === '시행규칙' ? 'ministerial_ordinance'
+    : lawNumberKind ? LAW_NUMBER_TYPES[lawNumberKind] ?? 'ministerial_ordinance'
+    : 'statute';
+
+  return {
+    type,
+    title: sameLaw || !title ? undefined : title,
+    law_number: lawNumber,
+    law_number_kind: lawNumberKind,
+    same_law: sameLaw ? true : undefined,
+  };
+}
+
+/**
+ * English title as cited: maps short names (PIPA) to the Korean title, also
+ * inside "Enforcement Decree of the PIPA", and infers the instrument.
+ */
+function englishTitle(raw: string, actNumber?: string): TitleParts {
+  const title = raw.trim().replace(/^the\s+/i, '');
+  const decree = title.match(/^Enforcement\s+(Decree|Rules?)\s+of\s+(?:the\s+)?(.+)$/i);
+  const type: CitationType = !decree ? 'statute'
+    : decree[1].toLowerCase() === 'decree' ? 'presidential_decree' : 'ministerial_ordinance';
+
+  const base = decree ? decree[2] : title;
+  const korean = SHORT_NAMES[base.trim().toLowerCase()];
+  const suffix = type === 'presidential_decree' ? ' 시행령' : type === 'ministerial_ordinance' ? ' 시행규칙' : '';
+
+  return {
+    type,
+    title: korean ? `${korean}${suffix}` : undefined,
+    title_en: korean ? undefined : title,
+    law_number: actNumber || undefined,
+    law_number_kind: actNumber ? '법률' : undefined,
+  };
+}
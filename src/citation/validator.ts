@@ -8,8 +8,18 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import type { ValidationResult } from '../types/index.js';
 import { parseCitation } from './parser.js';
+import { detectCapabilities } from '../capabilities.js';
+import { findProvisionUnits, hasPinpoint } from '../utils/provision-units.js';
+import { formatCitation } from './formatter.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+import { deletionWarning, findDeletions, type ProvisionDeletion } from '../utils/deletions.js';
+import { resolveDocument } from '../utils/statute-id.js';
 
-export function validateCitation(db: Database, citation: string): ValidationResult {
+/**
+ * Validate a citation string. Callers that have already resolved the cited
+ * law pass its documentId; the title in the citation is then not looked up.
+ */
+export function validateCitation(db: Database, citation: string, documentId?: string): ValidationResult {
   const parsed = parseCitation(citation);
   const warnings: string[] = [];
 
@@ -22,48 +32,107 @@ export function validateCitation(db: Database, citation: string): ValidationResu
     };
   }
 
-  // Look up document by title match (Korean or English)
+  if (parsed.same_law && !documentId) {
+    return {
+      citation: parsed,
+      document_exists: false,
+      provision_exists: false,
+      warnings: ['"같은 법" refers to the law cited before it; cite that law by title, or check the whole passage with validate_citations_in_text'],
+    };
+  }
+
+  // Look up document by title (Korean or English), else by law number
   const searchTerm = parsed.title ?? parsed.title_en ?? '';
+  const lawNumberLabel = parsed.law_number ? `${parsed.law_number_kind ?? '법률'} 제${parsed.law_number}호` : '';
+  const resolution = documentId ? null : resolveDocument(db, searchTerm || lawNumberLabel);
+
+  if (resolution?.status === 'ambiguous') {
+    return {
+      citation: parsed,
+      document_exists: false,
+      provision_exists: false,
+      candidates: resolution.candidates,
+      warnings: [`"${resolution.input}" matches several laws (${resolution.candidates.map(c => c.title).join(', ')}); cite the full title`],
+    };
+  }
+
   const doc = db.prepare(
-    "SELECT id, title, title_en, status FROM legal_documents WHERE title LIKE ? OR title_en LIKE ? LIMIT 1"
-  ).get(`%${searchTerm}%`, `%${searchTerm}%`) as { id: string; title: string; title_en: string | null; status: string } | undefined;
+    'SELECT id, title, title_en, status, law_number FROM legal_documents WHERE id = ?'
+  ).get(documentId ?? resolution?.document_id ?? null) as
+    { id: string; title: string; title_en: string | null; status: string; law_number: string | null } | undefined;
 
   if (!doc) {
     return {
       citation: parsed,
       document_exists: false,
       provision_exists: false,
-      warnings: [`Document "${searchTerm}" not found in database`],
+      warnings: [searchTerm || !lawNumberLabel
+        ? `Document "${searchTerm}" not found in database`
+        : `${lawNumberLabel} not found in database (laws are recorded under the number of their current version)`],
     };
   }
 
+  if (parsed.law_number && doc.law_number && parsed.law_number !== doc.law_number) {
+    warnings.push(`${doc.title} is recorded under 제${doc.law_number}호; ${lawNumberLabel} may be an earlier version or an amending act`);
+  }
+
   if (doc.status === 'repealed') {
     warnings.push('This statute has been repealed');
   }
 
   // Check provision existence
   let provisionExists = false;
+  let pinpointExists: boolean | undefined;
+  let provisionDeleted: ProvisionDeletion | undefined;
   if (parsed.article) {
-    const articleRef = `art-${parsed.article}`;
-    const koreanRef = `제${parsed.article}조`;
+    const articleRef = articleProvisionRef(parsed.article);
+    const koreanRef = koreanArticleLabel(parsed.article);
 
     const prov = db.prepare(
-      `SELECT 1 FROM legal_provisions
+      `SELECT provision_ref, content FROM legal_provisions
        WHERE document_id = ?
          AND (provision_ref = ? OR provision_ref = ? OR section = ? OR section = ?)
        LIMIT 1`
-    ).get(doc.id, articleRef, koreanRef, parsed.article, koreanRef);
+    ).get(doc.id, articleRef, koreanRef, parsed.article, koreanRef) as { provision_ref: string; content: string } | undefined;
     provisionExists = !!prov;
 
+    provisionDeleted = prov ? findDeletions(db, doc.id, [prov.provision_ref]).get(prov.provision_ref) : undefined;
+
     if (!provisionExists) {
-      warnings.push(`Article ${parsed.article} (제${parsed.article}조) not found in ${doc.title}`);
+      warnings.push(`Article ${parsed.article} (${koreanRef}) not found in ${doc.title}`);
+    } else if (provisionDeleted) {
+      warnings.push(deletionWarning(`${doc.title} ${koreanRef}`, provisionDeleted));
+    } else if (prov) {
+      // Text of the cited unit, for checking a cited proviso
+      let citedText: string | null = prov.content;
+      if (hasPinpoint(parsed)) {
+        // Paragraph/item/sub-item verification against the 항/호/목 tree
+        if (detectCapabilities(db).has('provision_units')) {
+          const units = findProvisionUnits(db, doc.id, prov.provision_ref, parsed);
+          pinpointExists = units.length > 0;
+          citedText = units[0]?.text ?? null;
+          if (!pinpointExists) {
+            warnings.push(`${formatCitation(parsed, 'pinpoint')} not found in ${doc.title}`);
+          }
+        } else {
+          citedText = null;
+          warnings.push('Paragraph/item pinpoint not verified: this database has no paragraph-level data');
+        }
+      }
+
+      if (parsed.clause === '단서' && citedText !== null && !citedText.includes('다만')) {
+        warnings.push(`${formatCitation(parsed, 'pinpoint')} cites a proviso (단서), but the cited text has no "다만" sentence`);
+      }
     }
   }
 
   return {
     citation: parsed,
     document_exists: true,
+    document_id: doc.id,
     provision_exists: provisionExists,
+    pinpoint_exists: pinpointExists,
+    ...(provisionDeleted ? { provision_deleted: provisionDeleted } : {}),
     document_title: doc.title,
     status: doc.status,
     warnings,
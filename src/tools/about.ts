@@ -27,6 +27,7 @@ export function getAbout(db: InstanceType<typeof Database>, context: AboutContex
     documents: safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents'),
     provisions: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions'),
     definitions: safeCount(db, 'SELECT COUNT(*) as count FROM definitions'),
+    sanctions: safeCount(db, 'SELECT COUNT(*) as count FROM sanctions'),
   };
 
   if (euRefs > 0) {
@@ -1,92 +1,254 @@
 /**
  * build_legal_stance — Aggregate citations for a legal question.
+ *
+ * Runs the same tiered full-text search as search_legislation, groups the
+ * hits by statute (the statute with the best hit first), and enriches each
+ * provision with its EU basis, the decree and ordinance articles that
+ * implement it and a category. The stance lists the provisions by category
+ * so obligations, rights, sanctions and definitions can be cited directly.
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariantsLegacy as buildFtsQueryVariants } from '../utils/fts-query.js';
+import type { ProvisionEUReference } from '../types/index.js';
+import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { findEuBasis } from '../utils/eu-basis.js';
+import { findLinkedProvisions, type LinkedProvision } from '../utils/cross-references.js';
+import { categorizeProvision, type ProvisionCategory } from '../utils/provision-categories.js';
+import { actorFilterSql, resolveActor } from '../utils/actors.js';
+import { hasDeletionFlags } from '../utils/deletions.js';
+import { addTranslationStatus, type TranslationStatus } from '../utils/translation-status.js';
 
 export interface BuildLegalStanceInput {
   query: string;
   document_id?: string;
+  /** Regulated actor the provisions concern: actor id ("mydata_operator") or Korean term ("마이데이터사업자") */
+  role?: string;
   as_of_date?: string;
   limit?: number;
 }
 
 interface ProvisionHit {
-  document_id: string;
-  document_title: string;
-  document_title_en: string | null;
   provision_ref: string;
+  section: string;
   title: string | null;
+  chapter: string | null;
   snippet: string;
   relevance: number;
+  categories: ProvisionCategory[];
+  /** EU instruments this provision implements or references (databases with EU references) */
+  eu_basis?: ProvisionEUReference[];
+  /** Decree and ordinance articles implementing this provision */
+  implemented_by: LinkedProvision[];
+  /** English translation status (databases with translations); null when untranslated */
+  translation?: TranslationStatus | null;
+}
+
+interface StatuteGroup {
+  document_id: string;
+  document_title: string;
+  document_title_en: string | null;
+  document_type: string;
+  status: string;
+  in_force_date: string | null;
+  is_current: boolean;
+  /** EU instruments the statute as a whole implements or references (databases with EU references) */
+  eu_basis?: ProvisionEUReference[];
+  provisions: ProvisionHit[];
 }
 
 export interface LegalStanceResult {
   query: string;
-  provisions: ProvisionHit[];
+  statutes: StatuteGroup[];
+  /** Citations of the hits by category, e.g. "개인정보 보호법 제15조(개인정보의 수집ㆍ이용)" */
+  stance: Record<ProvisionCategory, string[]>;
   total_citations: number;
 }
 
+interface CandidateRow {
+  id: number;
+  document_id: string;
+  document_title: string;
+  document_title_en: string | null;
+  document_type: string;
+  status: string;
+  in_force_date: string | null;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  chapter: string | null;
+  content: string;
+  snippet: string;
+  relevance: number;
+  translation?: TranslationStatus | null;
+}
+
 const DEFAULT_LIMIT = 5;
 const MAX_LIMIT = 20;
 
+const CANDIDATE_COLUMNS = `
+      lp.id,
+      lp.document_id,
+      ld.title as document_title,
+      ld.title_en as document_title_en,
+      ld.type as document_type,
+      ld.status,
+      ld.in_force_date,
+      lp.provision_ref,
+      lp.section,
+      lp.title,
+      lp.chapter,
+      lp.content`;
+
 export async function buildLegalStance(
   db: Database,
   input: BuildLegalStanceInput
 ): Promise<ToolResponse<LegalStanceResult>> {
   if (!input.query || input.query.trim().length === 0) {
     return {
-      results: { query: '', provisions: [], total_citations: 0 },
+      results: { query: '', statutes: [], stance: emptyStance(), total_citations: 0 },
       _metadata: generateResponseMetadata(db)
     };
   }
 
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  const queryVariants = buildFtsQueryVariants(input.query);
+  const metadata = generateResponseMetadata(db);
+  const warnings: string[] = [];
+  const capabilities = detectCapabilities(db);
 
-  let provSql = `
-    SELECT
-      lp.document_id,
-      ld.title as document_title,
-      ld.title_en as document_title_en,
-      lp.provision_ref,
-      lp.title,
-      snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-      bm25(provisions_fts) as relevance
-    FROM provisions_fts
-    JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-    JOIN legal_documents ld ON ld.id = lp.document_id
-    WHERE provisions_fts MATCH ?
-  `;
+  // Deleted-article stubs have no text in force to cite
+  let filterSql = hasDeletionFlags(db) ? ' AND lp.deleted = 0' : '';
+  const filterParams: string[] = [];
+  if (input.document_id) {
+    const resolvedId = resolveDocumentId(db, input.document_id);
+    if (!resolvedId) {
+      throw new Error(`Document "${input.document_id}" not found in database`);
+    }
+    filterSql += ' AND lp.document_id = ?';
+    filterParams.push(resolvedId);
+  }
+  if (input.role?.trim()) {
+    const actor = resolveActor(input.role);
+    if (capabilities.has('actors')) {
+      filterSql += ` AND ${actorFilterSql('lp')}`;
+      filterParams.push(actor.id);
+    } else {
+      warnings.push('role filter ignored: this database has no actor tags (provision_actors).');
+    }
+  }
 
-  const provParams: (string | number)[] = [];
+  const sanitized = sanitizeFtsInput(input.query);
+  let candidates: CandidateRow[] = [];
+  let queryStrategy: string | undefined;
 
-  if (input.document_id) {
-    provSql += ` AND lp.document_id = ?`;
-    provParams.push(input.document_id);
+  const queryVariants = buildFtsQueryVariants(sanitized);
+  for (const ftsQuery of queryVariants) {
+    try {
+      candidates = db.prepare(`
+        SELECT ${CANDIDATE_COLUMNS},
+          snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+          bm25(provisions_fts) as relevance
+        FROM provisions_fts
+        JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE provisions_fts MATCH ?${filterSql}
+        ORDER BY relevance, lp.id
+        LIMIT ?
+      `).all(ftsQuery, ...filterParams, limit) as CandidateRow[];
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+    if (candidates.length > 0) {
+      if (ftsQuery !== queryVariants[0]) queryStrategy = 'broadened';
+      break;
+    }
   }
 
-  provSql += ` ORDER BY relevance LIMIT ?`;
-  provParams.push(limit);
+  // LIKE fallback — final tier when all FTS5 variants return no results
+  if (candidates.length === 0) {
+    candidates = db.prepare(`
+      SELECT ${CANDIDATE_COLUMNS},
+        substr(lp.content, 1, 200) as snippet,
+        0 as relevance
+      FROM legal_provisions lp
+      JOIN legal_documents ld ON ld.id = lp.document_id
+      WHERE lp.content LIKE ? COLLATE NOCASE${filterSql}
+      ORDER BY lp.id
+      LIMIT ?
+    `).all(buildLikePattern(sanitized), ...filterParams, limit) as CandidateRow[];
+    if (candidates.length > 0) queryStrategy = 'like_fallback';
+  }
 
-  const runProvisionQuery = (ftsQuery: string): ProvisionHit[] => {
-    const bound = [ftsQuery, ...provParams];
-    return db.prepare(provSql).all(...bound) as ProvisionHit[];
-  };
+  const hasEu = capabilities.has('eu_references');
+  const euBasis = hasEu ? findEuBasis(db, 'provision', candidates.map(c => c.id)) : undefined;
+  const documentEuBasis = hasEu ? findEuBasis(db, 'document', [...new Set(candidates.map(c => c.document_id))]) : undefined;
+  addTranslationStatus(db, candidates, metadata);
 
-  let provisions = runProvisionQuery(queryVariants.primary);
-  if (provisions.length === 0 && queryVariants.fallback) {
-    provisions = runProvisionQuery(queryVariants.fallback);
+  // Candidates arrive best first, so each statute's position is that of its best hit
+  const statutes = new Map<string, StatuteGroup>();
+  const stance = emptyStance();
+
+  for (const row of candidates) {
+    let group = statutes.get(row.document_id);
+    if (!group) {
+      group = {
+        document_id: row.document_id,
+        document_title: row.document_title,
+        document_title_en: row.document_title_en,
+        document_type: row.document_type,
+        status: row.status,
+        in_force_date: row.in_force_date,
+        is_current: row.status === 'in_force',
+        ...(documentEuBasis ? { eu_basis: documentEuBasis.get(row.document_id) ?? [] } : {}),
+        provisions: [],
+      };
+      statutes.set(row.document_id, group);
+      if (row.status === 'repealed') {
+        warnings.push(`${row.document_title} has been repealed (폐지); its provisions are not current law.`);
+      }
+    }
+
+    const categories = categorizeProvision(row);
+    const hit: ProvisionHit = {
+      provision_ref: row.provision_ref,
+      section: row.section,
+      title: row.title,
+      chapter: row.chapter,
+      snippet: row.snippet,
+      relevance: row.relevance,
+      categories,
+      ...(euBasis ? { eu_basis: euBasis.get(row.id) ?? [] } : {}),
+      implemented_by: row.document_type === 'statute'
+        ? findLinkedProvisions(db, 'incoming', row.document_id, row.provision_ref, ['implements'])
+        : [],
+      ...(row.translation !== undefined ? { translation: row.translation } : {}),
+    };
+    group.provisions.push(hit);
+
+    const citation = `${row.document_title} ${row.section}${row.title ? `(${row.title})` : ''}`;
+    for (const category of categories) stance[category].push(citation);
   }
 
+  const groups = [...statutes.values()];
+
+  // The stale-translation warning, if any, follows the repeal and role warnings
+  if (warnings.length > 0) metadata.warnings = [...warnings, ...(metadata.warnings ?? [])];
+  if (queryStrategy) metadata.query_strategy = queryStrategy;
+
   return {
     results: {
       query: input.query,
-      provisions,
-      total_citations: provisions.length,
+      statutes: groups,
+      stance,
+      total_citations: candidates.length,
     },
-    _metadata: generateResponseMetadata(db)
+    _metadata: metadata,
   };
 }
+
+function emptyStance(): Record<ProvisionCategory, string[]> {
+  return { obligations: [], rights: [], sanctions: [], definitions: [] };
+}
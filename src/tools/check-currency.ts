@@ -4,6 +4,11 @@
 
 import type { Database } from '@ansvar/mcp-sqlite';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeAsOfDate, VERSION_IN_FORCE_SQL, AS_OF_UNSUPPORTED_WARNING } from '../utils/as-of-date.js';
+import { detectCapabilities } from '../capabilities.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { deletionWarning, findDeletions, type ProvisionDeletion } from '../utils/deletions.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
@@ -20,11 +25,44 @@ export interface CurrencyResult {
   law_number: string | null;
   issued_date: string | null;
   in_force_date: string | null;
+  /** Whether the statute is in force; false as well when the requested provision is a deleted stub */
   is_current: boolean;
   provision_exists?: boolean;
+  /** Date and act of the deletion when the requested article is a deleted stub (삭제) */
+  provision_deleted?: ProvisionDeletion;
+  as_of_date?: string;
+  in_force_on_date?: boolean;
+  provision_version?: ProvisionVersion | null;
+  /**
+   * Effective dates set by addenda (부칙): those naming the requested
+   * provision and the whole-amendment dates not yet in effect, or without
+   * provision_ref every date not yet in effect.
+   */
+  commencements?: Commencement[];
   warnings: string[];
 }
 
+/** An effective date from the 시행일 article of an addendum (부칙). */
+export interface Commencement {
+  /** Article the date applies to; null for the amendment as a whole */
+  provision_ref: string | null;
+  applies_to: 'provision' | 'whole_amendment';
+  effective_date: string;
+  promulgation_number: string | null;
+  addendum_ref: string;
+  clause: string;
+  in_effect: boolean;
+}
+
+/** The text of a provision in force on the requested as_of_date. */
+export interface ProvisionVersion {
+  valid_from: string | null;
+  valid_to: string | null;
+  is_current_text: boolean;
+  title: string | null;
+  text: string;
+}
+
 interface DocumentRow {
   id: string;
   title: string;
@@ -44,35 +82,134 @@ export async function checkCurrency(
     throw new Error('document_id is required');
   }
 
+  const resolvedId = resolveDocumentId(db, input.document_id);
   const doc = db.prepare(`
     SELECT id, title, title_en, status, type, law_number, issued_date, in_force_date
     FROM legal_documents
-    WHERE id = ? OR title LIKE ? OR title_en LIKE ?
-    LIMIT 1
-  `).get(input.document_id, `%${input.document_id}%`, `%${input.document_id}%`) as DocumentRow | undefined;
+    WHERE id = ?
+  `).get(resolvedId) as DocumentRow | undefined;
+
+  const metadata = generateResponseMetadata(db);
 
   if (!doc) {
-    return { results: null, _metadata: generateResponseMetadata(db) };
+    metadata.warnings = [...(metadata.warnings ?? []), `Document "${input.document_id}" not found in database`];
+    return { results: null, _metadata: metadata };
   }
 
   const warnings: string[] = [];
-  const isCurrent = doc.status === 'in_force';
+  let isCurrent = doc.status === 'in_force';
 
   if (doc.status === 'repealed') {
     warnings.push('This statute has been repealed (폐지)');
   }
 
+  let asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (asOfDate && !detectCapabilities(db).has('provision_versions')) {
+    metadata.warnings = [AS_OF_UNSUPPORTED_WARNING];
+    asOfDate = undefined;
+  }
+
+  let inForceOnDate: boolean | undefined;
+  if (asOfDate) {
+    // A statute was in force on a date if any of its articles had text in force then
+    const anyVersion = db.prepare(
+      `SELECT 1 FROM provision_versions pv WHERE pv.document_id = ? AND ${VERSION_IN_FORCE_SQL} LIMIT 1`
+    ).get(doc.id, asOfDate, asOfDate);
+    inForceOnDate = !!anyVersion;
+
+    if (!inForceOnDate) {
+      warnings.push(`No text of this statute is recorded as in force on ${asOfDate}`);
+    }
+  }
+
   let provisionExists: boolean | undefined;
+  let provisionDeleted: ProvisionDeletion | undefined;
+  let provisionVersion: ProvisionVersion | null | undefined;
   if (input.provision_ref) {
-    const articleRef = `art-${input.provision_ref}`;
-    const koreanRef = `제${input.provision_ref}조`;
-    const prov = db.prepare(
-      'SELECT 1 FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ? OR section = ?)'
-    ).get(doc.id, input.provision_ref, articleRef, input.provision_ref, koreanRef);
-    provisionExists = !!prov;
-
-    if (!provisionExists) {
-      warnings.push(`Provision "${input.provision_ref}" not found in this document`);
+    const articleRef = articleProvisionRef(input.provision_ref);
+    const koreanRef = koreanArticleLabel(input.provision_ref);
+
+    if (asOfDate) {
+      const version = db.prepare(`
+        SELECT pv.valid_from, pv.valid_to, pv.title, pv.content
+        FROM provision_versions pv
+        WHERE pv.document_id = ?
+          AND (pv.provision_ref = ? OR pv.provision_ref = ? OR pv.section = ? OR pv.section = ?)
+          AND ${VERSION_IN_FORCE_SQL}
+        LIMIT 1
+      `).get(doc.id, input.provision_ref, articleRef, input.provision_ref, koreanRef, asOfDate, asOfDate) as
+        { valid_from: string | null; valid_to: string | null; title: string | null; content: string } | undefined;
+
+      provisionExists = !!version;
+      provisionVersion = version
+        ? {
+            valid_from: version.valid_from,
+            valid_to: version.valid_to,
+            is_current_text: version.valid_to === null,
+            title: version.title,
+            text: version.content,
+          }
+        : null;
+
+      if (!version) {
+        warnings.push(`Provision "${input.provision_ref}" was not in force on ${asOfDate}`);
+      } else if (version.valid_to) {
+        warnings.push(`Provision "${input.provision_ref}" has been amended since ${asOfDate}; text changed on ${version.valid_to}`);
+      }
+    } else {
+      const prov = db.prepare(
+        'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ? OR section = ?)'
+      ).get(doc.id, input.provision_ref, articleRef, input.provision_ref, koreanRef) as { provision_ref: string } | undefined;
+      provisionExists = !!prov;
+
+      if (!prov) {
+        warnings.push(`Provision "${input.provision_ref}" not found in this document`);
+      } else {
+        // A 삭제 stub is a row without text in force
+        provisionDeleted = findDeletions(db, doc.id, [prov.provision_ref]).get(prov.provision_ref);
+        if (provisionDeleted) {
+          isCurrent = false;
+          warnings.push(deletionWarning(`${doc.title} ${koreanRef}`, provisionDeleted));
+        }
+      }
+    }
+  }
+
+  let commencements: Commencement[] | undefined;
+  if (detectCapabilities(db).has('addenda')) {
+    // Deferred dates are judged against as_of_date, or today
+    const referenceDate = asOfDate ?? new Date().toISOString().slice(0, 10);
+    // The general 시행일 ("이 법은 공포 후 1년이 경과한 날부터 시행한다") also
+    // covers the article, unless the same addendum gives it a date of its own
+    const rows = input.provision_ref
+      ? db.prepare(`
+          SELECT provision_ref, effective_date, promulgation_number, addendum_ref, clause
+          FROM commencements c
+          WHERE document_id = ?
+            AND (provision_ref = ?
+              OR (provision_ref IS NULL AND effective_date > ? AND NOT EXISTS (
+                SELECT 1 FROM commencements own
+                WHERE own.document_id = c.document_id AND own.addendum_ref = c.addendum_ref AND own.provision_ref = ?)))
+          ORDER BY effective_date, provision_ref IS NOT NULL
+        `).all(doc.id, articleProvisionRef(input.provision_ref), referenceDate, articleProvisionRef(input.provision_ref))
+      : db.prepare(`
+          SELECT provision_ref, effective_date, promulgation_number, addendum_ref, clause
+          FROM commencements
+          WHERE document_id = ? AND effective_date > ?
+          ORDER BY effective_date, provision_ref IS NOT NULL, provision_ref
+        `).all(doc.id, referenceDate);
+
+    commencements = (rows as Omit<Commencement, 'applies_to' | 'in_effect'>[]).map(row => ({
+      ...row,
+      applies_to: row.provision_ref ? 'provision' : 'whole_amendment',
+      in_effect: row.effective_date <= referenceDate,
+    }));
+
+    for (const pending of commencements.filter(c => !c.in_effect)) {
+      const amendment = pending.promulgation_number ? `제${pending.promulgation_number}호` : pending.addendum_ref;
+      warnings.push(pending.provision_ref
+        ? `${koreanArticleLabel(pending.provision_ref)} as amended by ${amendment} takes effect on ${pending.effective_date} (부칙 시행일); the stored text is not yet in force on ${referenceDate}`
+        : `Amendment ${amendment} takes effect on ${pending.effective_date} (부칙 시행일); text it changed is not yet in force on ${referenceDate}`);
     }
   }
 
@@ -88,8 +225,11 @@ export async function checkCurrency(
       in_force_date: doc.in_force_date,
       is_current: isCurrent,
       provision_exists: provisionExists,
+      ...(provisionDeleted ? { provision_deleted: provisionDeleted } : {}),
+      ...(asOfDate ? { as_of_date: asOfDate, in_force_on_date: inForceOnDate, provision_version: provisionVersion } : {}),
+      ...(commencements && commencements.length > 0 ? { commencements } : {}),
       warnings,
     },
-    _metadata: generateResponseMetadata(db)
+    _metadata: metadata
   };
 }
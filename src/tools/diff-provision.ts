@@ -0,0 +1,166 @@
+/**
+ * diff_provision — Word-level diff of an article between two points in time.
+ *
+ * Each side is the version of the article in force on a date (half-open
+ * windows from provision_versions). By default the current text is compared
+ * with the version it replaced, i.e. the effect of the latest amendment.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeIsoDate, VERSION_IN_FORCE_SQL } from '../utils/as-of-date.js';
+import { diffWords, type WordDiff } from '../utils/word-diff.js';
+import { detectCapabilities } from '../capabilities.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+
+export interface DiffProvisionInput {
+  law_identifier: string;
+  article: string;
+  /** Compare the text in force on this date ... */
+  from_date?: string;
+  /** ... with the text in force on this date (default: current text) */
+  to_date?: string;
+}
+
+export interface DiffSide {
+  valid_from: string | null;
+  valid_to: string | null;
+  title: string | null;
+}
+
+export interface DiffProvisionResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  section: string;
+  /** null when the article was not in force on from_date (added since) */
+  from: DiffSide | null;
+  /** null when the article was not in force on to_date (deleted since) */
+  to: DiffSide | null;
+  changed: boolean;
+  /** Revision that brought the newer text into force, when recorded */
+  revision: { promulgation_number: string | null; promulgation_date: string | null; revision_type: string | null } | null;
+  diff: WordDiff;
+}
+
+interface VersionRow {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  content: string;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+export async function diffProvision(
+  db: Database,
+  input: DiffProvisionInput
+): Promise<ToolResponse<DiffProvisionResult | null>> {
+  if (!input.law_identifier) {
+    throw new Error('law_identifier is required');
+  }
+  if (!input.article) {
+    throw new Error('article is required');
+  }
+
+  const fromDate = normalizeIsoDate(input.from_date, 'from_date');
+  const toDate = normalizeIsoDate(input.to_date, 'to_date');
+  if (fromDate && toDate && fromDate > toDate) {
+    throw new Error('from_date must not be after to_date');
+  }
+
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?')
+    .get(resolvedId) as { id: string; title: string };
+  const metadata = generateResponseMetadata(db);
+
+  const capabilities = detectCapabilities(db);
+  if (!capabilities.has('provision_versions')) {
+    metadata.warnings = ['Provision diff unavailable: this database was built without provision history.'];
+    return { results: null, _metadata: metadata };
+  }
+
+  const articleRef = articleProvisionRef(input.article);
+  const koreanRef = koreanArticleLabel(input.article);
+  const articleFilter = '(pv.provision_ref = ? OR pv.provision_ref = ? OR pv.section = ? OR pv.section = ?)';
+  const articleParams = [input.article, articleRef, input.article, koreanRef];
+
+  const versions = db.prepare(`
+    SELECT pv.provision_ref, pv.section, pv.title, pv.content, pv.valid_from, pv.valid_to
+    FROM provision_versions pv
+    WHERE pv.document_id = ? AND ${articleFilter}
+    ORDER BY pv.valid_from IS NOT NULL, pv.valid_from
+  `).all(resolvedId, ...articleParams) as VersionRow[];
+
+  if (versions.length === 0) {
+    metadata.warnings = [`Article ${input.article} not found in ${doc.title}.`];
+    return { results: null, _metadata: metadata };
+  }
+
+  const inForceOn = (date: string) => db.prepare(`
+    SELECT pv.provision_ref, pv.section, pv.title, pv.content, pv.valid_from, pv.valid_to
+    FROM provision_versions pv
+    WHERE pv.document_id = ? AND ${articleFilter} AND ${VERSION_IN_FORCE_SQL}
+    ORDER BY pv.valid_from DESC
+    LIMIT 1
+  `).get(resolvedId, ...articleParams, date, date) as VersionRow | undefined;
+
+  const warnings: string[] = [];
+  const latest = versions[versions.length - 1];
+  const to = toDate ? inForceOn(toDate) : latest;
+
+  let from: VersionRow | undefined;
+  if (fromDate) {
+    from = inForceOn(fromDate);
+  } else if (to) {
+    // The version the newer text replaced
+    from = versions.filter(v => v.valid_to !== null && v.valid_to === to.valid_from).pop();
+    if (!from) {
+      warnings.push(`No earlier version of ${latest.section} is recorded; the whole text is shown as inserted.`);
+    }
+  }
+
+  if (fromDate && !from) warnings.push(`${latest.section} was not in force on ${fromDate}.`);
+  if (toDate && !to) warnings.push(`${latest.section} was not in force on ${toDate}.`);
+
+  const diff = diffWords(from?.content ?? '', to?.content ?? '');
+  const changed = (from?.content ?? '') !== (to?.content ?? '');
+
+  const revision = capabilities.has('revisions') && to?.valid_from && to !== from
+    ? db.prepare(`
+        SELECT promulgation_number, promulgation_date, revision_type
+        FROM revisions
+        WHERE document_id = ? AND effective_date = ?
+        ORDER BY promulgation_date DESC
+        LIMIT 1
+      `).get(resolvedId, to.valid_from) as DiffProvisionResult['revision'] | undefined
+    : undefined;
+
+  if (warnings.length > 0) {
+    metadata.warnings = warnings;
+  }
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      provision_ref: latest.provision_ref,
+      section: latest.section,
+      from: from ? sideOf(from) : null,
+      to: to ? sideOf(to) : null,
+      changed,
+      revision: revision ?? null,
+      diff,
+    },
+    _metadata: metadata,
+  };
+}
+
+function sideOf(version: VersionRow): DiffSide {
+  return { valid_from: version.valid_from, valid_to: version.valid_to, title: version.title };
+}
@@ -0,0 +1,275 @@
+/**
+ * generate_compliance_checklist — Duties of a statute or topic as a checklist.
+ *
+ * Reads the current text of the selected provisions paragraph by paragraph,
+ * keeps the sentences that impose a duty ("~하여야 한다", "~하여서는 아니
+ * 된다"), names the actor each is addressed to and cites it down to the
+ * paragraph, so every item can be verified with get_provision.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+import { buildCitation, type CitationMetadata } from '../utils/citation.js';
+import { formatCitation } from '../citation/formatter.js';
+import { categorizeProvision } from '../utils/provision-categories.js';
+import { extractDuties, type DutyKind } from '../utils/obligations.js';
+import { resolveActor } from '../utils/actors.js';
+
+export interface GenerateComplianceChecklistInput {
+  /** Statute ID or title; the checklist covers all its articles */
+  law_identifier?: string;
+  /** Topic; the checklist covers the most relevant provisions */
+  query?: string;
+  /** Only duties addressed to this actor (Korean term, e.g. "개인정보처리자", or actor id) */
+  addressee?: string;
+  limit?: number;
+}
+
+export interface ChecklistItem {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  /** Korean pinpoint of the duty, e.g. 제29조제1항 */
+  pinpoint: string;
+  /** Actor the duty is addressed to as written, e.g. 개인정보처리자; null when not recognised */
+  addressee: string | null;
+  addressee_id: string | null;
+  duty: DutyKind;
+  /** The duty sentence */
+  requirement: string;
+  /** Items the sentence lists ("다음 각 호의 사항을 ... 하여야 한다") */
+  details?: string[];
+  citation: CitationMetadata;
+}
+
+export interface GenerateComplianceChecklistResult {
+  document_id: string | null;
+  document_title: string | null;
+  query: string | null;
+  items: ChecklistItem[];
+  by_addressee: { addressee: string; count: number }[];
+  total_items: number;
+  truncated: boolean;
+}
+
+interface ProvisionRow {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  chapter: string | null;
+  content: string;
+}
+
+interface UnitRow {
+  unit_type: 'paragraph' | 'item' | 'sub_item';
+  paragraph: string | null;
+  item: string | null;
+  content: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+/** Provisions taken from a topic search */
+const QUERY_CANDIDATES = 30;
+
+const PROVISION_COLUMNS = `
+  lp.document_id, ld.title as document_title, lp.provision_ref, lp.section, lp.title, lp.chapter, lp.content`;
+
+/** Article heading at the start of the content: 제15조(개인정보의 수집ㆍ이용) */
+const HEADING = /^\s*제\d+조(?:의\d+)?(?:\([^)]*\))?\s*/;
+
+export async function generateComplianceChecklist(
+  db: Database,
+  input: GenerateComplianceChecklistInput
+): Promise<ToolResponse<GenerateComplianceChecklistResult>> {
+  const query = input.query?.trim() || null;
+  if (!input.law_identifier?.trim() && !query) {
+    throw new Error('law_identifier or query is required');
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const metadata = generateResponseMetadata(db);
+  const capabilities = detectCapabilities(db);
+
+  let document: { id: string; title: string } | null = null;
+  if (input.law_identifier?.trim()) {
+    const resolvedId = resolveDocumentId(db, input.law_identifier);
+    if (!resolvedId) {
+      throw new Error(`Document "${input.law_identifier}" not found in database`);
+    }
+    document = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?')
+      .get(resolvedId) as { id: string; title: string };
+  }
+
+  // 부칙 are transitional and hold no standing duties
+  const articleFilter = capabilities.has('addenda') ? " AND COALESCE(lp.kind, 'article') = 'article'" : '';
+  const documentFilter = document ? ' AND lp.document_id = ?' : '';
+  const documentParams = document ? [document.id] : [];
+
+  const provisions = query
+    ? searchProvisions(db, query, `${articleFilter}${documentFilter}`, documentParams)
+    : db.prepare(`
+        SELECT ${PROVISION_COLUMNS}
+        FROM legal_provisions lp
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE 1 = 1${articleFilter}${documentFilter}
+        ORDER BY lp.id
+      `).all(...documentParams) as ProvisionRow[];
+
+  const unitsStatement = capabilities.has('provision_units')
+    ? db.prepare(`
+        SELECT unit_type, paragraph, item, content
+        FROM provision_units
+        WHERE document_id = ? AND provision_ref = ?
+        ORDER BY position
+      `)
+    : null;
+
+  const addresseeFilter = input.addressee?.trim() ? resolveActor(input.addressee).id : null;
+  const items: ChecklistItem[] = [];
+  let truncated = false;
+
+  for (const provision of provisions) {
+    if (truncated) break;
+    const categories = categorizeProvision(provision);
+    if (categories.includes('sanctions') || categories.includes('definitions')) continue;
+
+    const units = (unitsStatement?.all(provision.document_id, provision.provision_ref) ?? []) as UnitRow[];
+
+    for (const source of dutySources(provision, units)) {
+      for (const duty of extractDuties(source.text)) {
+        if (addresseeFilter && duty.addressee?.actor.id !== addresseeFilter) continue;
+        if (items.length >= limit) {
+          truncated = true;
+          break;
+        }
+
+        const pinpoint = formatCitation({
+          valid: true,
+          type: 'statute',
+          article: provision.provision_ref.replace(/^art-/, ''),
+          paragraph: source.paragraph ?? undefined,
+        }, 'pinpoint');
+        const label = `${provision.document_title} ${pinpoint}`;
+
+        items.push({
+          document_id: provision.document_id,
+          document_title: provision.document_title,
+          provision_ref: provision.provision_ref,
+          section: provision.section,
+          title: provision.title,
+          pinpoint,
+          addressee: duty.addressee?.term ?? null,
+          addressee_id: duty.addressee?.actor.id ?? null,
+          duty: duty.duty,
+          requirement: duty.sentence,
+          ...(duty.lists_items && source.items.length > 0 ? { details: source.items } : {}),
+          citation: buildCitation(label, label, 'get_provision', {
+            law_identifier: provision.document_id,
+            article: provision.provision_ref.replace(/^art-/, ''),
+            ...(source.paragraph ? { paragraph: source.paragraph } : {}),
+          }),
+        });
+      }
+      if (truncated) break;
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = item.addressee ?? '(unspecified)';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  if (items.length === 0) {
+    metadata.warnings = [
+      addresseeFilter
+        ? `No duties addressed to "${input.addressee}" found in the selected provisions.`
+        : 'No duty-bearing provisions ("하여야 한다", "아니 된다") found.',
+    ];
+  } else if (truncated) {
+    metadata.warnings = [`Checklist truncated at ${limit} items; raise limit or narrow the query.`];
+  }
+
+  return {
+    results: {
+      document_id: document?.id ?? null,
+      document_title: document?.title ?? null,
+      query,
+      items,
+      by_addressee: [...counts].map(([addressee, count]) => ({ addressee, count })).sort((a, b) => b.count - a.count),
+      total_items: items.length,
+      truncated,
+    },
+    _metadata: metadata,
+  };
+}
+
+/** The most relevant current provisions for a topic, via the search_legislation tiers */
+function searchProvisions(db: Database, query: string, filterSql: string, params: string[]): ProvisionRow[] {
+  const sanitized = sanitizeFtsInput(query);
+  for (const ftsQuery of buildFtsQueryVariants(sanitized)) {
+    try {
+      const rows = db.prepare(`
+        SELECT ${PROVISION_COLUMNS}
+        FROM provisions_fts
+        JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE provisions_fts MATCH ?${filterSql}
+        ORDER BY bm25(provisions_fts), lp.id
+        LIMIT ?
+      `).all(ftsQuery, ...params, QUERY_CANDIDATES) as ProvisionRow[];
+      if (rows.length > 0) return rows;
+    } catch {
+      // FTS query syntax error — try next variant
+    }
+  }
+
+  return db.prepare(`
+    SELECT ${PROVISION_COLUMNS}
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.content LIKE ? COLLATE NOCASE${filterSql}
+    ORDER BY lp.id
+    LIMIT ?
+  `).all(buildLikePattern(sanitized), ...params, QUERY_CANDIDATES) as ProvisionRow[];
+}
+
+interface DutySource {
+  paragraph: string | null;
+  /** Paragraph (or article) text without its items */
+  text: string;
+  items: string[];
+}
+
+/**
+ * The texts to read duties from: each paragraph (항) with its items (호), or
+ * the article text for articles without paragraphs.
+ */
+function dutySources(provision: ProvisionRow, units: UnitRow[]): DutySource[] {
+  const itemsOf = (paragraph: string | null) => units
+    .filter(u => u.unit_type === 'item' && u.paragraph === paragraph)
+    .map(u => u.content);
+
+  const paragraphs = units.filter(u => u.unit_type === 'paragraph');
+  if (paragraphs.length > 0) {
+    return paragraphs.map(p => ({
+      paragraph: p.paragraph,
+      text: p.content.replace(/^\s*[①-⑳]\s*/, ''),
+      items: itemsOf(p.paragraph),
+    }));
+  }
+
+  const items = itemsOf(null);
+  let text = provision.content.replace(HEADING, '');
+  const firstItem = items.length > 0 ? text.indexOf(items[0]) : -1;
+  if (firstItem > 0) text = text.slice(0, firstItem);
+  return [{ paragraph: null, text, items }];
+}
@@ -0,0 +1,223 @@
+/**
+ * get_amendment_history — Revisions (제정/개정) of a statute or of one article.
+ *
+ * Revisions come from the revisions table (제개정구분, 공포번호, dates). The
+ * articles a revision changed are derived from provision_versions: a version
+ * opening on the revision's effective date was added or amended by it, a
+ * version closing on that date without a successor was deleted by it.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeIsoDate } from '../utils/as-of-date.js';
+import { detectCapabilities } from '../capabilities.js';
+import { articleOrderSql, articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+
+export interface GetAmendmentHistoryInput {
+  law_identifier: string;
+  article?: string;
+  from_date?: string;
+  to_date?: string;
+}
+
+export interface ProvisionChange {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  change: 'added' | 'amended' | 'deleted';
+}
+
+export interface AmendmentRevision {
+  promulgation_number: string | null;
+  promulgation_date: string | null;
+  effective_date: string | null;
+  /** 제정, 일부개정, 전부개정, 타법개정, ... */
+  revision_type: string | null;
+  /** Articles changed by this revision; null when unknown (earliest recorded version) */
+  changes: ProvisionChange[] | null;
+}
+
+export interface GetAmendmentHistoryResult {
+  document_id: string;
+  document_title: string;
+  /** Set when the history is limited to one article */
+  provision_ref?: string;
+  /** Newest first */
+  revisions: AmendmentRevision[];
+}
+
+interface RevisionRow {
+  promulgation_number: string | null;
+  promulgation_date: string | null;
+  effective_date: string | null;
+  revision_type: string | null;
+}
+
+interface VersionRow {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+export async function getAmendmentHistory(
+  db: Database,
+  input: GetAmendmentHistoryInput
+): Promise<ToolResponse<GetAmendmentHistoryResult>> {
+  if (!input.law_identifier) {
+    throw new Error('law_identifier is required');
+  }
+
+  const fromDate = normalizeIsoDate(input.from_date, 'from_date');
+  const toDate = normalizeIsoDate(input.to_date, 'to_date');
+
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const doc = db.prepare(`
+    SELECT id, title, law_number, issued_date, in_force_date
+    FROM legal_documents WHERE id = ?
+  `).get(resolvedId) as { id: string; title: string; law_number: string | null; issued_date: string | null; in_force_date: string | null };
+
+  const metadata = generateResponseMetadata(db);
+  const warnings: string[] = [];
+  const capabilities = detectCapabilities(db);
+
+  let revisionRows: RevisionRow[];
+  if (capabilities.has('revisions')) {
+    revisionRows = db.prepare(`
+      SELECT promulgation_number, promulgation_date, effective_date, revision_type
+      FROM revisions
+      WHERE document_id = ?
+    `).all(resolvedId) as RevisionRow[];
+  } else {
+    revisionRows = [{
+      promulgation_number: doc.law_number,
+      promulgation_date: doc.issued_date,
+      effective_date: doc.in_force_date,
+      revision_type: null,
+    }];
+    warnings.push('This database has no revisions table; only the current version of the statute is listed.');
+  }
+
+  // Changes per effective date, from the article version windows
+  let changesByDate: Map<string, ProvisionChange[]> | undefined;
+  let earliestDate: string | null = null;
+  let provisionRef: string | undefined;
+
+  if (capabilities.has('provision_versions')) {
+    const articleFilter = input.article
+      ? ' AND (provision_ref = ? OR provision_ref = ? OR section = ? OR section = ?)'
+      : '';
+    const articleParams = input.article
+      ? [input.article, articleProvisionRef(input.article), input.article, koreanArticleLabel(input.article)]
+      : [];
+
+    const versions = db.prepare(`
+      SELECT provision_ref, section, title, valid_from, valid_to
+      FROM provision_versions
+      WHERE document_id = ?${articleFilter}
+      ORDER BY ${articleOrderSql('provision_ref')}, valid_from
+    `).all(resolvedId, ...articleParams) as VersionRow[];
+
+    if (input.article) {
+      if (versions.length === 0) {
+        metadata.warnings = [`Article ${input.article} not found in ${doc.title}.`];
+        return {
+          results: { document_id: doc.id, document_title: doc.title, revisions: [] },
+          _metadata: metadata,
+        };
+      }
+      provisionRef = versions[0].provision_ref;
+    }
+
+    const earliest = db.prepare(
+      'SELECT MIN(valid_from) as earliest FROM provision_versions WHERE document_id = ?'
+    ).get(resolvedId) as { earliest: string | null };
+    earliestDate = earliest.earliest;
+
+    changesByDate = collectChanges(versions);
+  } else {
+    warnings.push('Article-level changes unavailable: this database was built without provision history.');
+  }
+
+  // Revisions known only from article history still belong in the list
+  const byDate = new Map<string, RevisionRow[]>();
+  for (const row of revisionRows) {
+    const key = row.effective_date ?? '';
+    byDate.set(key, [...(byDate.get(key) ?? []), row]);
+  }
+  for (const date of changesByDate?.keys() ?? []) {
+    if (!byDate.has(date)) {
+      byDate.set(date, [{ promulgation_number: null, promulgation_date: null, effective_date: date, revision_type: null }]);
+    }
+  }
+
+  let revisions: AmendmentRevision[] = [...byDate.values()].flat().map(row => {
+    const date = row.effective_date ?? '';
+    const known = changesByDate && date && earliestDate !== null && date > earliestDate;
+    return { ...row, changes: known ? changesByDate!.get(date) ?? [] : null };
+  });
+
+  if (provisionRef) {
+    // Only the revisions that touched the article, plus its earliest recorded text
+    revisions = revisions.filter(r => r.changes === null ? changesByDate?.has(r.effective_date ?? '') : r.changes.length > 0);
+  }
+
+  revisions = revisions
+    .filter(r => (!fromDate || (r.effective_date ?? '') >= fromDate) && (!toDate || (r.effective_date ?? '') <= toDate))
+    .sort((a, b) => (b.effective_date ?? '').localeCompare(a.effective_date ?? ''));
+
+  if (byDate.size <= 1 && !input.article) {
+    warnings.push('Only one revision is recorded for this statute; rebuild with `npm run ingest -- --history` for the full amendment history.');
+  }
+  if (warnings.length > 0) {
+    metadata.warnings = warnings;
+  }
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      ...(provisionRef ? { provision_ref: provisionRef } : {}),
+      revisions,
+    },
+    _metadata: metadata,
+  };
+}
+
+/**
+ * Group version windows into the changes made on each date. Windows are
+ * half-open, so an amendment closes the old version and opens the new one on
+ * the same date.
+ */
+function collectChanges(versions: VersionRow[]): Map<string, ProvisionChange[]> {
+  // Refs whose window opens / closes on each date
+  const opened = new Set(versions.filter(v => v.valid_from).map(v => `${v.valid_from}::${v.provision_ref}`));
+  const closed = new Set(versions.filter(v => v.valid_to).map(v => `${v.valid_to}::${v.provision_ref}`));
+
+  const changes = new Map<string, ProvisionChange[]>();
+  const add = (date: string, change: ProvisionChange) => {
+    changes.set(date, [...(changes.get(date) ?? []), change]);
+  };
+
+  for (const v of versions) {
+    if (v.valid_from) {
+      add(v.valid_from, {
+        provision_ref: v.provision_ref,
+        section: v.section,
+        title: v.title,
+        change: closed.has(`${v.valid_from}::${v.provision_ref}`) ? 'amended' : 'added',
+      });
+    }
+    if (v.valid_to && !opened.has(`${v.valid_to}::${v.provision_ref}`)) {
+      add(v.valid_to, { provision_ref: v.provision_ref, section: v.section, title: v.title, change: 'deleted' });
+    }
+  }
+
+  return changes;
+}
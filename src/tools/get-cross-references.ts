@@ -0,0 +1,81 @@
+/**
+ * get_cross_references — Outgoing and incoming citations for a provision.
+ *
+ * Outgoing: the articles this provision cites ("제17조제1항에 따라",
+ * "「신용정보의 이용 및 보호에 관한 법률」 제32조"). Incoming: the articles
+ * that cite it, in this law or any other law in the database.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { findLinkedProvisions, type CrossReferenceType, type LinkedProvision } from '../utils/cross-references.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+
+export interface GetCrossReferencesInput {
+  law_identifier: string;
+  article: string;
+  direction?: 'outgoing' | 'incoming' | 'both';
+  ref_types?: CrossReferenceType[];
+}
+
+export interface GetCrossReferencesResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  /** Provisions this provision cites */
+  outgoing?: LinkedProvision[];
+  /** Provisions citing this provision */
+  incoming?: LinkedProvision[];
+}
+
+export async function getCrossReferences(
+  db: Database,
+  input: GetCrossReferencesInput
+): Promise<ToolResponse<GetCrossReferencesResult | null>> {
+  if (!input.law_identifier) {
+    throw new Error('law_identifier is required');
+  }
+  if (!input.article) {
+    throw new Error('article is required');
+  }
+
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const articleRef = articleProvisionRef(input.article);
+  const koreanRef = koreanArticleLabel(input.article);
+
+  const provision = db.prepare(`
+    SELECT lp.document_id, ld.title as document_title, lp.provision_ref, lp.section, lp.title
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.document_id = ?
+      AND (lp.provision_ref = ? OR lp.provision_ref = ? OR lp.section = ? OR lp.section = ?)
+    LIMIT 1
+  `).get(resolvedId, articleRef, koreanRef, input.article, koreanRef) as
+    { document_id: string; document_title: string; provision_ref: string; section: string; title: string | null } | undefined;
+
+  const metadata = generateResponseMetadata(db);
+
+  if (!provision) {
+    metadata.warnings = [`Article ${input.article} not found in ${input.law_identifier}.`];
+    return { results: null, _metadata: metadata };
+  }
+
+  const direction = input.direction ?? 'both';
+  const result: GetCrossReferencesResult = { ...provision };
+
+  if (direction !== 'incoming') {
+    result.outgoing = findLinkedProvisions(db, 'outgoing', provision.document_id, provision.provision_ref, input.ref_types);
+  }
+  if (direction !== 'outgoing') {
+    result.incoming = findLinkedProvisions(db, 'incoming', provision.document_id, provision.provision_ref, input.ref_types);
+  }
+
+  return { results: result, _metadata: metadata };
+}
@@ -0,0 +1,156 @@
+/**
+ * get_definitions — Look up a defined term (정의) across all statutes.
+ *
+ * Definitions come from definition articles (제2조(정의) and the like),
+ * extracted by build-db into the definitions table. The same term is often
+ * defined differently from one Act to the next ("가명정보" in PIPA vs. the
+ * Credit Information Act), so each definition is tagged with a variant
+ * number: definitions sharing a variant have identical wording.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+import { formatCitation } from '../citation/formatter.js';
+
+export interface GetDefinitionsInput {
+  term: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionEntry {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  provision_ref: string;
+  /** Korean pinpoint of the definition, e.g. 제2조제1호 */
+  pinpoint: string;
+  term: string;
+  definition: string;
+  /** Definitions with the same variant number have identical wording */
+  variant: number;
+  /** Law the definition defers to ("「개인정보 보호법」 제2조제1호에 따른 개인정보를 말한다") */
+  borrowed_from: string | null;
+}
+
+export interface GetDefinitionsResult {
+  term: string;
+  definitions: DefinitionEntry[];
+  /** Number of distinct wordings among the definitions */
+  distinct_definitions: number;
+  /** Other defined terms containing the query (e.g. 처리 → 가명처리) */
+  related_terms: string[];
+}
+
+interface DefinitionRow {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  provision_ref: string;
+  paragraph: string | null;
+  item: string | null;
+  term: string;
+  definition: string;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_RELATED_TERMS = 20;
+
+/** 「개인정보 보호법」 제2조제1호에 따른 ... 을 말한다 */
+const BORROWED_DEFINITION = /「([^」]+)」\s*(제\d+조(?:의\d+)?(?:제\d+항)?(?:제\d+호(?:의\d+)?)?)에\s*따른/;
+
+export async function getDefinitions(
+  db: Database,
+  input: GetDefinitionsInput
+): Promise<ToolResponse<GetDefinitionsResult>> {
+  const term = input.term?.trim().replace(/^["“「]|["”」]$/g, '');
+  if (!term) {
+    throw new Error('term is required');
+  }
+
+  const metadata = generateResponseMetadata(db);
+  const empty: GetDefinitionsResult = { term, definitions: [], distinct_definitions: 0, related_terms: [] };
+
+  if (!detectCapabilities(db).has('definitions')) {
+    metadata.warnings = ['Definition lookup unavailable: this database has no definitions table.'];
+    return { results: empty, _metadata: metadata };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const termKey = term.replace(/\s+/g, '');
+
+  let documentFilter = '';
+  const params: (string | number)[] = [termKey];
+  if (input.document_id) {
+    const resolvedId = resolveDocumentId(db, input.document_id);
+    if (!resolvedId) {
+      throw new Error(`Document "${input.document_id}" not found in database`);
+    }
+    documentFilter = ' AND d.document_id = ?';
+    params.push(resolvedId);
+  }
+
+  const rows = db.prepare(`
+    SELECT d.document_id, ld.title as document_title, ld.type as document_type,
+           d.provision_ref, d.paragraph, d.item, d.term, d.definition
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE d.term_key = ?${documentFilter}
+    ORDER BY CASE ld.type WHEN 'statute' THEN 0 WHEN 'presidential_decree' THEN 1 ELSE 2 END, ld.title, d.id
+    LIMIT ?
+  `).all(...params, limit) as DefinitionRow[];
+
+  const related = db.prepare(`
+    SELECT DISTINCT d.term
+    FROM definitions d
+    WHERE instr(d.term_key, ?) > 0 AND d.term_key != ?${documentFilter}
+    ORDER BY length(d.term_key), d.term
+    LIMIT ?
+  `).all(termKey, ...params, MAX_RELATED_TERMS) as { term: string }[];
+
+  const variants = new Map<string, number>();
+  const definitions = rows.map(row => {
+    const wording = row.definition.replace(/\s+/g, '');
+    if (!variants.has(wording)) variants.set(wording, variants.size + 1);
+    const borrowed = row.definition.match(BORROWED_DEFINITION);
+
+    return {
+      document_id: row.document_id,
+      document_title: row.document_title,
+      document_type: row.document_type,
+      provision_ref: row.provision_ref,
+      pinpoint: formatCitation({
+        valid: true,
+        type: 'statute',
+        article: row.provision_ref.replace(/^art-/, ''),
+        paragraph: row.paragraph ?? undefined,
+        item: row.item ?? undefined,
+      }, 'pinpoint'),
+      term: row.term,
+      definition: row.definition,
+      variant: variants.get(wording)!,
+      borrowed_from: borrowed ? `「${borrowed[1]}」 ${borrowed[2]}` : null,
+    };
+  });
+
+  if (definitions.length === 0) {
+    metadata.warnings = [
+      related.length > 0
+        ? `No definition of "${term}" found; see related_terms for defined terms containing it.`
+        : `No definition of "${term}" found.`,
+    ];
+  }
+
+  return {
+    results: {
+      term,
+      definitions,
+      distinct_definitions: variants.size,
+      related_terms: related.map(r => r.term),
+    },
+    _metadata: metadata,
+  };
+}
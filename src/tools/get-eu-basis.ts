@@ -5,7 +5,7 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import type { EUBasisDocument } from '../types/index.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
-import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
 
 export interface GetEUBasisInput {
   document_id: string;
@@ -33,7 +33,7 @@ export async function getEUBasis(
     throw new Error('document_id is required');
   }
 
-  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  const resolvedId = resolveDocumentId(db, input.document_id);
   if (!resolvedId) {
     throw new Error(`Document "${input.document_id}" not found in database`);
   }
@@ -0,0 +1,136 @@
+/**
+ * get_implementing_rules — Follow the delegation chain 법률 → 시행령 → 시행규칙.
+ *
+ * Links are the `implements` rows in cross_references, written by build-db
+ * from back-citations such as "법 제29조에 따라" in an Enforcement Decree.
+ * Ordinance articles that implement a decree article are followed one more
+ * hop, so an Act article also lists the 시행규칙 articles beneath it.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { findLinkedProvisions, type LinkedProvision } from '../utils/cross-references.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+
+export interface GetImplementingRulesInput {
+  law_identifier: string;
+  article: string;
+}
+
+export interface ImplementingProvision extends LinkedProvision {
+  /** Intermediate decree article when the link spans two levels */
+  via?: string;
+}
+
+export interface GetImplementingRulesResult {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  /** Delegation phrases in the article text, e.g. "대통령령으로 정하는" */
+  delegations: string[];
+  /** Decree and ordinance articles implementing this article */
+  implemented_by: ImplementingProvision[];
+  /** Act and decree articles this article implements */
+  implements: ImplementingProvision[];
+}
+
+/** 대통령령 (decree), 총리령 / ○○부령 (ordinance) followed by 정하는, 정한다, 정할 ... */
+const DELEGATION_PHRASE = /(?:대통령령|총리령|[가-힣]*부령)(?:으로|이)\s*정[하한할][가-힣]*/g;
+
+export async function getImplementingRules(
+  db: Database,
+  input: GetImplementingRulesInput
+): Promise<ToolResponse<GetImplementingRulesResult | null>> {
+  if (!input.law_identifier) {
+    throw new Error('law_identifier is required');
+  }
+  if (!input.article) {
+    throw new Error('article is required');
+  }
+
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const articleRef = articleProvisionRef(input.article);
+  const koreanRef = koreanArticleLabel(input.article);
+
+  const provision = db.prepare(`
+    SELECT lp.document_id, ld.title as document_title, ld.type as document_type,
+           lp.provision_ref, lp.section, lp.title, lp.content
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.document_id = ?
+      AND (lp.provision_ref = ? OR lp.provision_ref = ? OR lp.section = ? OR lp.section = ?)
+    LIMIT 1
+  `).get(resolvedId, articleRef, koreanRef, input.article, koreanRef) as
+    {
+      document_id: string; document_title: string; document_type: string;
+      provision_ref: string; section: string; title: string | null; content: string;
+    } | undefined;
+
+  const metadata = generateResponseMetadata(db);
+
+  if (!provision) {
+    metadata.warnings = [`Article ${input.article} not found in ${input.law_identifier}.`];
+    return { results: null, _metadata: metadata };
+  }
+
+  const implementedBy = followLinks(db, 'incoming', provision.document_id, provision.provision_ref);
+  const implementsLinks = followLinks(db, 'outgoing', provision.document_id, provision.provision_ref);
+  const delegations = [...new Set(provision.content.match(DELEGATION_PHRASE) ?? [])];
+
+  if (delegations.length > 0 && implementedBy.length === 0) {
+    metadata.warnings = [
+      `${provision.section} delegates to subordinate legislation, but no implementing article citing it was found in the database.`,
+    ];
+  }
+
+  return {
+    results: {
+      document_id: provision.document_id,
+      document_title: provision.document_title,
+      document_type: provision.document_type,
+      provision_ref: provision.provision_ref,
+      section: provision.section,
+      title: provision.title,
+      delegations,
+      implemented_by: implementedBy,
+      implements: implementsLinks,
+    },
+    _metadata: metadata,
+  };
+}
+
+/**
+ * Direct links plus one further hop through decree articles, which is as
+ * deep as the 법률 → 시행령 → 시행규칙 hierarchy goes.
+ */
+function followLinks(
+  db: Database,
+  direction: 'outgoing' | 'incoming',
+  documentId: string,
+  provisionRef: string,
+): ImplementingProvision[] {
+  const direct = findLinkedProvisions(db, direction, documentId, provisionRef, ['implements']);
+  const seen = new Set(direct.map(r => `${r.document_id}|${r.provision_ref}`));
+  const linked: ImplementingProvision[] = [...direct];
+
+  for (const hop of direct) {
+    if (hop.document_type !== 'presidential_decree') continue;
+
+    for (const row of findLinkedProvisions(db, direction, hop.document_id, hop.provision_ref, ['implements'])) {
+      const key = `${row.document_id}|${row.provision_ref}`;
+      if (seen.has(key) || (row.document_id === documentId && row.provision_ref === provisionRef)) continue;
+      seen.add(key);
+      linked.push({ ...row, via: `${hop.document_title} ${hop.section ?? hop.provision_ref}` });
+    }
+  }
+
+  return linked;
+}
@@ -5,7 +5,9 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import type { ProvisionEUReference } from '../types/index.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
-import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { mapEuRef } from '../utils/eu-basis.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
 
 export interface GetProvisionEUBasisInput {
   law_identifier: string;
@@ -28,7 +30,7 @@ export async function getProvisionEUBasis(
     throw new Error('law_identifier is required');
   }
 
-  const resolvedId = resolveExistingStatuteId(db, input.law_identifier);
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
   if (!resolvedId) {
     throw new Error(`Document "${input.law_identifier}" not found in database`);
   }
@@ -67,8 +69,8 @@ export async function getProvisionEUBasis(
   }
 
   // Look up specific provision
-  const articleRef = `art-${input.provision_ref}`;
-  const koreanRef = `제${input.provision_ref}조`;
+  const articleRef = articleProvisionRef(input.provision_ref);
+  const koreanRef = koreanArticleLabel(input.provision_ref);
 
   const provision = db.prepare(
     'SELECT id, content FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ? OR section = ?) LIMIT 1'
@@ -106,22 +108,3 @@ export async function getProvisionEUBasis(
     _metadata: generateResponseMetadata(db),
   };
 }
-
-interface RefRow {
-  id: string; type: 'directive' | 'regulation'; title: string | null;
-  short_name: string | null; eu_article: string | null;
-  reference_type: string; full_citation: string | null; reference_context: string | null;
-}
-
-function mapEuRef(r: RefRow): ProvisionEUReference {
-  const ref: ProvisionEUReference = {
-    id: r.id, type: r.type,
-    reference_type: r.reference_type as any,
-    full_citation: r.full_citation || r.id,
-  };
-  if (r.title) ref.title = r.title;
-  if (r.short_name) ref.short_name = r.short_name;
-  if (r.eu_article) ref.article = r.eu_article;
-  if (r.reference_context) ref.context = r.reference_context;
-  return ref;
-}
@@ -3,14 +3,29 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import { resolveExistingStatuteId } from '../utils/statute-id.js';
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import { buildProvisionCitation } from '../utils/citation.js';
+import { normalizeAsOfDate, VERSION_IN_FORCE_SQL, AS_OF_UNSUPPORTED_WARNING } from '../utils/as-of-date.js';
+import { detectCapabilities } from '../capabilities.js';
+import { findProvisionUnits, hasPinpoint, type ProvisionUnit } from '../utils/provision-units.js';
+import { formatCitation } from '../citation/formatter.js';
+import { findHeadings, normalizeHeadingRef, UNDER_HEADING_SQL } from '../utils/headings.js';
+import { decodeCursor, encodeCursor, requestFingerprint } from '../utils/cursor.js';
+import { addTranslationStatus, type TranslationStatus } from '../utils/translation-status.js';
+import { articleOrderSql, articleProvisionRef, koreanArticleLabel, normalizeArticle } from '../utils/article-ref.js';
+import { deletionWarning, findDeletions, type ProvisionDeletion } from '../utils/deletions.js';
 
 export interface GetProvisionInput {
   law_identifier: string;
   article?: string;
+  chapter?: string;
   paragraph?: string;
+  item?: string;
+  sub_item?: string;
+  as_of_date?: string;
+  /** next_cursor from a previous response, to page through a whole statute */
+  cursor?: string;
 }
 
 export interface ProvisionResult {
@@ -27,6 +42,16 @@ export interface ProvisionResult {
   text: string;
   text_en: string | null;
   citation_url: string;
+  valid_from: string | null;
+  valid_to: string | null;
+  /** Korean pinpoint (e.g. 제15조제1항제2호) when a paragraph/item was requested */
+  pinpoint?: string;
+  /** The requested 항/호/목 and its descendants; text then holds only their content */
+  units?: ProvisionUnit[];
+  /** Status of text_en against the Korean text; null when there is no recorded translation */
+  translation?: TranslationStatus | null;
+  /** Set when the article is a deleted stub (삭제) in the current text */
+  deleted?: ProvisionDeletion;
 }
 
 interface ProvisionRow {
@@ -41,11 +66,56 @@ interface ProvisionRow {
   content: string;
   content_en: string | null;
   url: string | null;
+  valid_from: string | null;
+  valid_to: string | null;
 }
 
-/** Safety cap when returning all provisions for a statute */
+/** Page size when returning all provisions for a statute; later pages via next_cursor */
 const MAX_ALL_PROVISIONS = 200;
 
+const CURRENT_SELECT = `
+  SELECT
+    lp.document_id,
+    ld.title as document_title,
+    ld.title_en as document_title_en,
+    ld.status as document_status,
+    lp.provision_ref,
+    lp.chapter,
+    lp.section,
+    lp.title,
+    lp.content,
+    lp.content_en,
+    ld.url,
+    lp.valid_from,
+    lp.valid_to
+  FROM legal_provisions lp
+  JOIN legal_documents ld ON ld.id = lp.document_id
+`;
+
+/**
+ * Historical text comes from provision_versions. The English translation
+ * only describes the current text, so it is dropped for superseded versions.
+ */
+const AS_OF_SELECT = `
+  SELECT
+    pv.document_id,
+    ld.title as document_title,
+    ld.title_en as document_title_en,
+    ld.status as document_status,
+    pv.provision_ref,
+    lp.chapter,
+    pv.section,
+    pv.title,
+    pv.content,
+    CASE WHEN pv.valid_to IS NULL THEN lp.content_en END as content_en,
+    ld.url,
+    pv.valid_from,
+    pv.valid_to
+  FROM provision_versions pv
+  JOIN legal_documents ld ON ld.id = pv.document_id
+  LEFT JOIN legal_provisions lp ON lp.document_id = pv.document_id AND lp.provision_ref = pv.provision_ref
+`;
+
 export async function getProvision(
   db: Database,
   input: GetProvisionInput
@@ -54,78 +124,170 @@ export async function getProvision(
     throw new Error('law_identifier is required');
   }
 
-  const resolvedDocumentId = resolveExistingStatuteId(db, input.law_identifier) ?? input.law_identifier;
+  const resolvedDocumentId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedDocumentId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const article = input.article ? normalizeArticle(input.article) : undefined;
+  const metadata = generateResponseMetadata(db);
 
-  const article = input.article;
+  // Point-in-time lookups read provision_versions; older databases lack it
+  let asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (asOfDate && !detectCapabilities(db).has('provision_versions')) {
+    metadata.warnings = [AS_OF_UNSUPPORTED_WARNING];
+    asOfDate = undefined;
+  }
 
-  // If no specific article, return all provisions for the document (with safety cap)
+  // If no specific article, return all provisions for the document (or one
+  // 편/장/절/관 of it) with a safety cap
   if (!article) {
-    const countRow = db.prepare(
-      'SELECT COUNT(*) as count FROM legal_provisions WHERE document_id = ?'
-    ).get(resolvedDocumentId) as { count: number } | undefined;
-    const total = countRow?.count ?? 0;
-
-    const rows = db.prepare(`
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        ld.title_en as document_title_en,
-        ld.status as document_status,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        lp.content,
-        lp.content_en,
-        ld.url
-      FROM legal_provisions lp
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE lp.document_id = ?
-      ORDER BY lp.id
-      LIMIT ?
-    `).all(resolvedDocumentId, MAX_ALL_PROVISIONS) as ProvisionRow[];
+    let rows: ProvisionRow[];
+    let total: number;
+
+    let headingFilter = '';
+    const headingParams: string[] = [];
+    if (input.chapter) {
+      const ref = normalizeHeadingRef(input.chapter);
+      if (!detectCapabilities(db).has('headings')) {
+        metadata.warnings = [
+          ...(metadata.warnings ?? []),
+          'Chapter lookup unavailable: this database has no 편/장/절/관 headings. Returning all provisions.',
+        ];
+      } else {
+        const headings = ref ? findHeadings(db, resolvedDocumentId, ref) : [];
+        if (headings.length === 0) {
+          metadata.warnings = [
+            ...(metadata.warnings ?? []),
+            `Chapter "${input.chapter}" not found. Use get_table_of_contents to list the headings of this statute.`,
+          ];
+          return { results: null, _metadata: metadata };
+        }
+        if (headings.length > 1) {
+          metadata.warnings = [
+            ...(metadata.warnings ?? []),
+            `Chapter "${input.chapter}" is ambiguous (${headings.map(h => h.heading_ref).join(', ')}); returning ${headings[0].heading_ref}.`,
+          ];
+        }
+        headingFilter = ` AND ${UNDER_HEADING_SQL}`;
+        headingParams.push(headings[0].heading_ref, headings[0].heading_ref);
+      }
+    }
+
+    const fingerprint = requestFingerprint({
+      document_id: resolvedDocumentId,
+      chapter: input.chapter,
+      as_of_date: asOfDate,
+    });
+    const offset = input.cursor ? decodeCursor(input.cursor, fingerprint).offset : 0;
+
+    if (asOfDate) {
+      const countRow = db.prepare(`
+        SELECT COUNT(*) as count FROM provision_versions pv
+        LEFT JOIN legal_provisions lp ON lp.document_id = pv.document_id AND lp.provision_ref = pv.provision_ref
+        WHERE pv.document_id = ? AND ${VERSION_IN_FORCE_SQL}${headingFilter}
+      `).get(resolvedDocumentId, asOfDate, asOfDate, ...headingParams) as { count: number } | undefined;
+      total = countRow?.count ?? 0;
+
+      // Superseded articles have no legal_provisions row, so order by the article number itself
+      rows = db.prepare(`${AS_OF_SELECT}
+        WHERE pv.document_id = ? AND ${VERSION_IN_FORCE_SQL}${headingFilter}
+        ORDER BY ${articleOrderSql('pv.provision_ref')}
+        LIMIT ? OFFSET ?
+      `).all(resolvedDocumentId, asOfDate, asOfDate, ...headingParams, MAX_ALL_PROVISIONS, offset) as ProvisionRow[];
+    } else {
+      const countRow = db.prepare(
+        `SELECT COUNT(*) as count FROM legal_provisions lp WHERE lp.document_id = ?${headingFilter}`
+      ).get(resolvedDocumentId, ...headingParams) as { count: number } | undefined;
+      total = countRow?.count ?? 0;
+
+      rows = db.prepare(`${CURRENT_SELECT}
+        WHERE lp.document_id = ?${headingFilter}
+        ORDER BY lp.id
+        LIMIT ? OFFSET ?
+      `).all(resolvedDocumentId, ...headingParams, MAX_ALL_PROVISIONS, offset) as ProvisionRow[];
+    }
 
     const mapped = rows.map(r => mapRow(r));
+    addTranslationStatus(db, mapped, metadata);
+    addDeletionStatus(db, mapped, metadata, false);
 
     if (total > MAX_ALL_PROVISIONS) {
+      // truncated: more articles follow on the page behind next_cursor
+      const consumed = offset + rows.length;
+      const truncated = consumed < total;
+      if (truncated) {
+        metadata.next_cursor = encodeCursor({ offset: consumed }, fingerprint);
+      }
       return {
-        results: { provisions: mapped, truncated: true, total },
-        _metadata: generateResponseMetadata(db),
+        results: { provisions: mapped, truncated, total },
+        _metadata: metadata,
       };
     }
 
-    return { results: mapped, _metadata: generateResponseMetadata(db) };
+    return { results: mapped, _metadata: metadata };
   }
 
   // Build article reference variants
-  const articleRef = `art-${article}`;
-  const koreanRef = `제${article}조`;
-
-  const rows = db.prepare(`
-    SELECT
-      lp.document_id,
-      ld.title as document_title,
-      ld.title_en as document_title_en,
-      ld.status as document_status,
-      lp.provision_ref,
-      lp.chapter,
-      lp.section,
-      lp.title,
-      lp.content,
-      lp.content_en,
-      ld.url
-    FROM legal_provisions lp
-    JOIN legal_documents ld ON ld.id = lp.document_id
-    WHERE lp.document_id = ?
-      AND (lp.provision_ref = ? OR lp.provision_ref = ? OR lp.section = ? OR lp.section = ?)
-  `).all(resolvedDocumentId, articleRef, koreanRef, article, koreanRef) as ProvisionRow[];
+  const articleRef = articleProvisionRef(article);
+  const koreanRef = koreanArticleLabel(article);
+
+  const rows = asOfDate
+    ? db.prepare(`${AS_OF_SELECT}
+        WHERE pv.document_id = ?
+          AND (pv.provision_ref = ? OR pv.provision_ref = ? OR pv.section = ? OR pv.section = ?)
+          AND ${VERSION_IN_FORCE_SQL}
+      `).all(resolvedDocumentId, articleRef, koreanRef, article, koreanRef, asOfDate, asOfDate) as ProvisionRow[]
+    : db.prepare(`${CURRENT_SELECT}
+        WHERE lp.document_id = ?
+          AND (lp.provision_ref = ? OR lp.provision_ref = ? OR lp.section = ? OR lp.section = ?)
+      `).all(resolvedDocumentId, articleRef, koreanRef, article, koreanRef) as ProvisionRow[];
 
   if (rows.length === 0) {
-    return { results: null, _metadata: generateResponseMetadata(db) };
+    if (asOfDate) {
+      metadata.warnings = [
+        ...(metadata.warnings ?? []),
+        `Article ${article} has no recorded text in force on ${asOfDate}.`,
+      ];
+    }
+    return { results: null, _metadata: metadata };
   }
 
   if (rows.length === 1) {
     const mapped = mapRow(rows[0]);
+    addTranslationStatus(db, [mapped], metadata);
+    addDeletionStatus(db, [mapped], metadata, true);
+
+    const pinpoint = { paragraph: input.paragraph, item: input.item, sub_item: input.sub_item };
+    if (hasPinpoint(pinpoint)) {
+      const pinpointText = formatCitation({ valid: true, type: 'statute', article, ...pinpoint }, 'pinpoint');
+
+      if (mapped.valid_to) {
+        // The 항/호/목 tree is only stored for the current text
+        metadata.warnings = [
+          ...(metadata.warnings ?? []),
+          `${pinpointText} cannot be isolated in superseded text; returning the whole article as in force on ${asOfDate}.`,
+        ];
+      } else if (!detectCapabilities(db).has('provision_units')) {
+        metadata.warnings = [
+          ...(metadata.warnings ?? []),
+          'Paragraph/item lookup unavailable: this database has no paragraph-level data. Returning the whole article.',
+        ];
+      } else {
+        const units = findProvisionUnits(db, mapped.document_id, mapped.provision_ref, pinpoint);
+        if (units.length === 0) {
+          metadata.warnings = [
+            ...(metadata.warnings ?? []),
+            `${pinpointText} not found in ${mapped.document_title}.`,
+          ];
+          return { results: null, _metadata: metadata };
+        }
+        mapped.pinpoint = pinpointText;
+        mapped.units = units;
+        mapped.text = units.map(u => u.text).join(' ');
+      }
+    }
+
     return {
       results: mapped,
       _citation: buildProvisionCitation(
@@ -137,15 +299,42 @@ export async function getProvision(
         mapped.citation_url || null,
         mapped.document_title_en || null,
       ),
-      _metadata: generateResponseMetadata(db),
+      _metadata: metadata,
     };
   }
 
-  return { results: rows.map(r => mapRow(r)), _metadata: generateResponseMetadata(db) };
+  const mapped = rows.map(r => mapRow(r));
+  addTranslationStatus(db, mapped, metadata);
+  addDeletionStatus(db, mapped, metadata, true);
+  return { results: mapped, _metadata: metadata };
+}
+
+/**
+ * Mark deleted-article stubs (삭제) of the current text. Requested articles
+ * also get a warning; listings of a whole statute only carry the flag.
+ */
+function addDeletionStatus(db: Database, provisions: ProvisionResult[], metadata: ResponseMetadata, warn: boolean): void {
+  // Superseded versions predate the deletion
+  const current = provisions.filter(p => !p.valid_to);
+  if (current.length === 0) return;
+
+  const deletions = findDeletions(db, current[0].document_id, current.map(p => p.provision_ref));
+  for (const provision of current) {
+    const deletion = deletions.get(provision.provision_ref);
+    if (!deletion) continue;
+    provision.deleted = deletion;
+    if (warn) {
+      metadata.warnings = [
+        ...(metadata.warnings ?? []),
+        deletionWarning(`${provision.document_title} ${provision.section}`, deletion),
+      ];
+    }
+  }
 }
 
 function mapRow(row: ProvisionRow): ProvisionResult {
-  const articleMatch = row.provision_ref.match(/art-(\d+(?:-\d+)?)/);
+  // Addendum refs ("add-19234-art-1") keep their section ("부칙 제1조") as the number
+  const articleMatch = row.provision_ref.match(/^art-(\d+(?:-\d+)?)$/);
   const koreanMatch = row.provision_ref.match(/제(\d+(?:의\d+)?)조/);
   const articleNumber = articleMatch?.[1] ?? koreanMatch?.[1] ?? row.section;
 
@@ -166,5 +355,7 @@ function mapRow(row: ProvisionRow): ProvisionResult {
     text: row.content,
     text_en: row.content_en,
     citation_url: citationUrl,
+    valid_from: row.valid_from,
+    valid_to: row.valid_to,
   };
 }
@@ -0,0 +1,163 @@
+/**
+ * get_sanctions — Penalties for violating a Korean statute or one of its articles.
+ *
+ * Sanctions come from the sanction articles of each Act (벌칙 chapters,
+ * 과태료 and 과징금 articles), extracted by build-db into the sanctions table
+ * with the penalty, its maximum and the article whose violation it punishes.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+import { formatCitation } from '../citation/formatter.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
+
+export type SanctionType = 'criminal' | 'administrative_fine' | 'penalty_surcharge';
+
+export interface GetSanctionsInput {
+  law_identifier: string;
+  /** Violated article ("28-8", "28의8", "제28조의8"); omit for every sanction of the law */
+  article?: string;
+  sanction_type?: SanctionType;
+}
+
+export interface SanctionEntry {
+  /** The sanction article, e.g. art-75 */
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  /** Pinpoint of the punished conduct, e.g. 제75조제2항제6호 */
+  pinpoint: string;
+  sanction_type: SanctionType;
+  /** The penalty as written, e.g. "5년 이하의 징역 또는 5천만원 이하의 벌금" */
+  penalty: string;
+  max_imprisonment_years: number | null;
+  max_fine_krw: number | null;
+  /** Cap stated as a share of turnover, e.g. "전체 매출액의 100분의 3" */
+  revenue_share: string | null;
+  violated_provision_ref: string | null;
+  violated_section: string | null;
+  violated_title: string | null;
+  /** The violated pinpoint as cited in the sanction article */
+  violated_citation: string | null;
+  conduct: string;
+}
+
+export interface GetSanctionsResult {
+  document_id: string;
+  document_title: string;
+  /** The requested article, when one was given */
+  article: { provision_ref: string; section: string; title: string | null } | null;
+  sanctions: SanctionEntry[];
+}
+
+interface SanctionRow {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  paragraph: string | null;
+  item: string | null;
+  sanction_type: SanctionType;
+  penalty: string;
+  max_imprisonment_years: number | null;
+  max_fine_krw: number | null;
+  revenue_share: string | null;
+  violated_provision_ref: string | null;
+  violated_section: string | null;
+  violated_title: string | null;
+  violated_citation: string | null;
+  conduct: string;
+}
+
+/** Criminal penalties first, then fines and surcharges, each in article order */
+const SANCTION_ORDER = "CASE s.sanction_type WHEN 'criminal' THEN 0 WHEN 'administrative_fine' THEN 1 ELSE 2 END";
+
+export async function getSanctions(
+  db: Database,
+  input: GetSanctionsInput
+): Promise<ToolResponse<GetSanctionsResult | null>> {
+  if (!input.law_identifier) {
+    throw new Error('law_identifier is required');
+  }
+
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?')
+    .get(resolvedId) as { id: string; title: string };
+  const metadata = generateResponseMetadata(db);
+
+  if (!detectCapabilities(db).has('sanctions')) {
+    metadata.warnings = ['Sanction lookup unavailable: this database has no sanctions table.'];
+    return { results: null, _metadata: metadata };
+  }
+
+  let article: GetSanctionsResult['article'] = null;
+  let filterSql = '';
+  const params: string[] = [resolvedId];
+
+  if (input.article?.trim()) {
+    const articleRef = articleProvisionRef(input.article);
+    const koreanRef = koreanArticleLabel(input.article);
+    article = db.prepare(`
+      SELECT provision_ref, section, title FROM legal_provisions
+      WHERE document_id = ? AND (provision_ref = ? OR section = ?)
+      LIMIT 1
+    `).get(resolvedId, articleRef, koreanRef) as GetSanctionsResult['article'] ?? null;
+
+    // Sanctions for violating the article, or those the article itself imposes.
+    // Sanctions can cite an article missing from the database, so look them up regardless.
+    const ref = article?.provision_ref ?? articleRef;
+    filterSql += ' AND (s.violated_provision_ref = ? OR s.provision_ref = ?)';
+    params.push(ref, ref);
+  }
+
+  if (input.sanction_type) {
+    filterSql += ' AND s.sanction_type = ?';
+    params.push(input.sanction_type);
+  }
+
+  const rows = db.prepare(`
+    SELECT s.provision_ref, lp.section, lp.title, s.paragraph, s.item,
+           s.sanction_type, s.penalty, s.max_imprisonment_years, s.max_fine_krw, s.revenue_share,
+           s.violated_provision_ref, vp.section as violated_section, vp.title as violated_title,
+           s.violated_citation, s.conduct
+    FROM sanctions s
+    JOIN legal_provisions lp ON lp.document_id = s.document_id AND lp.provision_ref = s.provision_ref
+    LEFT JOIN legal_provisions vp ON vp.document_id = s.document_id AND vp.provision_ref = s.violated_provision_ref
+    WHERE s.document_id = ?${filterSql}
+    ORDER BY ${SANCTION_ORDER}, lp.id, s.id
+  `).all(...params) as SanctionRow[];
+
+  if (rows.length === 0) {
+    metadata.warnings = [
+      !input.article?.trim()
+        ? `No sanction articles found in ${doc.title}.`
+        : article
+          ? `No sanction in ${doc.title} cites ${article.section} as violated. Penalties may be set by another law or by a general clause.`
+          : `Article ${input.article} not found in ${doc.title}.`,
+    ];
+  }
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: doc.title,
+      article,
+      sanctions: rows.map(({ paragraph, item, ...row }) => ({
+        ...row,
+        pinpoint: formatCitation({
+          valid: true,
+          type: 'statute',
+          article: row.provision_ref.replace(/^art-/, ''),
+          paragraph: paragraph ?? undefined,
+          item: item ?? undefined,
+        }, 'pinpoint'),
+      })),
+    },
+    _metadata: metadata,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * get_table_of_contents — Nested 편/장/절/관 outline of a statute with article ranges.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+import type { Heading } from '../utils/headings.js';
+
+export interface GetTableOfContentsInput {
+  law_identifier: string;
+  include_articles?: boolean;
+}
+
+export interface TocArticle {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+}
+
+export interface TocNode extends Heading {
+  /** First and last article under this heading, e.g. 제15조 … 제22조의2 */
+  first_article: string | null;
+  last_article: string | null;
+  article_count: number;
+  /** Articles directly under this heading (include_articles only) */
+  articles?: TocArticle[];
+  children: TocNode[];
+}
+
+export interface GetTableOfContentsResult {
+  document_id: string;
+  document_title: string;
+  total_articles: number;
+  outline: TocNode[];
+  /** Articles before the first heading (e.g. a code's opening articles) */
+  unheaded_articles?: TocArticle[];
+}
+
+export async function getTableOfContents(
+  db: Database,
+  input: GetTableOfContentsInput
+): Promise<ToolResponse<GetTableOfContentsResult>> {
+  if (!input.law_identifier) {
+    throw new Error('law_identifier is required');
+  }
+
+  const resolvedId = resolveDocumentId(db, input.law_identifier);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.law_identifier}" not found in database`);
+  }
+
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?')
+    .get(resolvedId) as { id: string; title: string };
+  const metadata = generateResponseMetadata(db);
+
+  if (!detectCapabilities(db).has('headings')) {
+    const count = db.prepare('SELECT COUNT(*) as count FROM legal_provisions WHERE document_id = ?')
+      .get(resolvedId) as { count: number };
+    metadata.warnings = ['Table of contents unavailable: this database has no 편/장/절/관 headings.'];
+    return {
+      results: { document_id: doc.id, document_title: doc.title, total_articles: count.count, outline: [] },
+      _metadata: metadata,
+    };
+  }
+
+  // Addenda (부칙) sit outside the 편/장/절/관 outline
+  const articleFilter = detectCapabilities(db).has('addenda') ? " AND kind = 'article'" : '';
+  const articles = db.prepare(`
+    SELECT provision_ref, section, title, heading_ref
+    FROM legal_provisions
+    WHERE document_id = ?${articleFilter}
+    ORDER BY id
+  `).all(resolvedId) as (TocArticle & { heading_ref: string | null })[];
+
+  const headings = db.prepare(`
+    SELECT heading_ref, parent_ref, level, label, title
+    FROM headings
+    WHERE document_id = ?
+    ORDER BY position
+  `).all(resolvedId) as Heading[];
+
+  const nodes = new Map<string, TocNode>();
+  const outline: TocNode[] = [];
+
+  for (const heading of headings) {
+    const node: TocNode = { ...heading, first_article: null, last_article: null, article_count: 0, children: [] };
+    nodes.set(heading.heading_ref, node);
+
+    const parent = heading.parent_ref ? nodes.get(heading.parent_ref) : undefined;
+    if (parent) parent.children.push(node);
+    else outline.push(node);
+  }
+
+  const unheaded: TocArticle[] = [];
+
+  for (const { heading_ref, ...article } of articles) {
+    const direct = heading_ref ? nodes.get(heading_ref) : undefined;
+    if (!direct) {
+      unheaded.push(article);
+      continue;
+    }
+
+    if (input.include_articles) {
+      (direct.articles ??= []).push(article);
+    }
+
+    // Count the article towards its heading and every enclosing heading
+    for (let node: TocNode | undefined = direct; node; node = node.parent_ref ? nodes.get(node.parent_ref) : undefined) {
+      node.first_article ??= article.section;
+      node.last_article = article.section;
+      node.article_count++;
+    }
+  }
+
+  if (headings.length === 0) {
+    metadata.warnings = [`${doc.title} has no 편/장/절/관 headings; its articles are not grouped.`];
+  }
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      total_articles: articles.length,
+      outline,
+      ...(unheaded.length > 0 && headings.length > 0 ? { unheaded_articles: unheaded } : {}),
+    },
+    _metadata: metadata,
+  };
+}
@@ -22,6 +22,8 @@ export interface ListSourcesResult {
     document_count: number;
     provision_count: number;
     eu_document_count: number;
+    /** Articles with a KLRI English translation */
+    translated_provision_count: number;
   };
   limitations: string[];
 }
@@ -48,6 +50,7 @@ export async function listSources(db: Database): Promise<ToolResponse<ListSource
   const documentCount = safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents');
   const provisionCount = safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions');
   const euDocumentCount = safeCount(db, 'SELECT COUNT(*) as count FROM eu_documents');
+  const translatedCount = safeCount(db, 'SELECT COUNT(*) as count FROM english_translations');
 
   return {
     results: {
@@ -85,6 +88,7 @@ export async function listSources(db: Database): Promise<ToolResponse<ListSource
         document_count: documentCount,
         provision_count: provisionCount,
         eu_document_count: euDocumentCount,
+        translated_provision_count: translatedCount,
       },
       limitations: [
         `Covers ${documentCount.toLocaleString()} Korean statutes. Presidential decrees and ministerial ordinances require professional tier.`,
@@ -15,15 +15,25 @@ import { searchLegislation, SearchLegislationInput } from './search-legislation.
 import { getProvision, GetProvisionInput } from './get-provision.js';
 import { listSources } from './list-sources.js';
 import { validateCitationTool, ValidateCitationInput } from './validate-citation.js';
+import { validateCitationsInText, ValidateCitationsInTextInput } from './validate-citations-in-text.js';
 import { buildLegalStance, BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, FormatCitationInput } from './format-citation.js';
 import { checkCurrency, CheckCurrencyInput } from './check-currency.js';
+import { getImplementingRules, GetImplementingRulesInput } from './get-implementing-rules.js';
+import { getCrossReferences, GetCrossReferencesInput } from './get-cross-references.js';
+import { getDefinitions, GetDefinitionsInput } from './get-definitions.js';
+import { getSanctions, GetSanctionsInput } from './get-sanctions.js';
+import { generateComplianceChecklist, GenerateComplianceChecklistInput } from './generate-compliance-checklist.js';
+import { getTableOfContents, GetTableOfContentsInput } from './get-table-of-contents.js';
+import { getAmendmentHistory, GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { diffProvision, DiffProvisionInput } from './diff-provision.js';
 import { getEUBasis, GetEUBasisInput } from './get-eu-basis.js';
 import { getKoreanImplementations, GetKoreanImplementationsInput } from './get-korean-implementations.js';
 import { searchEUImplementations, SearchEUImplementationsInput } from './search-eu-implementations.js';
 import { getProvisionEUBasis, GetProvisionEUBasisInput } from './get-provision-eu-basis.js';
 import { validateEUCompliance, ValidateEUComplianceInput } from './validate-eu-compliance.js';
 import { getAbout, type AboutContext } from './about.js';
+import { AmbiguousDocumentError } from '../utils/statute-id.js';
 export type { AboutContext } from './about.js';
 
 const ABOUT_TOOL: Tool = {
@@ -43,7 +53,14 @@ export const TOOLS: Tool[] = [
       'Also supports FTS5 syntax (AND, OR, NOT, "phrase", prefix*). ' +
       'Results include: document ID, title (Korean + English), provision reference, snippet with >>>highlight<<< markers, and relevance score. ' +
       'Use document_id to filter within a single statute. Use status to filter by in_force/amended/repealed. ' +
-      'Default limit is 10 (max 50). For broad legal research, prefer build_legal_stance instead.',
+      'Scope further with document_ids, document_type (statute/presidential_decree/ministerial_ordinance), ministry (소관부처, e.g. "개인정보보호위원회") ' +
+      'and promulgation or in-force date ranges, e.g. decrees administered by the PIPC in force since 2023. ' +
+      'Addenda (부칙: 시행일 and 경과조치 of each amendment) are searchable too; use provision_kind to restrict results to articles or addenda. ' +
+      'Use role to keep provisions concerning one regulated actor (e.g., "mydata_operator" or "마이데이터사업자"), including duties of 누구든지 (anyone). ' +
+      'Set facets to get hit counts per document, document type, status and chapter alongside the hits, to see where matches concentrate before drilling in. ' +
+      'Set semantic_search for descriptive queries that may not share words with the statute ("when must a company tell users about a leak"): ' +
+      'full-text and embedding similarity rankings are fused, and each hit gets a semantic_score. Needs a database built with embeddings; otherwise a warning is returned and full-text search is used. ' +
+      'Default limit is 10 (max 50); _metadata.next_cursor, passed back as cursor, returns the next page. For broad legal research, prefer build_legal_stance instead.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -55,11 +72,59 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Filter to a specific statute by ID (e.g., "act-16930") or title (e.g., "개인정보 보호법")',
         },
+        document_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Restrict to these documents by ID or title (e.g., ["act-270351", "개인정보 보호법 시행령"])',
+        },
+        document_type: {
+          type: 'string',
+          enum: ['statute', 'presidential_decree', 'ministerial_ordinance'],
+          description: 'Filter by instrument: statute (법률), presidential_decree (시행령), ministerial_ordinance (시행규칙).',
+        },
         status: {
           type: 'string',
           enum: ['in_force', 'amended', 'repealed'],
           description: 'Filter by legislative status. Omit to search all statuses.',
         },
+        role: {
+          type: 'string',
+          description: 'Only provisions concerning this regulated actor, as actor id or Korean term: personal_information_controller (개인정보처리자), ict_service_provider (정보통신서비스 제공자), credit_information_company (신용정보회사등), mydata_operator (본인신용정보관리회사, 마이데이터사업자), ...',
+        },
+        ministry: {
+          type: 'string',
+          description: 'Ministry in charge (소관부처), matched as a substring (e.g., "개인정보보호위원회", "과학기술정보통신부").',
+        },
+        promulgated_from: {
+          type: 'string',
+          description: 'Only documents promulgated on or after this date (YYYY-MM-DD).',
+        },
+        promulgated_to: {
+          type: 'string',
+          description: 'Only documents promulgated on or before this date (YYYY-MM-DD).',
+        },
+        in_force_from: {
+          type: 'string',
+          description: 'Only documents whose current version entered into force on or after this date (YYYY-MM-DD).',
+        },
+        in_force_to: {
+          type: 'string',
+          description: 'Only documents whose current version entered into force on or before this date (YYYY-MM-DD).',
+        },
+        provision_kind: {
+          type: 'string',
+          enum: ['article', 'addendum'],
+          description: 'Restrict to articles of the law body or to addenda (부칙). Omit to search both.',
+        },
+        include_deleted: {
+          type: 'boolean',
+          description: 'Also return deleted-article stubs ("제39조의3 삭제 <2020. 2. 4.>"), which are excluded by default.',
+          default: false,
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Search the text in force on this date (YYYY-MM-DD) instead of the current text. Results include valid_from/valid_to of each matched version.',
+        },
         limit: {
           type: 'number',
           description: 'Maximum results to return (default: 10, max: 50). Lower values save tokens.',
@@ -67,6 +132,20 @@ export const TOOLS: Tool[] = [
           minimum: 1,
           maximum: 50,
         },
+        facets: {
+          type: 'boolean',
+          description: 'Return { hits, facets } with hit counts over all matches grouped by document, document type, status and chapter.',
+          default: false,
+        },
+        semantic_search: {
+          type: 'boolean',
+          description: 'Hybrid ranking: fuse BM25 with multilingual embedding similarity (reciprocal rank fusion). Current text only; ignored with as_of_date.',
+          default: false,
+        },
+        cursor: {
+          type: 'string',
+          description: 'next_cursor from the previous page. Repeat the other parameters unchanged.',
+        },
       },
       required: ['query'],
     },
@@ -79,8 +158,12 @@ export const TOOLS: Tool[] = [
       'the Korean title (e.g., "개인정보 보호법"), or the English title (e.g., "Personal Information Protection Act"). ' +
       'Returns: document ID, title (Korean + English), status, article number, chapter, full text (Korean + English where available), ' +
       'and citation URL to law.go.kr. ' +
-      'Korean articles use 제N조 format. Paragraphs use ①②③ circled numbers. Items use 1. 2. 3. ' +
-      'WARNING: Omitting article returns ALL provisions (capped at 200) for the statute.',
+      'Korean articles use 제N조 format. Paragraphs use ①②③ circled numbers. Items use 1. 2. 3. Sub-items use 가. 나. 다. ' +
+      'Pass paragraph/item/sub_item with article to get a single 항/호/목 (e.g., 제15조제1항제2호). ' +
+      'Pass as_of_date (YYYY-MM-DD) to get the text that was in force on that date (e.g., the date of a breach). ' +
+      'Pass chapter instead of article to get every article of one 편/장/절/관 (e.g., "4" or "제4장", "제3장제1절"); see get_table_of_contents. ' +
+      'WARNING: Omitting article and chapter returns ALL provisions for the statute, 200 per page; ' +
+      'when more follow, results.truncated is true and _metadata.next_cursor fetches the next page.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -90,7 +173,31 @@ export const TOOLS: Tool[] = [
         },
         article: {
           type: 'string',
-          description: 'Article number (e.g., "1", "15", "15-2"). Matched against provision_ref and section columns.',
+          description: 'Article number (e.g., "1", "15", "15-2"). Branch articles also as "15의2", "제15조의2", "Article 15-2" or "Art. 15bis".',
+        },
+        chapter: {
+          type: 'string',
+          description: 'Heading to return all articles of, when article is omitted: "4" or "제4장" (chapter), "제3장제1절" (section), "제2편 제1장", or a heading_ref from get_table_of_contents (e.g., "ch-3/sec-1").',
+        },
+        paragraph: {
+          type: 'string',
+          description: 'Paragraph (항) number within the article (e.g., "1" or "①"). Requires article.',
+        },
+        item: {
+          type: 'string',
+          description: 'Item (호) number (e.g., "2", "1-2" for 제1호의2). Omit paragraph for articles whose items are not inside numbered paragraphs (e.g., 제2조제1호).',
+        },
+        sub_item: {
+          type: 'string',
+          description: 'Sub-item (목) letter (e.g., "가"). Requires item.',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Return the text in force on this date (YYYY-MM-DD). Omit for the current text.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'next_cursor from the previous page of an all-provisions request. Repeat the other parameters unchanged.',
         },
       },
       required: ['law_identifier'],
@@ -112,8 +219,11 @@ export const TOOLS: Tool[] = [
     description:
       'Validate a Korean legal citation against the database. Returns whether the cited statute and provision exist. ' +
       'Use this as a zero-hallucination check before presenting legal references to users. ' +
-      'Supported formats: "제15조 개인정보 보호법", "Article 15, Personal Information Protection Act", "Art. 15, PIPA", "act-16930, art. 15". ' +
-      'Returns: valid (boolean), parsed components, formatted citations (Korean + English), warnings about repealed/amended status.',
+      'Supported formats: "제15조 개인정보 보호법", "「개인정보 보호법」 제15조제1항", "개인정보 보호법 시행령 제18조", "법률 제19234호", ' +
+      '"Article 15, Personal Information Protection Act", "Art. 15, PIPA", "Enforcement Decree of the PIPA, Article 18", "act-16930, art. 15". ' +
+      'Clause suffixes 본문/단서/전단/후단 are accepted; a cited proviso (단서) is checked for a "다만" sentence. ' +
+      'Pinpoints are verified down to paragraph, item and sub-item level (e.g., "제15조제1항제2호 개인정보 보호법", "개인정보 보호법 제2조제1호가목"). ' +
+      'Returns: valid (boolean), parsed components, formatted citations (Korean + English), pinpoint_exists, warnings about repealed/amended status.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -125,12 +235,34 @@ export const TOOLS: Tool[] = [
       required: ['citation'],
     },
   },
+  {
+    name: 'validate_citations_in_text',
+    description:
+      'Find and validate every statute citation in a passage of Korean or English text (a paragraph or a whole memo). ' +
+      'Recognises 「」-bracketed titles ("「개인정보 보호법」 제15조제1항", "「전자정부법」"), unbracketed titles ("신용정보의 이용 및 보호에 관한 법률 제40조의2"), ' +
+      '"같은 법"/"동법" references to the preceding law, and English forms ("Article 28-8(1) of the Personal Information Protection Act", "Art. 15, PIPA"). ' +
+      'Returns each citation with its start/end offsets, status (valid, ambiguous, document_not_found, provision_not_found, pinpoint_not_found, deleted), ' +
+      'the canonical Korean citation and a suggested correction where one is safe. Run this over drafted answers before presenting them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'Text to check, up to 200,000 characters',
+        },
+      },
+      required: ['text'],
+    },
+  },
   {
     name: 'build_legal_stance',
     description:
       'Build a comprehensive set of citations for a legal question by searching across all Korean statutes simultaneously. ' +
-      'Returns aggregated results from legislation search, cross-referenced with EU law where applicable. ' +
+      'Returns the most relevant provisions grouped by statute (best statute first) with each statute\'s currency status, ' +
+      'the EU instruments the statute or provision implements, and the decree/ordinance articles implementing each Act article. ' +
+      'A stance object lists the hits as citations by category: obligations, rights, sanctions and definitions. ' +
       'Best for broad legal research questions like "What Korean laws govern personal data processing?" ' +
+      'Use role to ask what applies to one regulated actor, e.g. a MyData operator (mydata_operator). ' +
       'Supports queries in both Korean and English. ' +
       'For targeted lookups of a known provision, use get_provision instead.',
     inputSchema: {
@@ -144,9 +276,13 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Optionally limit search to one statute by ID or title',
         },
+        role: {
+          type: 'string',
+          description: 'Only provisions concerning this regulated actor, as actor id or Korean term: personal_information_controller (개인정보처리자), ict_service_provider (정보통신서비스 제공자), credit_information_company (신용정보회사등), mydata_operator (본인신용정보관리회사, 마이데이터사업자), ...',
+        },
         limit: {
           type: 'number',
-          description: 'Max results per category (default: 5, max: 20)',
+          description: 'Max provisions across all statutes (default: 5, max: 20)',
           default: 5,
           minimum: 1,
           maximum: 20,
@@ -161,6 +297,7 @@ export const TOOLS: Tool[] = [
       'Format a Korean legal citation per standard legal conventions. ' +
       'Formats: "korean" -> "제15조 개인정보 보호법", "full" -> "Article 15, Personal Information Protection Act", ' +
       '"short" -> "Art. 15, PIPA", "pinpoint" -> "제15조제1항". ' +
+      'Understands the same inputs as validate_citation (「」 titles, 시행령/시행규칙, law numbers, 단서/본문/전단/후단) and returns the instrument type. ' +
       'Does NOT validate existence -- use validate_citation for that.',
     inputSchema: {
       type: 'object',
@@ -184,6 +321,9 @@ export const TOOLS: Tool[] = [
     description:
       'Check whether a Korean statute or provision is currently in force, amended, or repealed. ' +
       'Returns: is_current (boolean), status, dates (issued, in-force), law number, and warnings. ' +
+      'With as_of_date, also reports whether the statute was in force on that date and the provision text in force then. ' +
+      'Also returns commencement dates set by addenda (부칙 시행일): for a provision, the dates its amended text takes effect; ' +
+      'for a whole statute, amendments not yet in effect. Deferred dates after today (or as_of_date) produce warnings. ' +
       'Essential before citing legislation -- repealed acts should not be cited as current law.',
     inputSchema: {
       type: 'object',
@@ -194,12 +334,253 @@ export const TOOLS: Tool[] = [
         },
         provision_ref: {
           type: 'string',
-          description: 'Optional provision reference to check a specific article (e.g., "15")',
+          description: 'Optional provision reference to check a specific article (e.g., "15", "28의8")',
+        },
+        as_of_date: {
+          type: 'string',
+          description: 'Check currency on this date (YYYY-MM-DD) and return the provision text in force then',
         },
       },
       required: ['document_id'],
     },
   },
+  {
+    name: 'get_implementing_rules',
+    description:
+      'Follow the Korean delegation chain 법률 (Act) → 시행령 (Enforcement Decree) → 시행규칙 (Enforcement Rule). ' +
+      'Given an Act article, returns the decree and ordinance articles that implement it (e.g., 개인정보 보호법 제29조 → 시행령 제30조). ' +
+      'Given a decree or ordinance article, returns the Act or decree articles it implements. ' +
+      'Links are derived from back-citations in the subordinate text ("법 제29조에 따라", "영 제30조제1항"). ' +
+      'Also lists delegation phrases found in the article (e.g., "대통령령으로 정하는").',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute, decree or ordinance identifier (e.g., "act-16930") or title (e.g., "개인정보 보호법", "개인정보 보호법 시행령")',
+        },
+        article: {
+          type: 'string',
+          description: 'Article number (e.g., "29", "15-2")',
+        },
+      },
+      required: ['law_identifier', 'article'],
+    },
+  },
+  {
+    name: 'get_cross_references',
+    description:
+      'List the citations to and from a provision. Outgoing: articles it cites (e.g., "제17조제1항에 따라", ' +
+      '"「신용정보의 이용 및 보호에 관한 법률」 제32조"). Incoming: articles in this or other laws that cite it. ' +
+      'Each link includes the citation as written and ref_type ("references", or "implements" for decree/ordinance articles implementing an Act article). ' +
+      'Targets missing from the database are returned with null section/title. ' +
+      'Use this to follow "according to Article X" chains; use get_implementing_rules for the full 법률 → 시행령 → 시행규칙 chain.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-16930") or title (e.g., "개인정보 보호법")',
+        },
+        article: {
+          type: 'string',
+          description: 'Article number (e.g., "17", "15-2")',
+        },
+        direction: {
+          type: 'string',
+          enum: ['outgoing', 'incoming', 'both'],
+          description: 'Which links to return (default: both)',
+          default: 'both',
+        },
+        ref_types: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['references', 'amended_by', 'implements', 'see_also'],
+          },
+          description: 'Filter by link type. Omit to return all types.',
+        },
+      },
+      required: ['law_identifier', 'article'],
+    },
+  },
+  {
+    name: 'get_definitions',
+    description:
+      'Look up a defined term (정의) across all Korean statutes, decrees and ordinances. ' +
+      'Definitions are taken from definition articles such as 제2조(정의) of 개인정보 보호법. ' +
+      'Returns every definition of the term with its pinpoint (e.g., 제2조제1호) and a variant number: definitions sharing a variant are worded identically, ' +
+      'so differing variants show where Acts define the same term differently (e.g., "가명정보" in PIPA vs. the Credit Information Act). ' +
+      'borrowed_from is set when a definition defers to another law ("「개인정보 보호법」 제2조제1호에 따른 개인정보"). ' +
+      'Whitespace in the term is ignored ("개인정보 처리자" matches "개인정보처리자").',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: {
+          type: 'string',
+          description: 'Defined term in Korean (e.g., "개인정보", "가명정보")',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optionally limit to one statute by ID or title (e.g., "개인정보 보호법")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum definitions to return (default: 20, max: 100)',
+          default: 20,
+          minimum: 1,
+          maximum: 100,
+        },
+      },
+      required: ['term'],
+    },
+  },
+  {
+    name: 'get_sanctions',
+    description:
+      'Penalties for violating a Korean statute or one of its articles, extracted from its sanction articles: ' +
+      '벌칙 (criminal: imprisonment and criminal fines), 과태료 (administrative fines) and 과징금 (penalty surcharges, often a share of turnover). ' +
+      'Use it to answer "what is the penalty for violating PIPA Article 28-8". ' +
+      'Each sanction gives the penalty as written, its maximum (max_imprisonment_years, max_fine_krw or revenue_share), ' +
+      'the pinpoint of the sanction clause (e.g., 제75조제2항제6호), the violated article and the punished conduct. ' +
+      'Without article, lists every sanction in the law.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute ID or title (e.g., "act-270351", "개인정보 보호법", "PIPA")',
+        },
+        article: {
+          type: 'string',
+          description: 'Violated article (e.g., "29", "28-8", "28의8", "제28조의8"). Omit for all sanctions of the law.',
+        },
+        sanction_type: {
+          type: 'string',
+          enum: ['criminal', 'administrative_fine', 'penalty_surcharge'],
+          description: 'Only this kind of sanction: criminal (벌칙), administrative_fine (과태료) or penalty_surcharge (과징금).',
+        },
+      },
+      required: ['law_identifier'],
+    },
+  },
+  {
+    name: 'generate_compliance_checklist',
+    description:
+      'Compliance checklist for a Korean statute or a topic: every duty-bearing sentence ("~하여야 한다" must, "~하여서는 아니 된다" must not) ' +
+      'with the actor it is addressed to (개인정보처리자, 정보통신서비스 제공자, 신용정보회사등, ...) and a pinpoint citation (e.g., 개인정보 보호법 제29조제1항). ' +
+      'Give law_identifier for a whole statute, query for the provisions most relevant to a topic (e.g., "국외 이전"), or both. ' +
+      'Set addressee to keep only the duties of one actor. Sanction and definition articles and addenda are skipped. ' +
+      'The checklist is extracted from the statutory wording; verify each item with get_provision before advising.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute ID or title (e.g., "개인정보 보호법", "PIPA")',
+        },
+        query: {
+          type: 'string',
+          description: 'Topic in Korean or English (e.g., "안전조치", "cross-border transfer")',
+        },
+        addressee: {
+          type: 'string',
+          description: 'Only duties addressed to this actor, as the Korean term (e.g., "개인정보처리자") or actor id (e.g., "personal_information_controller")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum checklist items (default: 100, max: 500)',
+          default: 100,
+          minimum: 1,
+          maximum: 500,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_table_of_contents',
+    description:
+      'Nested outline of a Korean statute by 편 (part) / 장 (chapter) / 절 (section) / 관 (subsection), ' +
+      'with the first and last article and article count under each heading (e.g., 제3장 개인정보의 처리: 제15조 … 제28조의11). ' +
+      'Use it to navigate long Acts, then call get_provision with chapter (e.g., "제4장") to read a whole chapter. ' +
+      'Set include_articles to list each article (number and title) under its heading.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-16930") or title (e.g., "개인정보 보호법")',
+        },
+        include_articles: {
+          type: 'boolean',
+          description: 'List the articles under each heading (default: false)',
+          default: false,
+        },
+      },
+      required: ['law_identifier'],
+    },
+  },
+  {
+    name: 'get_amendment_history',
+    description:
+      'List the revisions (제정/개정) of a Korean statute, newest first: revision type (일부개정, 전부개정, 타법개정, ...), ' +
+      'promulgation number and date, effective date, and the articles each revision added, amended or deleted. ' +
+      'With article, only the revisions that changed that article. Use from_date/to_date (effective dates) to answer ' +
+      '"what changed in this Act this year", then diff_provision to see the wording change of an article.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-16930") or title (e.g., "개인정보 보호법")',
+        },
+        article: {
+          type: 'string',
+          description: 'Optional article number to limit the history to (e.g., "28", "28-8", "28의8")',
+        },
+        from_date: {
+          type: 'string',
+          description: 'Only revisions taking effect on or after this date (YYYY-MM-DD)',
+        },
+        to_date: {
+          type: 'string',
+          description: 'Only revisions taking effect on or before this date (YYYY-MM-DD)',
+        },
+      },
+      required: ['law_identifier'],
+    },
+  },
+  {
+    name: 'diff_provision',
+    description:
+      'Word-level (어절) diff of a Korean statute article between two versions. ' +
+      'By default compares the current text with the version it replaced (the latest amendment); ' +
+      'with from_date/to_date, compares the texts in force on those dates. ' +
+      'Returns diff segments (equal/insert/delete), inserted and deleted word counts, an inline rendering with [-deleted-] and {+inserted+} markers, ' +
+      'and the revision that brought the newer text into force.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        law_identifier: {
+          type: 'string',
+          description: 'Statute identifier (e.g., "act-16930") or title (e.g., "개인정보 보호법")',
+        },
+        article: {
+          type: 'string',
+          description: 'Article number (e.g., "28", "28-8", "28의8")',
+        },
+        from_date: {
+          type: 'string',
+          description: 'Older side: the text in force on this date (YYYY-MM-DD). Default: the version replaced by the newer side',
+        },
+        to_date: {
+          type: 'string',
+          description: 'Newer side: the text in force on this date (YYYY-MM-DD). Default: the current text',
+        },
+      },
+      required: ['law_identifier', 'article'],
+    },
+  },
   {
     name: 'get_eu_basis',
     description:
@@ -375,6 +756,9 @@ export function registerTools(
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
+        case 'validate_citations_in_text':
+          result = await validateCitationsInText(db, args as unknown as ValidateCitationsInTextInput);
+          break;
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
@@ -384,6 +768,30 @@ export function registerTools(
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
           break;
+        case 'get_implementing_rules':
+          result = await getImplementingRules(db, args as unknown as GetImplementingRulesInput);
+          break;
+        case 'get_cross_references':
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        case 'get_definitions':
+          result = await getDefinitions(db, args as unknown as GetDefinitionsInput);
+          break;
+        case 'get_sanctions':
+          result = await getSanctions(db, args as unknown as GetSanctionsInput);
+          break;
+        case 'generate_compliance_checklist':
+          result = await generateComplianceChecklist(db, args as unknown as GenerateComplianceChecklistInput);
+          break;
+        case 'get_table_of_contents':
+          result = await getTableOfContents(db, args as unknown as GetTableOfContentsInput);
+          break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
+        case 'diff_provision':
+          result = await diffProvision(db, args as unknown as DiffProvisionInput);
+          break;
         case 'get_eu_basis':
           result = await getEUBasis(db, args as unknown as GetEUBasisInput);
           break;
@@ -420,6 +828,21 @@ export function registerTools(
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
       };
     } catch (error) {
+      if (error instanceof AmbiguousDocumentError) {
+        // Structured, so the caller can pick one of the candidates and retry
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'ambiguous_document',
+              message: error.message,
+              input: error.input,
+              candidates: error.candidates,
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
       const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{ type: 'text', text: `Error: ${message}` }],
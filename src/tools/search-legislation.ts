@@ -4,16 +4,46 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
-import { normalizeAsOfDate } from '../utils/as-of-date.js';
-import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { buildFtsQueryPlan, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import { normalizeAsOfDate, normalizeIsoDate, VERSION_IN_FORCE_SQL, AS_OF_UNSUPPORTED_WARNING } from '../utils/as-of-date.js';
+import { generateResponseMetadata, type ResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities, hasColumns, type Capability } from '../capabilities.js';
+import { decodeCursor, encodeCursor, requestFingerprint } from '../utils/cursor.js';
+import { findSimilarProvisions, getQueryEmbedder } from '../utils/embeddings.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import { actorFilterSql, resolveActor } from '../utils/actors.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { addTranslationStatus, type TranslationStatus } from '../utils/translation-status.js';
 
 export interface SearchLegislationInput {
   query: string;
   document_id?: string;
+  /** Restrict to these documents (IDs) */
+  document_ids?: string[];
+  document_type?: 'statute' | 'presidential_decree' | 'ministerial_ordinance';
   status?: string;
+  /** 소관부처, matched as a substring (e.g. "개인정보보호위원회") */
+  ministry?: string;
+  /** Promulgation date (issued_date) range, inclusive (YYYY-MM-DD) */
+  promulgated_from?: string;
+  promulgated_to?: string;
+  /** In-force date range, inclusive (YYYY-MM-DD) */
+  in_force_from?: string;
+  in_force_to?: string;
+  /** Regulated actor the provisions concern: actor id ("mydata_operator") or Korean term ("마이데이터사업자") */
+  role?: string;
+  /** 'article' for the body of the law, 'addendum' for 부칙 provisions */
+  provision_kind?: 'article' | 'addendum';
+  /** Also return deleted-article stubs ("제39조의3 삭제 <2020. 2. 4.>") */
+  include_deleted?: boolean;
   as_of_date?: string;
   limit?: number;
+  /** Also return hit counts by document, document type, status and chapter */
+  facets?: boolean;
+  /** Fuse full-text and embedding similarity rankings (databases built with embeddings) */
+  semantic_search?: boolean;
+  /** next_cursor from a previous response with the same parameters */
+  cursor?: string;
 }
 
 export interface SearchLegislationResult {
@@ -21,78 +51,341 @@ export interface SearchLegislationResult {
   document_title: string;
   document_title_en: string | null;
   provision_ref: string;
+  /** 'addendum' for 부칙 provisions (databases built with addenda) */
+  kind?: 'article' | 'addendum';
   chapter: string | null;
   section: string;
   title: string | null;
   snippet: string;
+  /** BM25 score, lower is better; the negated fused score in semantic_search mode */
   relevance: number;
+  /** Cosine similarity to the query (semantic_search mode); null when only full-text matched */
+  semantic_score?: number | null;
+  valid_from?: string | null;
+  valid_to?: string | null;
+  /** English translation status (databases with translations); null when untranslated */
+  translation?: TranslationStatus | null;
+}
+
+export interface SearchFacets {
+  /** Matching provisions across all pages */
+  total_hits: number;
+  by_document: { document_id: string; document_title: string; document_type: string; count: number }[];
+  by_document_type: { document_type: string; count: number }[];
+  by_status: { status: string; count: number }[];
+  /** Chapters (편/장/절/관 path) within each document; provisions outside a chapter are not listed */
+  by_chapter: { document_id: string; chapter: string; count: number }[];
+}
+
+/** Result shape when facets are requested */
+export interface FacetedSearchResult {
+  hits: SearchLegislationResult[];
+  facets: SearchFacets;
+}
+
+interface FacetRow {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  status: string;
+  chapter: string | null;
+  count: number;
 }
 
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
 
+/** Cursor tier of semantic_search results, ahead of the FTS tiers */
+const SEMANTIC_TIER = -1;
+/** Candidates taken from each ranking before fusion */
+const SEMANTIC_CANDIDATES = 100;
+
 export async function searchLegislation(
   db: Database,
   input: SearchLegislationInput
-): Promise<ToolResponse<SearchLegislationResult[]>> {
+): Promise<ToolResponse<SearchLegislationResult[] | FacetedSearchResult>> {
   if (!input.query || input.query.trim().length === 0) {
     return {
-      results: [],
+      results: input.facets ? { hits: [], facets: emptyFacets() } : [],
       _metadata: generateResponseMetadata(db)
     };
   }
 
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  // Fetch extra rows to account for deduplication
-  const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
-  if (input.as_of_date) normalizeAsOfDate(input.as_of_date);
-
-  let queryStrategy = 'none';
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        ld.title_en as document_title_en,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
-      params.push(input.document_id);
+  // Fetch extra rows to account for deduplication, plus one to detect a next page
+  const fetchLimit = limit * 2 + 1;
+
+  // A cursor pins the query tier of the first page and the rows consumed so far
+  const fingerprint = requestFingerprint({
+    query: input.query,
+    document_id: input.document_id,
+    document_ids: input.document_ids,
+    document_type: input.document_type,
+    status: input.status,
+    ministry: input.ministry,
+    promulgated_from: input.promulgated_from,
+    promulgated_to: input.promulgated_to,
+    in_force_from: input.in_force_from,
+    in_force_to: input.in_force_to,
+    role: input.role,
+    provision_kind: input.provision_kind,
+    include_deleted: input.include_deleted,
+    as_of_date: input.as_of_date,
+    semantic_search: input.semantic_search,
+  });
+  const cursor = input.cursor ? decodeCursor(input.cursor, fingerprint) : undefined;
+  const offset = cursor?.offset ?? 0;
+
+  const promulgatedFrom = normalizeIsoDate(input.promulgated_from, 'promulgated_from');
+  const promulgatedTo = normalizeIsoDate(input.promulgated_to, 'promulgated_to');
+  const inForceFrom = normalizeIsoDate(input.in_force_from, 'in_force_from');
+  const inForceTo = normalizeIsoDate(input.in_force_to, 'in_force_to');
+
+  const sanitized = sanitizeFtsInput(input.query);
+  const { variants: queryVariants, glossary: expansion } = buildFtsQueryPlan(sanitized);
+  const metadata = generateResponseMetadata(db);
+  const capabilities = detectCapabilities(db);
+
+  // Point-in-time search runs against provision_versions instead of the current text
+  let asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (asOfDate && !capabilities.has('provision_versions')) {
+    metadata.warnings = [AS_OF_UNSUPPORTED_WARNING];
+    asOfDate = undefined;
+  }
+
+  // Provision kind (article vs. 부칙) is only recorded by databases built with addenda.
+  // Historical versions of since-deleted provisions have no legal_provisions row.
+  const hasKind = capabilities.has('addenda');
+  const kindColumn = hasKind ? "COALESCE(lp.kind, 'article') as kind," : '';
+  let kindFilter = '';
+  const kindParams: string[] = [];
+  if (input.provision_kind) {
+    if (hasKind) {
+      kindFilter = " AND COALESCE(lp.kind, 'article') = ?";
+      kindParams.push(input.provision_kind);
+    } else {
+      metadata.warnings = [
+        ...(metadata.warnings ?? []),
+        'provision_kind filter ignored: this database does not distinguish addenda (부칙) from articles.',
+      ];
+    }
+  }
+
+  // Filters shared by every query tier; the provision alias differs between the two sources
+  const p = asOfDate ? 'pv' : 'lp';
+  let filterSql = kindFilter;
+  const filterParams: (string | number)[] = [...kindParams];
+
+  // Deleted-article stubs have no text in force; flagged by newer databases only
+  if (!input.include_deleted && hasColumns(db, asOfDate ? 'provision_versions' : 'legal_provisions', ['deleted'])) {
+    filterSql += ` AND ${p}.deleted = 0`;
+  }
+
+  // Titles and short names are accepted as well as IDs
+  const documentIdOf = (identifier: string) => {
+    const resolvedId = resolveDocumentId(db, identifier);
+    if (!resolvedId) {
+      throw new Error(`Document "${identifier}" not found in database`);
+    }
+    return resolvedId;
+  };
+
+  if (input.document_id) {
+    filterSql += ` AND ${p}.document_id = ?`;
+    filterParams.push(documentIdOf(input.document_id));
+  }
+
+  if (input.document_ids && input.document_ids.length > 0) {
+    filterSql += ` AND ${p}.document_id IN (${input.document_ids.map(() => '?').join(', ')})`;
+    filterParams.push(...input.document_ids.map(documentIdOf));
+  }
+
+  if (input.document_type) {
+    filterSql += ' AND ld.type = ?';
+    filterParams.push(input.document_type);
+  }
+
+  if (input.status) {
+    filterSql += ' AND ld.status = ?';
+    filterParams.push(input.status);
+  }
+
+  if (input.ministry) {
+    if (hasColumns(db, 'legal_documents', ['ministry'])) {
+      filterSql += " AND ld.ministry LIKE '%' || ? || '%'";
+      filterParams.push(input.ministry.trim());
+    } else {
+      metadata.warnings = [
+        ...(metadata.warnings ?? []),
+        'ministry filter ignored: this database does not record the ministry in charge (소관부처).',
+      ];
+    }
+  }
+
+  if (input.role?.trim()) {
+    const actor = resolveActor(input.role);
+    if (capabilities.has('actors')) {
+      filterSql += ` AND ${actorFilterSql(p)}`;
+      filterParams.push(actor.id);
+    } else {
+      metadata.warnings = [
+        ...(metadata.warnings ?? []),
+        'role filter ignored: this database has no actor tags (provision_actors).',
+      ];
+    }
+  }
+
+  // Dates are ISO strings, so ranges compare lexically
+  const dateRanges: [string, string | undefined][] = [
+    ['ld.issued_date >= ?', promulgatedFrom],
+    ['ld.issued_date <= ?', promulgatedTo],
+    ['ld.in_force_date >= ?', inForceFrom],
+    ['ld.in_force_date <= ?', inForceTo],
+  ];
+  for (const [condition, value] of dateRanges) {
+    if (value) {
+      filterSql += ` AND ${condition}`;
+      filterParams.push(value);
     }
+  }
+
+  const respond = (
+    rows: SearchLegislationResult[],
+    tier: number,
+    queryStrategy: string | undefined,
+    fromWhere: string,
+    params: (string | number)[],
+  ): ToolResponse<SearchLegislationResult[] | FacetedSearchResult> => {
+    const { results: deduped, consumed } = deduplicateResults(rows, limit);
+    addTranslationStatus(db, deduped, metadata);
+    const nextCursor = rows.length > consumed
+      ? encodeCursor({ offset: offset + consumed, tier }, fingerprint)
+      : undefined;
+    return {
+      results: input.facets ? { hits: deduped, facets: countFacets(db, p, fromWhere, params) } : deduped,
+      _metadata: {
+        ...metadata,
+        ...(queryStrategy ? { query_strategy: queryStrategy } : {}),
+        ...(nextCursor ? { next_cursor: nextCursor } : {}),
+      },
+    };
+  };
+
+  const ftsColumns = asOfDate
+    ? `
+          pv.document_id,
+          ld.title as document_title,
+          ld.title_en as document_title_en,
+          pv.provision_ref,
+          ${kindColumn}
+          lp.chapter,
+          pv.section,
+          pv.title,
+          snippet(provision_versions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+          bm25(provision_versions_fts) as relevance,
+          pv.valid_from,
+          pv.valid_to`
+    : `
+          lp.document_id,
+          ld.title as document_title,
+          ld.title_en as document_title_en,
+          lp.provision_ref,
+          ${kindColumn}
+          lp.chapter,
+          lp.section,
+          lp.title,
+          snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+          bm25(provisions_fts) as relevance`;
+
+  const ftsFrom = asOfDate
+    ? `
+        FROM provision_versions_fts
+        JOIN provision_versions pv ON pv.id = provision_versions_fts.rowid
+        JOIN legal_documents ld ON ld.id = pv.document_id
+        LEFT JOIN legal_provisions lp ON lp.document_id = pv.document_id AND lp.provision_ref = pv.provision_ref
+        WHERE provision_versions_fts MATCH ?
+          AND ${VERSION_IN_FORCE_SQL}`
+    : `
+        FROM provisions_fts
+        JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE provisions_fts MATCH ?`;
+
+  // Hybrid ranking: BM25 and embedding similarity fused by reciprocal rank
+  if (input.semantic_search && (cursor?.tier === undefined || cursor.tier === SEMANTIC_TIER)) {
+    const embedder = await semanticEmbedder(capabilities, asOfDate, metadata);
+    if (embedder) {
+      const ftsHits = new Map<number, SearchLegislationResult>();
+      for (const ftsQuery of queryVariants) {
+        try {
+          const rows = db.prepare(`SELECT lp.id as provision_id, ${ftsColumns} ${ftsFrom}${filterSql} ORDER BY relevance, lp.id LIMIT ?`)
+            .all(ftsQuery, ...filterParams, SEMANTIC_CANDIDATES) as (SearchLegislationResult & { provision_id: number })[];
+          for (const { provision_id, ...row } of rows) ftsHits.set(provision_id, row);
+          if (rows.length > 0) break;
+        } catch {
+          continue;
+        }
+      }
+
+      const allowed = filterSql
+        ? new Set((db.prepare(`SELECT lp.id FROM legal_provisions lp JOIN legal_documents ld ON ld.id = lp.document_id WHERE 1 = 1${filterSql}`)
+          .all(...filterParams) as { id: number }[]).map(r => r.id))
+        : undefined;
+      const [queryVector] = await embedder([input.query], 'query');
+      const similar = findSimilarProvisions(db, queryVector, SEMANTIC_CANDIDATES, allowed);
+      const similarity = new Map(similar.map(s => [s.provision_id, s.similarity]));
+
+      const fused = reciprocalRankFusion([[...ftsHits.keys()], similar.map(s => s.provision_id)]);
+      const ids = [...fused.keys()];
+      if (ids.length > 0) {
+        const page = ids.slice(offset, offset + fetchLimit);
+        const missing = page.filter(id => !ftsHits.has(id));
+        if (missing.length > 0) {
+          const rows = db.prepare(`
+            SELECT lp.id as provision_id, lp.document_id, ld.title as document_title, ld.title_en as document_title_en,
+                   lp.provision_ref, ${kindColumn} lp.chapter, lp.section, lp.title,
+                   substr(lp.content, 1, 200) as snippet, 0 as relevance
+            FROM legal_provisions lp
+            JOIN legal_documents ld ON ld.id = lp.document_id
+            WHERE lp.id IN (${missing.map(() => '?').join(', ')})
+          `).all(...missing) as (SearchLegislationResult & { provision_id: number })[];
+          for (const { provision_id, ...row } of rows) ftsHits.set(provision_id, row);
+        }
 
-    if (input.status) {
-      sql += ' AND ld.status = ?';
-      params.push(input.status);
+        const rows = page.map(id => ({
+          ...ftsHits.get(id)!,
+          relevance: -fused.get(id)!,
+          semantic_score: similarity.get(id) ?? null,
+        }));
+        const fromWhere = `
+        FROM legal_provisions lp
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE lp.id IN (${ids.map(() => '?').join(', ')})`;
+        return respond(rows, SEMANTIC_TIER, 'hybrid_rrf', fromWhere, ids);
+      }
     }
+  }
+
+  // The LIKE fallback is the tier after the last FTS variant
+  const likeTier = queryVariants.length;
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(fetchLimit);
+  for (const [tier, ftsQuery] of queryVariants.entries()) {
+    if (cursor?.tier !== undefined && tier !== cursor.tier) continue;
+    const fromWhere = `${ftsFrom}${filterSql}`;
+    const params: (string | number)[] = [ftsQuery, ...(asOfDate ? [asOfDate, asOfDate] : []), ...filterParams];
 
     try {
-      const rows = db.prepare(sql).all(...params) as SearchLegislationResult[];
+      const rows = db.prepare(`SELECT ${ftsColumns} ${fromWhere} ORDER BY relevance, ${p}.id LIMIT ? OFFSET ?`)
+        .all(...params, fetchLimit, offset) as SearchLegislationResult[];
       if (rows.length > 0) {
-        queryStrategy = ftsQuery === queryVariants[0] ? 'exact' : 'fallback';
-        const deduped = deduplicateResults(rows, limit);
-        return {
-          results: deduped,
-          _metadata: {
-            ...generateResponseMetadata(db),
-            ...(queryStrategy === 'fallback' ? { query_strategy: 'broadened' } : {}),
-          },
-        };
+        let queryStrategy: string | undefined;
+        if (expansion && (ftsQuery === expansion.query || ftsQuery === expansion.relaxed)) {
+          // Report which glossary terms were translated to find the results
+          queryStrategy = `glossary_expansion: ${expansion.terms.map(t => `${t.term} → ${t.translations.join(' / ')}`).join('; ')}`;
+        } else if (ftsQuery !== queryVariants[0]) {
+          queryStrategy = 'broadened';
+        }
+        return respond(rows, tier, queryStrategy, fromWhere, params);
       }
     } catch {
       // FTS query syntax error — try next variant
@@ -101,73 +394,153 @@ export async function searchLegislation(
   }
 
   // LIKE fallback — final tier when all FTS5 variants return no results
-  {
-    const likePattern = buildLikePattern(sanitizeFtsInput(input.query));
-    let likeSql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        ld.title_en as document_title_en,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        substr(lp.content, 1, 200) as snippet,
-        0 as relevance
-      FROM legal_provisions lp
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE lp.content LIKE ? COLLATE NOCASE
-    `;
-    const likeParams: (string | number)[] = [likePattern];
-
-    if (input.document_id) {
-      likeSql += ' AND lp.document_id = ?';
-      likeParams.push(input.document_id);
-    }
+  if (cursor?.tier === undefined || cursor.tier === likeTier) {
+    const likePattern = buildLikePattern(sanitized);
+    const likeColumns = asOfDate
+      ? `
+          pv.document_id,
+          ld.title as document_title,
+          ld.title_en as document_title_en,
+          pv.provision_ref,
+          ${kindColumn}
+          lp.chapter,
+          pv.section,
+          pv.title,
+          substr(pv.content, 1, 200) as snippet,
+          0 as relevance,
+          pv.valid_from,
+          pv.valid_to`
+      : `
+          lp.document_id,
+          ld.title as document_title,
+          ld.title_en as document_title_en,
+          lp.provision_ref,
+          ${kindColumn}
+          lp.chapter,
+          lp.section,
+          lp.title,
+          substr(lp.content, 1, 200) as snippet,
+          0 as relevance`;
 
-    if (input.status) {
-      likeSql += ' AND ld.status = ?';
-      likeParams.push(input.status);
-    }
+    const likeFrom = asOfDate
+      ? `
+        FROM provision_versions pv
+        JOIN legal_documents ld ON ld.id = pv.document_id
+        LEFT JOIN legal_provisions lp ON lp.document_id = pv.document_id AND lp.provision_ref = pv.provision_ref
+        WHERE pv.content LIKE ? COLLATE NOCASE
+          AND ${VERSION_IN_FORCE_SQL}`
+      : `
+        FROM legal_provisions lp
+        JOIN legal_documents ld ON ld.id = lp.document_id
+        WHERE lp.content LIKE ? COLLATE NOCASE`;
 
-    likeSql += ' LIMIT ?';
-    likeParams.push(fetchLimit);
+    const fromWhere = `${likeFrom}${filterSql}`;
+    const params: (string | number)[] = [likePattern, ...(asOfDate ? [asOfDate, asOfDate] : []), ...filterParams];
 
     try {
-      const rows = db.prepare(likeSql).all(...likeParams) as SearchLegislationResult[];
+      const rows = db.prepare(`SELECT ${likeColumns} ${fromWhere} ORDER BY ${p}.id LIMIT ? OFFSET ?`)
+        .all(...params, fetchLimit, offset) as SearchLegislationResult[];
       if (rows.length > 0) {
-        return {
-          results: deduplicateResults(rows, limit),
-          _metadata: {
-            ...generateResponseMetadata(db),
-            query_strategy: 'like_fallback',
-          },
-        };
+        return respond(rows, likeTier, 'like_fallback', fromWhere, params);
       }
     } catch {
       // LIKE query failed — fall through to empty return
     }
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  return {
+    results: input.facets ? { hits: [], facets: emptyFacets() } : [],
+    _metadata: metadata,
+  };
+}
+
+/**
+ * The query embedder when semantic_search can run, otherwise null with a
+ * warning saying why; the search then continues on full-text alone.
+ */
+async function semanticEmbedder(
+  capabilities: Set<Capability>,
+  asOfDate: string | undefined,
+  metadata: ResponseMetadata,
+) {
+  let reason: string | undefined;
+  if (asOfDate) {
+    reason = 'embeddings cover the current text only, not as_of_date versions';
+  } else if (!capabilities.has('embeddings')) {
+    reason = 'this database was built without embeddings (npm run build:db -- --embeddings)';
+  }
+  const embedder = reason ? null : await getQueryEmbedder();
+  if (!embedder) {
+    reason ??= 'the embedding model is not available (install @huggingface/transformers and rebuild with --embeddings)';
+    metadata.warnings = [...(metadata.warnings ?? []), `semantic_search ignored: ${reason}. Results use full-text search only.`];
+  }
+  return embedder;
+}
+
+/**
+ * Hit counts over every match of the query (not only the returned page),
+ * grouped by document and chapter in one pass and rolled up from there.
+ */
+function countFacets(db: Database, p: string, fromWhere: string, params: (string | number)[]): SearchFacets {
+  const rows = db.prepare(`
+    SELECT ${p}.document_id, ld.title as document_title, ld.type as document_type, ld.status,
+           lp.chapter, COUNT(*) as count
+    ${fromWhere}
+    GROUP BY ${p}.document_id, lp.chapter
+  `).all(...params) as FacetRow[];
+
+  const facets = emptyFacets();
+  const documents = new Map<string, SearchFacets['by_document'][number]>();
+  const types = new Map<string, number>();
+  const statuses = new Map<string, number>();
+
+  for (const row of rows) {
+    facets.total_hits += row.count;
+
+    const document = documents.get(row.document_id)
+      ?? { document_id: row.document_id, document_title: row.document_title, document_type: row.document_type, count: 0 };
+    document.count += row.count;
+    documents.set(row.document_id, document);
+
+    types.set(row.document_type, (types.get(row.document_type) ?? 0) + row.count);
+    statuses.set(row.status, (statuses.get(row.status) ?? 0) + row.count);
+
+    if (row.chapter) {
+      facets.by_chapter.push({ document_id: row.document_id, chapter: row.chapter, count: row.count });
+    }
+  }
+
+  const byCount = (a: { count: number }, b: { count: number }) => b.count - a.count;
+  facets.by_document = [...documents.values()].sort(byCount);
+  facets.by_document_type = [...types].map(([document_type, count]) => ({ document_type, count })).sort(byCount);
+  facets.by_status = [...statuses].map(([status, count]) => ({ status, count })).sort(byCount);
+  facets.by_chapter.sort(byCount);
+  return facets;
+}
+
+function emptyFacets(): SearchFacets {
+  return { total_hits: 0, by_document: [], by_document_type: [], by_status: [], by_chapter: [] };
 }
 
 /**
  * Deduplicate search results by document_title + provision_ref.
- * Keeps the first (highest-ranked) occurrence.
+ * Keeps the first (highest-ranked) occurrence. `consumed` is the number of
+ * rows read to fill the page, where the next page starts.
  */
 function deduplicateResults(
   rows: SearchLegislationResult[],
   limit: number,
-): SearchLegislationResult[] {
+): { results: SearchLegislationResult[]; consumed: number } {
   const seen = new Set<string>();
   const deduped: SearchLegislationResult[] = [];
+  let consumed = 0;
   for (const row of rows) {
+    if (deduped.length >= limit) break;
+    consumed++;
     const key = `${row.document_title}::${row.provision_ref}`;
     if (seen.has(key)) continue;
     seen.add(key);
     deduped.push(row);
-    if (deduped.length >= limit) break;
   }
-  return deduped;
+  return { results: deduped, consumed };
 }
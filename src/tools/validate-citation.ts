@@ -19,8 +19,13 @@ export interface ValidateCitationResult {
   valid: boolean;
   document_exists: boolean;
   provision_exists: boolean;
+  pinpoint_exists?: boolean;
+  /** Date and act of the deletion when the cited article is a deleted stub */
+  provision_deleted?: { deleted_date: string | null; deleted_by: string | null };
   document_title?: string;
   status?: string;
+  /** Laws the cited title may mean when it is ambiguous, best first */
+  candidates?: ValidationResult['candidates'];
   warnings: string[];
 }
 
@@ -52,11 +57,17 @@ export async function validateCitationTool(
       citation: input.citation,
       formatted_citation_korean: formattedKorean,
       formatted_citation_english: formattedEnglish,
-      valid: result.citation.valid && result.document_exists && result.provision_exists,
+      // A law cited without an article ("법률 제19234호") is valid when the law exists
+      valid: result.citation.valid && result.document_exists
+        && (result.provision_exists || !result.citation.article)
+        && result.pinpoint_exists !== false && !result.provision_deleted,
       document_exists: result.document_exists,
       provision_exists: result.provision_exists,
+      pinpoint_exists: result.pinpoint_exists,
+      ...(result.provision_deleted ? { provision_deleted: result.provision_deleted } : {}),
       document_title: result.document_title,
       status: result.status,
+      ...(result.candidates ? { candidates: result.candidates } : {}),
       warnings: result.warnings,
     },
     _metadata: generateResponseMetadata(db)
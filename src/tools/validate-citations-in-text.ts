@@ -0,0 +1,175 @@
+/**
+ * validate_citations_in_text — Check every statute citation in a passage.
+ *
+ * Finds the citations in a paragraph or a whole memo (Korean or English,
+ * 「」-bracketed titles, 같은 법 back-references) and validates each against
+ * the database, so drafted text can be checked in one pass before it is
+ * returned. Each citation comes back with its position in the text, a
+ * status, the canonical Korean form and a correction where one is safe.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { extractCitations } from '../citation/extractor.js';
+import { validateCitation } from '../citation/validator.js';
+import { formatCitation } from '../citation/formatter.js';
+import { resolveDocument, type DocumentCandidate } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import type { ProvisionDeletion } from '../utils/deletions.js';
+
+export interface ValidateCitationsInTextInput {
+  text: string;
+}
+
+export type CitationStatus =
+  | 'valid'
+  | 'ambiguous'
+  | 'document_not_found'
+  | 'provision_not_found'
+  | 'pinpoint_not_found'
+  | 'deleted';
+
+export interface TextCitationCheck {
+  /** The citation as written */
+  text: string;
+  /** Offsets in the input text (UTF-16 code units, end exclusive) */
+  start: number;
+  end: number;
+  language: 'ko' | 'en';
+  status: CitationStatus;
+  /** Official Korean form, e.g. "개인정보 보호법 제15조제1항"; null when the law is not in the database */
+  canonical: string | null;
+  /** Replacement for the citation as written; null when it is correct or nothing safe can be suggested */
+  correction: string | null;
+  document_id: string | null;
+  document_title: string | null;
+  /** Date and act of the deletion when the cited article is a deleted stub */
+  provision_deleted?: ProvisionDeletion;
+  /** Laws an ambiguous title may mean, best first */
+  candidates?: DocumentCandidate[];
+  warnings: string[];
+}
+
+export interface ValidateCitationsInTextResult {
+  citations: TextCitationCheck[];
+  total: number;
+  valid: number;
+  invalid: number;
+}
+
+const MAX_TEXT_LENGTH = 200_000;
+
+/** Titles compared without spacing: 개인정보보호법 = 개인정보 보호법 */
+function compact(title: string): string {
+  return title.replace(/\s+/g, '').toLowerCase();
+}
+
+export async function validateCitationsInText(
+  db: Database,
+  input: ValidateCitationsInTextInput
+): Promise<ToolResponse<ValidateCitationsInTextResult>> {
+  if (!input.text || input.text.trim().length === 0) {
+    throw new Error('text is required');
+  }
+  if (input.text.length > MAX_TEXT_LENGTH) {
+    throw new Error(`text is too long (${input.text.length} characters, max ${MAX_TEXT_LENGTH}); split it into parts`);
+  }
+
+  const metadata = generateResponseMetadata(db);
+
+  // Titles, then short names and English titles, of the laws in the database
+  const knownTitles = new Map<string, string>();
+  const rows = db.prepare('SELECT id, title, short_name, title_en FROM legal_documents').all() as
+    Array<{ id: string; title: string; short_name: string | null; title_en: string | null }>;
+  for (const column of ['title', 'short_name', 'title_en'] as const) {
+    for (const row of rows) {
+      const name = row[column];
+      if (name && !knownTitles.has(compact(name))) knownTitles.set(compact(name), row.id);
+    }
+  }
+  const isKnownTitle = (title: string) => knownTitles.has(compact(title));
+
+  const citations = extractCitations(input.text, { isKnownTitle }).map(extracted => {
+    const known = isKnownTitle(extracted.title);
+    const resolution = resolveDocument(db, extracted.title);
+    const documentId = knownTitles.get(compact(extracted.title)) ?? resolution.document_id;
+    const check: TextCitationCheck = {
+      text: extracted.text,
+      start: extracted.start,
+      end: extracted.end,
+      language: extracted.language,
+      status: 'valid',
+      canonical: null,
+      correction: null,
+      document_id: null,
+      document_title: null,
+      warnings: [],
+    };
+
+    if (!documentId && resolution.status === 'ambiguous') {
+      check.status = 'ambiguous';
+      check.candidates = resolution.candidates;
+      check.warnings.push(`"${extracted.title}" matches several laws (${resolution.candidates.map(c => c.title).join(', ')}); cite the full title`);
+      return check;
+    }
+
+    // A title without an article: only the law itself can be checked
+    if (!extracted.pinpoint) {
+      if (!documentId) {
+        check.status = 'document_not_found';
+        check.warnings.push(`Document "${extracted.title}" not found in database`);
+        return check;
+      }
+      const doc = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as { title: string };
+      check.document_id = documentId;
+      check.document_title = doc.title;
+      check.canonical = `「${doc.title}」`;
+      if (!known) {
+        check.correction = check.canonical;
+        check.warnings.push(`"${extracted.title}" is not the title of a law in the database; read as ${doc.title}`);
+      }
+      return check;
+    }
+
+    const result = validateCitation(db, extracted.citation, documentId ?? undefined);
+    check.warnings.push(...result.warnings);
+    if (!result.document_exists || !result.document_title) {
+      check.status = 'document_not_found';
+      return check;
+    }
+
+    const pinpoint = formatCitation(result.citation, 'pinpoint');
+    check.document_id = result.document_id ?? null;
+    check.document_title = result.document_title;
+    check.canonical = `${result.document_title} ${pinpoint}`;
+
+    if (!result.provision_exists) {
+      check.status = 'provision_not_found';
+    } else if (result.provision_deleted) {
+      check.status = 'deleted';
+      check.provision_deleted = result.provision_deleted;
+    } else if (result.pinpoint_exists === false) {
+      check.status = 'pinpoint_not_found';
+      // The article exists; cite it without the paragraph/item that does not
+      check.correction = `${result.document_title} ${formatCitation({ ...result.citation, paragraph: undefined, item: undefined, sub_item: undefined, clause: undefined }, 'pinpoint')}`;
+    } else if (!known) {
+      check.correction = check.canonical;
+      check.warnings.push(`"${extracted.title}" is not the title of a law in the database; read as ${result.document_title}`);
+    }
+    return check;
+  });
+
+  const valid = citations.filter(c => c.status === 'valid').length;
+  if (citations.length === 0) {
+    metadata.warnings = [...(metadata.warnings ?? []), 'No statute citations found in the text.'];
+  }
+
+  return {
+    results: {
+      citations,
+      total: citations.length,
+      valid,
+      invalid: citations.length - valid,
+    },
+    _metadata: metadata,
+  };
+}
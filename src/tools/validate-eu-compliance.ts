@@ -4,7 +4,8 @@
 
 import type { Database } from '@ansvar/mcp-sqlite';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
-import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { articleProvisionRef, koreanArticleLabel } from '../utils/article-ref.js';
 
 export interface ValidateEUComplianceInput {
   document_id: string;
@@ -30,15 +31,15 @@ export async function validateEUCompliance(
     throw new Error('document_id is required');
   }
 
-  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  const resolvedId = resolveDocumentId(db, input.document_id);
   if (!resolvedId) {
     throw new Error(`Document "${input.document_id}" not found in database`);
   }
 
   let provisionId: number | null = null;
   if (input.provision_ref?.trim()) {
-    const articleRef = `art-${input.provision_ref}`;
-    const koreanRef = `제${input.provision_ref}조`;
+    const articleRef = articleProvisionRef(input.provision_ref);
+    const koreanRef = koreanArticleLabel(input.provision_ref);
     const row = db.prepare(
       'SELECT id FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ? OR section = ?) LIMIT 1'
     ).get(resolvedId, input.provision_ref, articleRef, input.provision_ref, koreanRef) as { id: number } | undefined;
@@ -1,15 +1,24 @@
 export type CitationFormat = 'full' | 'short' | 'pinpoint' | 'korean';
 
+/** Part of a paragraph or item: 본문 (main text), 단서 (proviso), 전단/후단 (former/latter part) */
+export type CitationClause = '본문' | '단서' | '전단' | '후단';
+
 export interface ParsedCitation {
   valid: boolean;
-  type: 'statute' | 'presidential_decree' | 'unknown';
+  type: 'statute' | 'presidential_decree' | 'ministerial_ordinance' | 'unknown';
   title?: string;
   title_en?: string;
   law_number?: string;
+  /** Kind of act the law number belongs to: 법률, 대통령령, 총리령, 행정안전부령, ... */
+  law_number_kind?: string;
   year?: number;
   article?: string;
   paragraph?: string;
   item?: string;
+  sub_item?: string;
+  clause?: CitationClause;
+  /** "같은 법" / "동법": the law cited just before, which the citation itself does not name */
+  same_law?: boolean;
   error?: string;
 }
 
@@ -17,7 +26,14 @@ export interface ValidationResult {
   citation: ParsedCitation;
   document_exists: boolean;
   provision_exists: boolean;
+  /** Whether the cited paragraph/item/sub-item exists; undefined when none was cited or it could not be checked. */
+  pinpoint_exists?: boolean;
+  /** Set when the cited article is a deleted stub (삭제): date and act of the deletion */
+  provision_deleted?: { deleted_date: string | null; deleted_by: string | null };
+  document_id?: string;
   document_title?: string;
   status?: string;
+  /** Laws the cited title may mean, best first, when it matches several about equally */
+  candidates?: Array<{ id: string; title: string; type: string; confidence: number; match_reason: string }>;
   warnings: string[];
 }
@@ -10,6 +10,7 @@ export type {
 } from './provisions.js';
 
 export type {
+  CitationClause,
   CitationFormat,
   ParsedCitation,
   ValidationResult,
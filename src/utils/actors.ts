@@ -0,0 +1,122 @@
+/**
+ * Regulated actors (수범자) of Korean data and ICT laws.
+ *
+ * Each Act addresses its duties to defined actors — 개인정보처리자 in PIPA,
+ * 정보통신서비스 제공자 in the Network Act, 신용정보회사등 and
+ * 본인신용정보관리회사 (MyData operators) in the Credit Information Act — and
+ * drafts them as the topic of the sentence: "개인정보처리자는 ... 하여야 한다".
+ * Terms are matched with optional spaces, since statutes write both
+ * "정보통신서비스 제공자" and "정보통신서비스제공자".
+ */
+
+export interface RegulatedActor {
+  id: string;
+  /** Statutory terms, most specific first */
+  ko: string[];
+  en: string;
+}
+
+export const REGULATED_ACTORS: RegulatedActor[] = [
+  { id: 'personal_information_controller', ko: ['개인정보처리자'], en: 'personal information controller' },
+  { id: 'privacy_officer', ko: ['개인정보 보호책임자'], en: 'chief privacy officer' },
+  { id: 'outsourcee', ko: ['수탁자'], en: 'outsourcee (processor)' },
+  { id: 'ict_service_provider', ko: ['정보통신서비스 제공자'], en: 'information and communications service provider' },
+  { id: 'mydata_operator', ko: ['본인신용정보관리회사', '마이데이터사업자'], en: 'MyData operator' },
+  { id: 'credit_information_company', ko: ['신용정보회사등', '신용정보회사', '신용정보집중기관'], en: 'credit information company' },
+  { id: 'credit_information_user', ko: ['신용정보제공ㆍ이용자'], en: 'credit information provider/user' },
+  { id: 'location_information_provider', ko: ['개인위치정보사업자', '위치정보사업자', '위치기반서비스사업자'], en: 'location information business operator' },
+  { id: 'public_institution', ko: ['공공기관의 장', '공공기관'], en: 'public institution' },
+  { id: 'state', ko: ['국가', '지방자치단체'], en: 'State or local government' },
+  { id: 'regulator', ko: ['보호위원회', '금융위원회', '과학기술정보통신부장관', '방송통신위원회'], en: 'supervisory authority' },
+  { id: 'data_subject', ko: ['정보주체', '신용정보주체', '이용자'], en: 'data subject / user' },
+  { id: 'anyone', ko: ['누구든지'], en: 'anyone' },
+];
+
+const termPattern = (term: string) => term.split(/\s+/).map(escapeRegExp).join('\\s*');
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface IndexedTerm {
+  actor: RegulatedActor;
+  term: string;
+  pattern: RegExp;
+}
+
+/** Longest terms first, so 개인위치정보사업자 is not read as 위치정보사업자 */
+const INDEXED_TERMS: IndexedTerm[] = REGULATED_ACTORS
+  .flatMap(actor => actor.ko.map(term => ({ actor, term, pattern: new RegExp(termPattern(term), 'g') })))
+  .sort((a, b) => b.term.length - a.term.length);
+
+const compact = (text: string) => text.replace(/\s+/g, '');
+
+/**
+ * The actor named by a role filter: an actor id ("mydata_operator") or one
+ * of its statutory terms ("마이데이터사업자", spacing ignored).
+ */
+export function resolveActor(role: string): RegulatedActor {
+  const key = compact(role).toLowerCase();
+  const actor = REGULATED_ACTORS.find(a => a.id === key || a.ko.some(term => compact(term) === key));
+  if (!actor) {
+    throw new Error(`Unknown role "${role}". Use an actor id (${REGULATED_ACTORS.map(a => a.id).join(', ')}) or its Korean term.`);
+  }
+  return actor;
+}
+
+/**
+ * SQL condition keeping the provisions (by document_id and provision_ref of
+ * the given alias) that mention the actor bound to its parameter, plus those
+ * whose duties are addressed to 누구든지, which bind every actor. Needs the
+ * provision_actors table.
+ */
+export function actorFilterSql(alias: string): string {
+  return `EXISTS (
+    SELECT 1 FROM provision_actors pa
+    WHERE pa.document_id = ${alias}.document_id AND pa.provision_ref = ${alias}.provision_ref
+      AND (pa.actor_id = ? OR (pa.actor_id = 'anyone' AND pa.addressee = 1))
+  )`;
+}
+
+/** Subject particle right after an actor term: 은/는/이/가 */
+const SUBJECT_PARTICLE = /^(?:은|는|이|가)(?=\s|$)/;
+
+export interface ActorMention {
+  actor: RegulatedActor;
+  /** The term as written */
+  term: string;
+  index: number;
+}
+
+/** Every actor term in a text, left to right, without overlaps */
+export function findActorMentions(text: string): ActorMention[] {
+  const mentions: ActorMention[] = [];
+  const taken: Array<[number, number]> = [];
+
+  for (const { actor, pattern } of INDEXED_TERMS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      // A term at the end of a longer word (이용자 in 정보이용자) is not a mention
+      if (/[가-힣]$/.test(text.slice(0, start))) continue;
+      taken.push([start, end]);
+      mentions.push({ actor, term: match[0], index: start });
+    }
+  }
+
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * The actor a duty sentence is addressed to: the first actor written as the
+ * subject ("개인정보처리자는", "누구든지"). Returns null when the subject is not
+ * a known actor.
+ */
+export function findAddressee(sentence: string): ActorMention | null {
+  for (const mention of findActorMentions(sentence)) {
+    const rest = sentence.slice(mention.index + mention.term.length);
+    if (mention.actor.id === 'anyone' || SUBJECT_PARTICLE.test(rest)) return mention;
+  }
+  return null;
+}
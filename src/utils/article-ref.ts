@@ -0,0 +1,56 @@
+/**
+ * Article numbers, including branch (가지) articles.
+ *
+ * Articles inserted by an amendment take the number of the preceding
+ * article with a branch number: 제28조의2 follows 제28조 and precedes 제29조.
+ * The database stores them as provision_ref "art-28-2" (KLRI translations
+ * number them "Article 28-2"); callers write them in many ways:
+ *
+ *   "28-2", "28의2", "제28조의2", "Article 28-2", "Art. 28bis", "art-28-2"
+ */
+
+/** Latin ordinals used for inserted articles in English texts (Art. 15bis) */
+const LATIN_BRANCHES: Record<string, number> = {
+  bis: 2, ter: 3, quater: 4, quinquies: 5, sexies: 6, septies: 7, octies: 8, novies: 9, decies: 10,
+};
+
+const ARTICLE_INPUT = new RegExp(
+  '^(?:art-|(?:article|art\\.?)\\s*)?제?\\s*(\\d+)\\s*조?\\s*' +
+  `(?:(?:의|-)\\s*(\\d+)|(${Object.keys(LATIN_BRANCHES).join('|')}))?$`,
+  'i',
+);
+
+/**
+ * Normalise an article reference to the "28" / "28-2" form used in
+ * provision refs. Returns the trimmed input unchanged when it is not an
+ * article number, so lookups by section or custom refs still work.
+ */
+export function normalizeArticle(input: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(ARTICLE_INPUT);
+  if (!match) return trimmed;
+  const branch = match[2] ?? (match[3] ? String(LATIN_BRANCHES[match[3].toLowerCase()]) : undefined);
+  return branch ? `${match[1]}-${branch}` : match[1];
+}
+
+/** "28-2" → "art-28-2" */
+export function articleProvisionRef(article: string): string {
+  return `art-${normalizeArticle(article)}`;
+}
+
+/** "28-2" → "제28조의2"; also accepts provision refs ("art-28-2") */
+export function koreanArticleLabel(article: string): string {
+  const [number, branch] = normalizeArticle(article).split('-');
+  return `제${number}조${branch ? `의${branch}` : ''}`;
+}
+
+/**
+ * ORDER BY expression for provision refs in article order: art-28, art-28-2,
+ * art-28-10, art-29 (plain text order would put art-28-10 before art-28-2).
+ */
+export function articleOrderSql(column: string): string {
+  const rest = `substr(${column}, 5)`;
+  return `CAST(${rest} AS INTEGER), ` +
+    `CASE WHEN instr(${rest}, '-') > 0 THEN CAST(substr(${rest}, instr(${rest}, '-') + 1) AS INTEGER) ELSE 0 END, ` +
+    column;
+}
@@ -10,6 +10,11 @@ function isValidCalendarDate(value: string): boolean {
 }
 
 export function normalizeAsOfDate(value: string | undefined): string | undefined {
+  return normalizeIsoDate(value, 'as_of_date');
+}
+
+/** Validate an optional YYYY-MM-DD input; `name` is used in the error message. */
+export function normalizeIsoDate(value: string | undefined, name: string): string | undefined {
   if (value == null) {
     return undefined;
   }
@@ -20,8 +25,20 @@ export function normalizeAsOfDate(value: string | undefined): string | undefined
   }
 
   if (!ISO_DATE_PATTERN.test(trimmed) || !isValidCalendarDate(trimmed)) {
-    throw new Error('as_of_date must be an ISO date in YYYY-MM-DD format');
+    throw new Error(`${name} must be an ISO date in YYYY-MM-DD format`);
   }
 
   return trimmed;
 }
+
+/**
+ * SQL predicate selecting the provision version (alias `pv`) in force on a date.
+ * Windows are half-open: valid_from inclusive, valid_to exclusive. A NULL
+ * valid_from means the start is unknown and is treated as "since the earliest
+ * ingested version". Bind the date twice.
+ */
+export const VERSION_IN_FORCE_SQL =
+  '(pv.valid_from IS NULL OR pv.valid_from <= ?) AND (pv.valid_to IS NULL OR pv.valid_to > ?)';
+
+export const AS_OF_UNSUPPORTED_WARNING =
+  'as_of_date ignored: this database was built without provision history. Returning current text.';
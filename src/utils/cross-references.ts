@@ -0,0 +1,86 @@
+/**
+ * Provision-to-provision links from the cross_references table.
+ *
+ * build-db writes one row per cited article: `references` for ordinary
+ * citations ("제17조제1항에 따라", "「신용정보법」 제32조") and `implements`
+ * for a decree or ordinance article citing the Act article it implements.
+ * The target provision may be missing when the citation points at an article
+ * that is not in the database; section and title are then null.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+type Db = InstanceType<typeof Database>;
+
+export type CrossReferenceType = 'references' | 'amended_by' | 'implements' | 'see_also';
+
+export interface LinkedProvision {
+  document_id: string;
+  document_title: string;
+  document_type: string;
+  provision_ref: string;
+  section: string | null;
+  title: string | null;
+  ref_type: CrossReferenceType;
+  /** The citation as written in the citing article, e.g. "법 제29조" */
+  citation: string | null;
+}
+
+/** Columns of the provision on the other end of each link */
+const LINK_SQL = {
+  outgoing: `
+    SELECT
+      xr.target_document_id as document_id,
+      ld.title as document_title,
+      ld.type as document_type,
+      xr.target_provision_ref as provision_ref,
+      lp.section,
+      lp.title,
+      xr.ref_type,
+      xr.context as citation
+    FROM cross_references xr
+    JOIN legal_documents ld ON ld.id = xr.target_document_id
+    LEFT JOIN legal_provisions lp
+      ON lp.document_id = xr.target_document_id AND lp.provision_ref = xr.target_provision_ref
+    WHERE xr.source_document_id = ? AND xr.source_provision_ref = ?
+  `,
+  incoming: `
+    SELECT
+      xr.source_document_id as document_id,
+      ld.title as document_title,
+      ld.type as document_type,
+      xr.source_provision_ref as provision_ref,
+      lp.section,
+      lp.title,
+      xr.ref_type,
+      xr.context as citation
+    FROM cross_references xr
+    JOIN legal_documents ld ON ld.id = xr.source_document_id
+    LEFT JOIN legal_provisions lp
+      ON lp.document_id = xr.source_document_id AND lp.provision_ref = xr.source_provision_ref
+    WHERE xr.target_document_id = ? AND xr.target_provision_ref = ?
+  `,
+};
+
+/**
+ * Provisions cited by (outgoing) or citing (incoming) a provision, in
+ * document order. Links to articles missing from the database come last.
+ */
+export function findLinkedProvisions(
+  db: Db,
+  direction: 'outgoing' | 'incoming',
+  documentId: string,
+  provisionRef: string,
+  refTypes?: CrossReferenceType[],
+): LinkedProvision[] {
+  let sql = LINK_SQL[direction];
+  const params: string[] = [documentId, provisionRef];
+
+  if (refTypes && refTypes.length > 0) {
+    sql += ` AND xr.ref_type IN (${refTypes.map(() => '?').join(', ')})`;
+    params.push(...refTypes);
+  }
+  sql += ' ORDER BY lp.id IS NULL, lp.id, xr.id';
+
+  return db.prepare(sql).all(...params) as LinkedProvision[];
+}
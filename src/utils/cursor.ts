@@ -0,0 +1,63 @@
+/**
+ * Opaque pagination cursors.
+ *
+ * A cursor is the position after the last returned row plus whatever the
+ * next page must reuse to stay consistent with the first (e.g. the query
+ * tier search_legislation settled on), encoded as base64url JSON. It carries
+ * a fingerprint of the request so a cursor cannot be replayed against a
+ * different query, where its offset would be meaningless.
+ */
+
+import { createHash } from 'node:crypto';
+
+export interface CursorState {
+  /** Rows consumed so far */
+  offset: number;
+  /** Tool-specific state that must stay fixed across pages */
+  tier?: number;
+}
+
+interface EncodedCursor extends CursorState {
+  fingerprint: string;
+}
+
+/** Stable fingerprint of the request parameters that define the result set */
+export function requestFingerprint(params: Record<string, unknown>): string {
+  const canonical = JSON.stringify(Object.keys(params).sort().map(key => [key, params[key] ?? null]));
+  return createHash('sha256').update(canonical).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(state: CursorState, fingerprint: string): string {
+  const payload: EncodedCursor = { ...state, fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous response. Throws when it is malformed or
+ * was issued for different request parameters.
+ */
+export function decodeCursor(cursor: string, fingerprint: string): CursorState {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor: pass next_cursor from a previous response unchanged');
+  }
+  // JSON null, numbers, strings and arrays are valid JSON but not cursors
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Invalid cursor: pass next_cursor from a previous response unchanged');
+  }
+
+  const payload = parsed as Partial<EncodedCursor>;
+  if (typeof payload.offset !== 'number' || !Number.isInteger(payload.offset) || payload.offset < 0) {
+    throw new Error('Invalid cursor: pass next_cursor from a previous response unchanged');
+  }
+  if (payload.fingerprint !== fingerprint) {
+    throw new Error('Cursor does not match this request: repeat the original parameters when paging');
+  }
+
+  return {
+    offset: payload.offset,
+    ...(typeof payload.tier === 'number' ? { tier: payload.tier } : {}),
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Deleted articles (삭제 stubs) in the current text.
+ *
+ * build:db flags articles repealed by an amendment ("제39조의3 삭제
+ * <2020. 2. 4.>") with the date and number of the deleting act. Older
+ * databases lack the columns and report no deletions.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { hasColumns } from '../capabilities.js';
+
+type Db = InstanceType<typeof Database>;
+
+export interface ProvisionDeletion {
+  /** Promulgation date of the deleting act (YYYY-MM-DD) */
+  deleted_date: string | null;
+  /** Deleting act, e.g. "법률 제16930호"; null when not recorded */
+  deleted_by: string | null;
+}
+
+/** Whether the database flags deleted-article stubs */
+export function hasDeletionFlags(db: Db): boolean {
+  return hasColumns(db, 'legal_provisions', ['deleted', 'deleted_date', 'deleted_by']);
+}
+
+/** Deleted articles among the given provisions of a document, keyed by provision_ref */
+export function findDeletions(db: Db, documentId: string, provisionRefs: string[]): Map<string, ProvisionDeletion> {
+  const deletions = new Map<string, ProvisionDeletion>();
+  if (provisionRefs.length === 0 || !hasDeletionFlags(db)) return deletions;
+
+  const rows = db.prepare(`
+    SELECT provision_ref, deleted_date, deleted_by FROM legal_provisions
+    WHERE document_id = ? AND deleted = 1 AND provision_ref IN (${provisionRefs.map(() => '?').join(', ')})
+  `).all(documentId, ...provisionRefs) as Array<ProvisionDeletion & { provision_ref: string }>;
+
+  for (const { provision_ref, ...deletion } of rows) {
+    deletions.set(provision_ref, deletion);
+  }
+  return deletions;
+}
+
+/** "개인정보 보호법 제39조의3 was deleted on 2020-02-04 by 법률 제16930호 ..." */
+export function deletionWarning(label: string, deletion: ProvisionDeletion): string {
+  const when = deletion.deleted_date ? ` on ${deletion.deleted_date}` : '';
+  const by = deletion.deleted_by ? ` by ${deletion.deleted_by}` : '';
+  return `${label} was deleted${when}${by} (삭제); it has no text in force and cannot be cited as current law.`;
+}
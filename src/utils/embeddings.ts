@@ -0,0 +1,169 @@
+/**
+ * Local sentence embeddings for hybrid search.
+ *
+ * `build:db -- --embeddings` embeds every current provision with a small
+ * multilingual model (multilingual-e5-small: 384 dimensions, runs on CPU)
+ * and stores the normalised vectors in provision_embeddings. At query time
+ * the same model embeds the query, so Korean and English queries land near
+ * the Korean articles they describe.
+ *
+ * The model runs through @huggingface/transformers, which is not a
+ * dependency of this package: install it by hand where embeddings are built
+ * or served (see the README). The build fetches the model files at
+ * EMBEDDING_MODEL_REVISION into data/models; the server only reads that copy
+ * and never downloads at query time. Without the package or the files,
+ * loading returns null and search stays on FTS.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const EMBEDDING_MODEL = 'Xenova/multilingual-e5-small';
+export const EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * Hub commit of EMBEDDING_MODEL, as a full 40-character SHA. Build and
+ * server pass the same revision, which is also the cache key of the files
+ * under data/models; change it only together with a rebuild of
+ * provision_embeddings. A branch such as "main" can move between builds, so
+ * nothing is downloaded until a commit is pinned here.
+ */
+export const EMBEDDING_MODEL_REVISION: string | null = null;
+
+/** A full Hub commit SHA, the only kind of revision the build downloads */
+export function isPinnedRevision(revision: string | null): revision is string {
+  return revision !== null && /^[0-9a-f]{40}$/.test(revision);
+}
+
+const MODEL_DIR_ENV_VAR = 'SOUTH_KOREA_LAW_MODEL_DIR';
+
+/** Module name in a variable: the package is optional and may not be installed */
+const TRANSFORMERS_MODULE = '@huggingface/transformers';
+
+/** e5 models are trained with these prefixes on queries and documents */
+export type EmbeddingKind = 'query' | 'passage';
+
+export type Embedder = (texts: string[], kind: EmbeddingKind) => Promise<Float32Array[]>;
+
+interface FeatureExtractionOutput {
+  data: Float32Array;
+  dims: number[];
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean },
+) => Promise<FeatureExtractionOutput>;
+
+interface TransformersModule {
+  env: { localModelPath: string; cacheDir: string; allowRemoteModels: boolean };
+  pipeline(task: 'feature-extraction', model: string, options?: { dtype?: string; revision?: string }): Promise<FeatureExtractor>;
+}
+
+/** data/models next to data/database.db, for both src/ and dist/ layouts */
+export function modelDirectory(): string {
+  return process.env[MODEL_DIR_ENV_VAR]
+    ?? join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'data', 'models');
+}
+
+/**
+ * Load the embedding model. build-db passes allowDownload to fetch the model
+ * into data/models once, which only happens at a pinned revision; the server
+ * only reads the local copy. Returns null when the package or the model is
+ * unavailable.
+ */
+export async function loadEmbedder(options: { allowDownload?: boolean } = {}): Promise<Embedder | null> {
+  let transformers: TransformersModule;
+  try {
+    transformers = await import(TRANSFORMERS_MODULE) as TransformersModule;
+  } catch {
+    return null;
+  }
+
+  transformers.env.localModelPath = modelDirectory();
+  transformers.env.cacheDir = modelDirectory();
+  transformers.env.allowRemoteModels = (options.allowDownload ?? false) && isPinnedRevision(EMBEDDING_MODEL_REVISION);
+
+  let extractor: FeatureExtractor;
+  try {
+    extractor = await transformers.pipeline('feature-extraction', EMBEDDING_MODEL, {
+      dtype: 'q8',
+      ...(EMBEDDING_MODEL_REVISION ? { revision: EMBEDDING_MODEL_REVISION } : {}),
+    });
+  } catch {
+    return null;
+  }
+
+  return async (texts, kind) => {
+    if (texts.length === 0) return [];
+    const output = await extractor(texts.map(t => `${kind}: ${t}`), { pooling: 'mean', normalize: true });
+    const dimensions = output.dims[output.dims.length - 1];
+    return texts.map((_, i) => output.data.slice(i * dimensions, (i + 1) * dimensions));
+  };
+}
+
+let queryEmbedder: Promise<Embedder | null> | undefined;
+
+/** The server's embedder, loaded on first use and kept for the process */
+export function getQueryEmbedder(): Promise<Embedder | null> {
+  queryEmbedder ??= loadEmbedder();
+  return queryEmbedder;
+}
+
+export function vectorToBlob(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function blobToVector(blob: Uint8Array): Float32Array {
+  // Copy: SQLite blobs are not guaranteed to be 4-byte aligned
+  const bytes = new Uint8Array(blob);
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
+
+/** Cosine similarity of two normalised vectors */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+type Db = InstanceType<typeof Database>;
+
+interface EmbeddingIndex {
+  ids: number[];
+  vectors: Float32Array[];
+}
+
+/** Vectors are read once per database; a scan is then a pass over memory */
+const indexes = new WeakMap<Db, EmbeddingIndex>();
+
+function loadEmbeddingIndex(db: Db): EmbeddingIndex {
+  let index = indexes.get(db);
+  if (!index) {
+    const rows = db.prepare('SELECT provision_id, embedding FROM provision_embeddings').all() as { provision_id: number; embedding: Uint8Array }[];
+    index = { ids: rows.map(r => r.provision_id), vectors: rows.map(r => blobToVector(r.embedding)) };
+    indexes.set(db, index);
+  }
+  return index;
+}
+
+/**
+ * Provisions (legal_provisions.id) most similar to a query vector, best
+ * first. `allowed` restricts the scan to the provisions passing the search
+ * filters.
+ */
+export function findSimilarProvisions(
+  db: Db,
+  query: Float32Array,
+  limit: number,
+  allowed?: Set<number>,
+): { provision_id: number; similarity: number }[] {
+  const { ids, vectors } = loadEmbeddingIndex(db);
+  const scored: { provision_id: number; similarity: number }[] = [];
+  ids.forEach((id, i) => {
+    if (allowed && !allowed.has(id)) return;
+    scored.push({ provision_id: id, similarity: cosineSimilarity(query, vectors[i]) });
+  });
+  return scored.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
@@ -0,0 +1,58 @@
+/**
+ * EU instruments a Korean provision implements or references, from the
+ * eu_references table.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { ProvisionEUReference } from '../types/index.js';
+
+export interface RefRow {
+  id: string; type: 'directive' | 'regulation'; title: string | null;
+  short_name: string | null; eu_article: string | null;
+  reference_type: string; full_citation: string | null; reference_context: string | null;
+}
+
+export function mapEuRef(r: RefRow): ProvisionEUReference {
+  const ref: ProvisionEUReference = {
+    id: r.id, type: r.type,
+    reference_type: r.reference_type as any,
+    full_citation: r.full_citation || r.id,
+  };
+  if (r.title) ref.title = r.title;
+  if (r.short_name) ref.short_name = r.short_name;
+  if (r.eu_article) ref.article = r.eu_article;
+  if (r.reference_context) ref.context = r.reference_context;
+  return ref;
+}
+
+/**
+ * EU references of several provisions (legal_provisions.id), or the
+ * statute-level references of several documents, in one query. Newest
+ * instrument first.
+ */
+export function findEuBasis<K extends number | string>(
+  db: Database,
+  level: K extends number ? 'provision' : 'document',
+  ids: K[],
+): Map<K, ProvisionEUReference[]> {
+  const basis = new Map<K, ProvisionEUReference[]>();
+  if (ids.length === 0) return basis;
+
+  const key = level === 'provision' ? 'er.provision_id' : 'er.document_id';
+  const rows = db.prepare(`
+    SELECT ${key} as owner, ed.id, ed.type, ed.title, ed.short_name, er.eu_article,
+           er.reference_type, er.full_citation, er.reference_context
+    FROM eu_documents ed
+    JOIN eu_references er ON ed.id = er.eu_document_id
+    WHERE ${key} IN (${ids.map(() => '?').join(', ')})
+      ${level === 'document' ? 'AND er.provision_id IS NULL' : ''}
+    ORDER BY ed.year DESC
+  `).all(...ids) as (RefRow & { owner: K })[];
+
+  for (const row of rows) {
+    const refs = basis.get(row.owner) ?? [];
+    refs.push(mapEuRef(row));
+    basis.set(row.owner, refs);
+  }
+  return basis;
+}
@@ -5,6 +5,9 @@
  * and 6-tier variant generation for SQLite FTS5.
  */
 
+import { isKoreanWord, stripKoreanSuffix } from './korean-text.js';
+import { findGlossaryTerms } from './legal-glossary.js';
+
 /** FTS5 boolean operators that should pass through to the engine. */
 const BOOLEAN_OPERATORS = new Set(['AND', 'OR', 'NOT']);
 
@@ -18,10 +21,16 @@ const STEM_SUFFIXES = [
 ];
 
 /**
- * Naive English stemmer: strips a common suffix and returns `stem*`.
+ * Naive stemmer: strips a common English suffix, or a Korean particle or
+ * predicate ending, and returns `stem*`.
  * Returns null if the word is too short (<5 chars) or no suffix matched.
  */
 export function stemWord(word: string): string | null {
+  if (isKoreanWord(word)) {
+    const stem = stripKoreanSuffix(word);
+    return stem !== word ? `${stem}*` : null;
+  }
+
   if (word.length < 5) return null;
 
   const lower = word.toLowerCase();
@@ -69,43 +78,80 @@ export function sanitizeFtsInput(input: string): string {
   return cleanTokens.join(' ');
 }
 
+export interface FtsQueryPlan {
+  /** FTS5 queries, most specific first */
+  variants: string[];
+  /** The glossary expansion among the variants, reported as the query strategy */
+  glossary: GlossaryExpansion | null;
+}
+
 /**
- * Build FTS5 query variants for a search term.
+ * Build FTS5 query variants for a search term, with the glossary expansion
+ * that tier 4 uses.
  *
  * When boolean operators (AND/OR/NOT) are detected, returns only the
  * sanitized input as a single variant — let FTS5 handle the boolean logic.
  *
  * Otherwise returns variants in specificity order (most specific first):
  * 1. Exact phrase match — `"term1 term2 term3"`
- * 2. AND — `term1 AND term2 AND term3`
- * 3. Prefix AND — `term1 AND term2 AND term3*`
- * 4. Stemmed prefix — `stem1* AND stem2* AND stem3*`
- * 5. OR — `term1 OR term2 OR term3`
+ * 2. Korean-normalised phrase — `"개인정보 처리"` for `개인정보를 처리하는`,
+ *    matching the normalised column build-db indexes next to the text
+ * 3. Korean stem phrase — `개인정보* + 처리*`, for indexes without it
+ * 4. Glossary expansion — `("personal information" OR 개인정보*) AND consent`
+ *    ... with `동의*` added to consent; see buildGlossaryExpansion
+ * 5. AND — `term1 AND term2 AND term3` (and its Korean-normalised form)
+ * 6. Prefix AND — `term1 AND term2 AND term3*`
+ * 7. Stemmed prefix — `stem1* AND stem2* AND stem3*`
+ * 8. OR — `term1 OR term2 OR term3`
  */
-export function buildFtsQueryVariants(sanitized: string): string[] {
+export function buildFtsQueryPlan(sanitized: string): FtsQueryPlan {
   if (!sanitized || sanitized.trim().length === 0) {
-    return [];
+    return { variants: [], glossary: null };
   }
 
   const tokens = sanitized.split(/\s+/).filter(t => t.length > 0);
-  if (tokens.length === 0) return [];
+  if (tokens.length === 0) return { variants: [], glossary: null };
 
   // Boolean passthrough: return as single variant for FTS5 to handle
   if (containsBooleanOperators(tokens)) {
-    return [sanitized];
+    return { variants: [sanitized], glossary: null };
   }
 
   const variants: string[] = [];
 
+  const normalized = tokens.map(stripKoreanSuffix);
+  const isNormalized = normalized.some((t, i) => t !== tokens[i]);
+  const hasKorean = tokens.some(isKoreanWord);
+
   // Tier 1: Exact phrase (multi-word only)
   if (tokens.length > 1) {
     variants.push(`"${tokens.join(' ')}"`);
+
+    // Tier 2: Korean-normalised phrase
+    if (isNormalized) {
+      variants.push(`"${normalized.join(' ')}"`);
+    }
+
+    // Tier 3: Korean stem phrase — each stem as a prefix, still adjacent
+    if (hasKorean) {
+      variants.push(normalized.map(t => `${t}*`).join(' + '));
+    }
+  }
+
+  // Tier 4: Glossary expansion into the other language
+  const expansion = buildGlossaryExpansion(sanitized);
+  if (expansion) {
+    variants.push(expansion.query);
+    if (expansion.relaxed) variants.push(expansion.relaxed);
   }
 
-  // Tier 2: AND query
+  // Tier 5: AND query, then its Korean-normalised form
   variants.push(tokens.join(' AND '));
+  if (isNormalized) {
+    variants.push(normalized.join(' AND '));
+  }
 
-  // Tier 3: Prefix AND (wildcard on last term, or single term)
+  // Tier 6: Prefix AND (wildcard on last term, or single term)
   const firstToken = tokens[0];
   const lastToken = tokens[tokens.length - 1];
   if (tokens.length === 1 && firstToken && firstToken.length >= 3) {
@@ -115,20 +161,89 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
     variants.push(prefixTerms.join(' AND '));
   }
 
-  // Tier 4: Stemmed prefix (all terms stemmed with wildcards)
+  // Tier 7: Stemmed prefix (all terms stemmed with wildcards)
   const stemmed = tokens.map(t => stemWord(t) ?? `${t}*`);
   const stemmedQuery = stemmed.join(' AND ');
-  // Only add if different from tier 3
+  // Only add if different from tier 6
   if (!variants.includes(stemmedQuery)) {
     variants.push(stemmedQuery);
   }
 
-  // Tier 5: OR query (broadest FTS5 variant)
+  // Tier 8: OR query (broadest FTS5 variant)
   if (tokens.length > 1) {
     variants.push(tokens.join(' OR '));
   }
 
-  return variants;
+  return { variants, glossary: expansion };
+}
+
+/** The variants of buildFtsQueryPlan, for callers that do not report the glossary expansion */
+export function buildFtsQueryVariants(sanitized: string): string[] {
+  return buildFtsQueryPlan(sanitized).variants;
+}
+
+export interface GlossaryExpansion {
+  /** FTS5 query with each glossary term OR-ed with its translations */
+  query: string;
+  /** The same with the words outside the glossary dropped, when there are any */
+  relaxed?: string;
+  terms: { term: string; translations: string[] }[];
+}
+
+/** Function words dropped from English queries before expansion */
+const ENGLISH_STOPWORDS = new Set(['a', 'an', 'the', 'of', 'for', 'to', 'in', 'on', 'by', 'with', 'and', 'or', 'about', 'under']);
+
+/** FTS5 operand for a glossary term: Korean stems as prefixes, phrases quoted */
+function glossaryOperand(term: string, language: 'ko' | 'en'): string {
+  if (/[^\p{L}\p{N}]/u.test(term)) return `"${term}"`;
+  return language === 'ko' ? `${term}*` : term;
+}
+
+/**
+ * Expand the glossary terms of a query into the other language:
+ * "personal information consent" →
+ * `("personal information" OR 개인정보*) AND (consent OR 동의*)`.
+ * Words outside the glossary stay as AND terms; `relaxed` drops them, since
+ * an untranslated English word rules out every Korean-only provision.
+ * Returns null when the query contains no glossary term or uses boolean
+ * operators.
+ */
+export function buildGlossaryExpansion(sanitized: string): GlossaryExpansion | null {
+  const words = sanitized.split(/\s+/).filter(t => t.length > 0);
+  if (words.length === 0 || containsBooleanOperators(words)) return null;
+
+  // "cross-border" is two words to the glossary and to unicode61
+  const tokens = words
+    .flatMap(w => w.split('-'))
+    .filter(t => t.length > 0 && !ENGLISH_STOPWORDS.has(t.toLowerCase()));
+  const matches = findGlossaryTerms(tokens);
+  if (matches.length === 0) return null;
+
+  const operands: string[] = [];
+  const expanded: string[] = [];
+  const terms: GlossaryExpansion['terms'] = [];
+  let next = 0;
+  for (const match of matches) {
+    operands.push(...tokens.slice(next, match.start));
+    const term = tokens.slice(match.start, match.end).join(' ');
+    const target = match.language === 'en' ? 'ko' : 'en';
+    const translations = match.entry[target];
+    const original = match.language === 'ko'
+      ? glossaryOperand(stripKoreanSuffix(term), 'ko')
+      : glossaryOperand(term, 'en');
+    const operand = `(${[original, ...translations.map(t => glossaryOperand(t, target))].join(' OR ')})`;
+    operands.push(operand);
+    expanded.push(operand);
+    terms.push({ term, translations });
+    next = match.end;
+  }
+  operands.push(...tokens.slice(next));
+
+  return {
+    query: operands.join(' AND '),
+    ...(operands.length > expanded.length ? { relaxed: expanded.join(' AND ') } : {}),
+    terms,
+  };
 }
 
 /**
@@ -0,0 +1,55 @@
+/**
+ * 편/장/절/관 heading lookup.
+ *
+ * build-db stores each heading under a path ref ("pt-2/ch-4", "ch-3/sec-1")
+ * and each article's innermost heading in legal_provisions.heading_ref, so
+ * the articles of a heading are those whose heading_ref equals the heading
+ * ref or starts with it followed by "/".
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+type Db = InstanceType<typeof Database>;
+
+export interface Heading {
+  heading_ref: string;
+  parent_ref: string | null;
+  level: 'part' | 'chapter' | 'section' | 'subsection';
+  label: string;
+  title: string;
+}
+
+const SEGMENT_PREFIX: Record<string, string> = { 편: 'pt', 장: 'ch', 절: 'sec', 관: 'sub' };
+
+/** SQL condition selecting the articles under a heading; bind the ref twice */
+export const UNDER_HEADING_SQL = "(lp.heading_ref = ? OR lp.heading_ref LIKE ? || '/%')";
+
+/**
+ * Normalise a heading as typed by a user into ref segments:
+ * "4" or "제4장" → "ch-4"; "제2편 제4장" → "pt-2/ch-4";
+ * "제3장제1절" → "ch-3/sec-1"; "제3장의2" → "ch-3-2". Refs pass through.
+ */
+export function normalizeHeadingRef(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (/^(?:(?:pt|ch|sec|sub)-\d+(?:-\d+)?\/?)+$/.test(trimmed)) return trimmed.replace(/\/$/, '');
+  if (/^\d+(?:-\d+)?$/.test(trimmed)) return `ch-${trimmed}`;
+
+  const segments = [...trimmed.matchAll(/제?\s*(\d+)\s*(편|장|절|관)(?:의(\d+))?/g)]
+    .map(([, number, kind, branch]) => `${SEGMENT_PREFIX[kind]}-${number}${branch ? `-${branch}` : ''}`);
+  return segments.length > 0 ? segments.join('/') : undefined;
+}
+
+/**
+ * Find the headings of a document matching a normalised ref. A ref that
+ * omits outer levels ("ch-4") matches at any depth ("pt-2/ch-4"), so codes
+ * whose chapter numbers restart in every 편 can return more than one.
+ */
+export function findHeadings(db: Db, documentId: string, ref: string): Heading[] {
+  return db.prepare(`
+    SELECT heading_ref, parent_ref, level, label, title
+    FROM headings
+    WHERE document_id = ? AND (heading_ref = ? OR heading_ref LIKE ?)
+    ORDER BY position
+  `).all(documentId, ref, `%/${ref}`) as Heading[];
+}
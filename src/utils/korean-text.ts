@@ -0,0 +1,82 @@
+/**
+ * Korean normalisation for full-text search.
+ *
+ * unicode61 indexes whole 어절, so "개인정보를", "개인정보의" and "개인정보"
+ * are three different tokens. Stripping the particle (조사) or the ending of
+ * a 하다/되다 predicate (어미) maps each 어절 onto its stem: "개인정보를
+ * 처리하는" → "개인정보 처리". build-db indexes the normalised text next to the
+ * original and the query builder normalises queries the same way, so the two
+ * only have to agree with each other, not with a dictionary.
+ */
+
+/**
+ * Particles and predicate endings, longest first so "에서는" wins over "는".
+ * A suffix is only stripped when at least two syllables remain, which keeps
+ * nouns such as 동의, 국가, 제한 and 포함 intact; single syllables are also
+ * kept when they end a noun listed in NOUN_ENDINGS (영향평가, 접근권한).
+ */
+const SUFFIXES = [
+  // 하다/되다/시키다 predicates
+  '하여서는', '하더라도',
+  '하여야', '하였다', '하거나', '하도록', '하려는', '하려면', '되거나', '되도록', '되어야', '되었다', '시키는',
+  '하는', '하여', '하고', '하며', '하지', '하면', '하기', '한다', '하게', '해야', '했다',
+  '되는', '되어', '되고', '되며', '되지', '되면', '되기', '된다', '시킨', '시킬', '시켜',
+  '한', '할', '함', '된', '될', '됨',
+  // Particles, alone and stacked
+  '으로부터', '에서부터',
+  '으로서는', '으로써', '으로서', '에게는', '에서는', '에게서', '로부터', '로서는', '까지는', '부터는', '이라도',
+  '에게', '에서', '에는', '에도', '으로', '로서', '로써', '와의', '과의', '와는', '과는',
+  '까지', '부터', '마다', '보다', '이나', '처럼', '만큼',
+  '은', '는', '이', '가', '을', '를', '의', '에', '로', '와', '과', '도', '만',
+].sort((a, b) => b.length - a.length);
+
+const MIN_STEM_LENGTH = 2;
+
+/**
+ * Nouns of legal text whose last syllable is also a particle or ending
+ * (가, 의, 과, 도, 한, ...). A 어절 ending in one of them is a bare noun, so
+ * its last syllable is not stripped: 영향평가 stays 영향평가, while
+ * 영향평가의 still becomes 영향평가.
+ */
+const NOUN_ENDINGS = [
+  // 가
+  '국가', '평가', '추가', '허가', '인가', '대가', '증가', '원가', '전문가',
+  // 의
+  '동의', '합의', '협의', '심의', '회의', '정의', '이의', '주의', '건의', '결의', '논의', '문의', '고의', '임의', '유의', '질의', '제의', '선의', '악의',
+  // 과
+  '결과', '효과', '부과', '초과', '경과', '통과', '성과',
+  // 도
+  '제도', '정도', '한도', '용도', '지도', '양도', '인도', '보도', '시도', '태도', '속도', '연도', '빈도', '신뢰도', '위험도',
+  // 만, 이, 로
+  '미만', '기만', '불만', '차이', '사이', '경로', '통로', '진로',
+  // 한, 할, 함
+  '권한', '제한', '기한', '최소한', '관할', '역할', '분할', '결함',
+];
+const HANGUL_END = /[가-힣]$/;
+
+/** Stem of one 어절: "개인정보를" → "개인정보", "처리하는" → "처리". Non-Korean words pass through. */
+export function stripKoreanSuffix(word: string): string {
+  if (!HANGUL_END.test(word)) return word;
+  const bareNoun = NOUN_ENDINGS.some(noun => word.endsWith(noun));
+  for (const suffix of SUFFIXES) {
+    if (suffix.length === 1 && bareNoun) continue;
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function isKoreanWord(word: string): boolean {
+  return HANGUL_END.test(word);
+}
+
+/**
+ * Normalised form of a text for indexing: its unicode61 tokens (runs of
+ * letters and digits) reduced to their stems and joined by spaces. The
+ * interpunct in enumerations ("수집ㆍ이용") is a Hangul letter to unicode61,
+ * so it is split here to index both words.
+ */
+export function normalizeKoreanText(text: string): string {
+  return (text.replace(/ㆍ/g, ' ').match(/[\p{L}\p{N}]+/gu) ?? []).map(stripKoreanSuffix).join(' ');
+}
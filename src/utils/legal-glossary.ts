@@ -0,0 +1,141 @@
+/**
+ * Curated Korean–English legal glossary for cross-lingual search.
+ *
+ * English translations cover few articles, so an English query matched only
+ * against content_en finds little. Each entry pairs the Korean statutory term
+ * with the English renderings used by KLRI and in practice; the query builder
+ * adds the other language's terms as alternatives. Terms are matched on whole
+ * words: English lower-cased with a plural "s" dropped, Korean by stem
+ * (particles stripped), longest term first.
+ *
+ * A single English word is listed only when it is a legal term of art.
+ * Everyday words ("use", "access", "notice", "fine") appear in phrases only,
+ * so that "use of CCTV" or "network access" is not rewritten into 이용 or 열람.
+ */
+
+import { stripKoreanSuffix } from './korean-text.js';
+
+export interface GlossaryEntry {
+  ko: string[];
+  en: string[];
+}
+
+export const LEGAL_GLOSSARY: GlossaryEntry[] = [
+  // Personal information protection (개인정보 보호법)
+  { ko: ['개인정보'], en: ['personal information', 'personal data'] },
+  { ko: ['정보주체'], en: ['data subject'] },
+  { ko: ['개인정보처리자'], en: ['personal information controller', 'data controller'] },
+  { ko: ['처리'], en: ['processing'] },
+  { ko: ['동의'], en: ['consent'] },
+  { ko: ['유출'], en: ['data breach', 'personal data breach', 'leak', 'leakage'] },
+  { ko: ['통지'], en: ['notification', 'notify', 'breach notice'] },
+  { ko: ['신고'], en: ['reporting obligation', 'mandatory report'] },
+  { ko: ['민감정보'], en: ['sensitive information', 'sensitive data'] },
+  { ko: ['고유식별정보'], en: ['unique identifying information', 'unique identifier'] },
+  { ko: ['주민등록번호'], en: ['resident registration number'] },
+  { ko: ['가명정보'], en: ['pseudonymized information', 'pseudonymous information', 'pseudonymous data'] },
+  { ko: ['가명처리'], en: ['pseudonymization', 'pseudonymisation'] },
+  { ko: ['수집'], en: ['collection', 'collect'] },
+  { ko: ['이용'], en: ['utilization'] },
+  { ko: ['제3자'], en: ['third party'] },
+  { ko: ['국외 이전'], en: ['cross-border transfer', 'transfer abroad', 'overseas transfer', 'international transfer'] },
+  { ko: ['위탁'], en: ['outsourcing', 'entrustment'] },
+  { ko: ['파기'], en: ['destruction', 'destroy'] },
+  { ko: ['보유기간'], en: ['retention period'] },
+  { ko: ['안전조치'], en: ['security measures', 'safeguards'] },
+  { ko: ['암호화'], en: ['encryption'] },
+  { ko: ['처리방침'], en: ['privacy policy'] },
+  { ko: ['보호책임자'], en: ['privacy officer', 'chief privacy officer', 'data protection officer'] },
+  { ko: ['보호위원회'], en: ['protection commission', 'pipc'] },
+  { ko: ['열람'], en: ['access request', 'access right'] },
+  { ko: ['정정'], en: ['correction', 'rectification'] },
+  { ko: ['삭제'], en: ['erasure', 'deletion'] },
+  { ko: ['처리정지'], en: ['suspension of processing', 'restriction of processing'] },
+  { ko: ['전송 요구'], en: ['data portability', 'transmission request'] },
+  { ko: ['자동화된 결정'], en: ['automated decision'] },
+  { ko: ['영상정보처리기기'], en: ['video surveillance', 'visual data processing device', 'cctv'] },
+  { ko: ['아동'], en: ['child', 'children'] },
+  { ko: ['법정대리인'], en: ['legal representative', 'guardian'] },
+  { ko: ['분쟁조정'], en: ['dispute mediation', 'dispute resolution'] },
+  { ko: ['손해배상'], en: ['damages', 'compensation'] },
+  // Sanctions
+  { ko: ['과징금'], en: ['penalty surcharge'] },
+  { ko: ['과태료'], en: ['administrative fine', 'fine for negligence'] },
+  { ko: ['벌금'], en: ['criminal fine'] },
+  { ko: ['징역'], en: ['imprisonment'] },
+  { ko: ['벌칙'], en: ['penal provisions', 'penalty', 'punishment'] },
+  { ko: ['시정명령'], en: ['corrective order'] },
+  // Other regimes and instruments
+  { ko: ['신용정보'], en: ['credit information'] },
+  { ko: ['위치정보'], en: ['location information', 'location data'] },
+  { ko: ['정보통신망'], en: ['information and communications network', 'communications network'] },
+  { ko: ['정보통신서비스 제공자'], en: ['information and communications service provider', 'online service provider'] },
+  { ko: ['침해사고'], en: ['security incident', 'cyber incident', 'intrusion'] },
+  { ko: ['정보보호'], en: ['information security', 'cybersecurity'] },
+  { ko: ['전자서명'], en: ['electronic signature'] },
+  { ko: ['전자상거래'], en: ['electronic commerce', 'e-commerce'] },
+  { ko: ['영업비밀'], en: ['trade secret'] },
+  { ko: ['공공기관'], en: ['public institution', 'public agency'] },
+  { ko: ['시행령'], en: ['enforcement decree'] },
+  { ko: ['시행규칙'], en: ['enforcement rule'] },
+  { ko: ['부칙'], en: ['addenda', 'addendum'] },
+  { ko: ['시행일'], en: ['effective date', 'enforcement date'] },
+];
+
+export interface GlossaryMatch {
+  /** Index of the first and one past the last matched query token */
+  start: number;
+  end: number;
+  language: 'ko' | 'en';
+  entry: GlossaryEntry;
+}
+
+function englishKey(word: string): string {
+  const lower = word.toLowerCase();
+  return lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+}
+
+function termKeys(term: string, language: 'ko' | 'en'): string[] {
+  return term
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map(word => language === 'ko' ? stripKoreanSuffix(word) : englishKey(word));
+}
+
+interface IndexedTerm {
+  keys: string[];
+  language: 'ko' | 'en';
+  entry: GlossaryEntry;
+}
+
+const INDEXED_TERMS: IndexedTerm[] = LEGAL_GLOSSARY
+  .flatMap(entry => [
+    ...entry.ko.map(term => ({ keys: termKeys(term, 'ko'), language: 'ko' as const, entry })),
+    ...entry.en.map(term => ({ keys: termKeys(term, 'en'), language: 'en' as const, entry })),
+  ])
+  .sort((a, b) => b.keys.length - a.keys.length);
+
+/**
+ * Glossary terms in a tokenised query, left to right without overlaps,
+ * preferring the longest term at each position.
+ */
+export function findGlossaryTerms(tokens: string[]): GlossaryMatch[] {
+  const koKeys = tokens.map(stripKoreanSuffix);
+  const enKeys = tokens.map(englishKey);
+
+  const matches: GlossaryMatch[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const term = INDEXED_TERMS.find(t => {
+      const keys = t.language === 'ko' ? koKeys : enKeys;
+      return t.keys.every((key, k) => keys[i + k] === key);
+    });
+    if (term) {
+      matches.push({ start: i, end: i + term.keys.length, language: term.language, entry: term.entry });
+      i += term.keys.length;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+}
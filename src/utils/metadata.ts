@@ -9,6 +9,9 @@ export interface ResponseMetadata {
   disclaimer: string;
   source_authority: string;
   query_strategy?: string;
+  /** Opaque cursor for the next page; absent on the last page */
+  next_cursor?: string;
+  warnings?: string[];
 }
 
 export interface ToolResponse<T> {
@@ -0,0 +1,79 @@
+/**
+ * Duty-bearing sentences in Korean statutory text.
+ *
+ * Duties are drafted with two fixed predicates: "~하여야 한다" (must) and
+ * "~하여서는 아니 된다" (must not), addressed to the subject of the sentence
+ * ("개인정보처리자는 ..."). Provisos ("다만, ... 그러하지 아니하다") and
+ * permissions ("~할 수 있다") are not duties.
+ */
+
+import { findActorMentions, findAddressee, type ActorMention } from './actors.js';
+
+export type DutyKind = 'must' | 'must_not';
+
+export interface DutySentence {
+  sentence: string;
+  duty: DutyKind;
+  /** Actor written as the subject of the sentence; null when not a known actor */
+  addressee: ActorMention | null;
+  /** The sentence introduces the items of its paragraph ("다음 각 호의 사항을 ... 하여야 한다") */
+  lists_items: boolean;
+}
+
+const MUST = /야\s*한다/;
+const MUST_NOT = /아니\s*된다|금지한다/;
+const MUST_END = /야\s*한다\.?$/;
+const MUST_NOT_END = /(?:아니\s*된다|금지한다)\.?$/;
+const LISTS_ITEMS = /다음\s*각\s*(?:호|목)/;
+
+/** Statutory sentences end in "다." */
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=다\.)\s+/).map(s => s.trim()).filter(Boolean);
+}
+
+/** Duty sentences of a paragraph or article text, in order */
+export function extractDuties(text: string): DutySentence[] {
+  const duties: DutySentence[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    // The sentence-final predicate decides; "…하여야 하며, …하여서는 아니 된다" is a prohibition
+    let duty: DutyKind | null = null;
+    if (MUST_NOT_END.test(sentence)) duty = 'must_not';
+    else if (MUST_END.test(sentence)) duty = 'must';
+    else if (MUST_NOT.test(sentence)) duty = 'must_not';
+    else if (MUST.test(sentence)) duty = 'must';
+    if (!duty) continue;
+
+    duties.push({
+      sentence,
+      duty,
+      addressee: findAddressee(sentence),
+      lists_items: LISTS_ITEMS.test(sentence),
+    });
+  }
+
+  return duties;
+}
+
+export interface ActorTag {
+  actor_id: string;
+  /** First term as written, e.g. 정보통신서비스 제공자 */
+  term: string;
+  /** A duty of the text is addressed to the actor */
+  addressee: boolean;
+}
+
+/** The regulated actors a provision mentions, once each, in order of first mention */
+export function tagActors(text: string): ActorTag[] {
+  const addressed = new Set(extractDuties(text).map(d => d.addressee?.actor.id));
+  const tags = new Map<string, ActorTag>();
+  for (const mention of findActorMentions(text)) {
+    if (tags.has(mention.actor.id)) continue;
+    tags.set(mention.actor.id, {
+      actor_id: mention.actor.id,
+      term: mention.term,
+      addressee: addressed.has(mention.actor.id),
+    });
+  }
+  return [...tags.values()];
+}
@@ -0,0 +1,47 @@
+/**
+ * Rough legal character of a provision, read from its wording.
+ *
+ * Korean statutes signal their norms with fixed formulas: duties end in
+ * "하여야 한다" or "하여서는 아니 된다", entitlements in "요구할 수 있다"
+ * or "권리를 가진다", and penalties sit in a 벌칙 chapter worded "징역 또는
+ * 벌금에 처한다" or "과태료를 부과한다". Definition articles are titled
+ * 정의. The categories are a triage aid for research tools, not a legal
+ * classification.
+ */
+
+export type ProvisionCategory = 'obligations' | 'rights' | 'sanctions' | 'definitions';
+
+export interface CategorizableProvision {
+  title: string | null;
+  chapter?: string | null;
+  content: string;
+}
+
+const DEFINITION_TITLE = /정의/;
+const SANCTION_TITLE = /벌칙|과태료|과징금|양벌/;
+const SANCTION_CHAPTER = /벌칙/;
+const SANCTION_TEXT = /징역|벌금에\s*처한다|과태료를\s*부과한다|과징금을\s*부과할\s*수\s*있다/;
+const OBLIGATION_TEXT = /하여야\s*한다|해야\s*한다|아니\s*된다|금지한다/;
+const RIGHT_TEXT = /권리를\s*가진다|권리가\s*있다|(?:요구|청구|요청|열람|거부|철회)할\s*수\s*있다/;
+
+/**
+ * Categories of a provision. Definition and sanction articles belong to
+ * that category alone; other articles may both impose duties and grant
+ * rights, or neither.
+ */
+export function categorizeProvision(provision: CategorizableProvision): ProvisionCategory[] {
+  const title = provision.title ?? '';
+  if (DEFINITION_TITLE.test(title)) return ['definitions'];
+  if (
+    SANCTION_TITLE.test(title)
+    || SANCTION_CHAPTER.test(provision.chapter ?? '')
+    || SANCTION_TEXT.test(provision.content)
+  ) {
+    return ['sanctions'];
+  }
+
+  const categories: ProvisionCategory[] = [];
+  if (OBLIGATION_TEXT.test(provision.content)) categories.push('obligations');
+  if (RIGHT_TEXT.test(provision.content)) categories.push('rights');
+  return categories;
+}
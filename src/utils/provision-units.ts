@@ -0,0 +1,85 @@
+/**
+ * Paragraph (항) / item (호) / sub-item (목) lookup for pinpoint citations.
+ *
+ * Reads the provision_units tree written by build-db. Numbers are stored
+ * normalised (① → "1", 1의2. → "1-2", 가. → "가"), so caller input is
+ * normalised the same way before matching.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+type Db = InstanceType<typeof Database>;
+
+export interface Pinpoint {
+  paragraph?: string;
+  item?: string;
+  sub_item?: string;
+}
+
+export interface ProvisionUnit {
+  unit_type: 'paragraph' | 'item' | 'sub_item';
+  paragraph: string | null;
+  item: string | null;
+  sub_item: string | null;
+  label: string;
+  text: string;
+}
+
+export function hasPinpoint(pinpoint: Pinpoint): boolean {
+  return !!(pinpoint.paragraph || pinpoint.item || pinpoint.sub_item);
+}
+
+/**
+ * Normalise a paragraph/item/sub-item number as typed by a user or parsed
+ * from a citation: "①", "제1항", "1항" → "1"; "제1호의2", "1의2" → "1-2";
+ * "가목", "가." → "가".
+ */
+export function normalizePinpointNumber(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim().replace(/^제/, '').replace(/[항호목.\s]/g, '');
+  if (!trimmed) return undefined;
+
+  const code = trimmed.codePointAt(0) ?? 0;
+  if (code >= 0x2460 && code <= 0x2473) return String(code - 0x2460 + 1);
+  if (code >= 0x3251 && code <= 0x325f) return String(code - 0x3251 + 21);
+  if (code >= 0x32b1 && code <= 0x32bf) return String(code - 0x32b1 + 36);
+
+  return trimmed.replace(/의/, '-');
+}
+
+/**
+ * Return the unit addressed by a pinpoint together with its descendants,
+ * in document order. An empty array means the pinpoint does not exist.
+ *
+ * When only an item is given, it is looked up among items outside numbered
+ * paragraphs ("제2조제1호"), which is how Korean drafting cites them.
+ */
+export function findProvisionUnits(
+  db: Db,
+  documentId: string,
+  provisionRef: string,
+  pinpoint: Pinpoint,
+): ProvisionUnit[] {
+  const paragraph = normalizePinpointNumber(pinpoint.paragraph) ?? null;
+  const item = normalizePinpointNumber(pinpoint.item) ?? null;
+  const subItem = normalizePinpointNumber(pinpoint.sub_item) ?? null;
+
+  let sql = `
+    SELECT unit_type, paragraph, item, sub_item, label, content as text
+    FROM provision_units
+    WHERE document_id = ? AND provision_ref = ? AND paragraph IS ?
+  `;
+  const params: (string | null)[] = [documentId, provisionRef, paragraph];
+
+  if (item) {
+    sql += ' AND item = ?';
+    params.push(item);
+  }
+  if (subItem) {
+    sql += ' AND sub_item = ?';
+    params.push(subItem);
+  }
+  sql += ' ORDER BY position';
+
+  return db.prepare(sql).all(...params) as ProvisionUnit[];
+}
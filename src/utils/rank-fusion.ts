@@ -0,0 +1,22 @@
+/**
+ * Reciprocal rank fusion (Cormack et al., 2009).
+ *
+ * Each ranking contributes 1 / (k + rank) for every item in it, so an item
+ * ranked well by several rankers beats one ranked first by a single ranker.
+ * Only ranks are used, which is what makes BM25 scores (unbounded, lower is
+ * better in SQLite) and cosine similarities comparable.
+ */
+
+/** The constant from the paper; dampens the weight of the very top ranks */
+export const RRF_K = 60;
+
+/** Fused scores keyed by item, highest first */
+export function reciprocalRankFusion<T>(rankings: T[][], k = RRF_K): Map<T, number> {
+  const scores = new Map<T, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((item, index) => {
+      scores.set(item, (scores.get(item) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return new Map([...scores].sort((a, b) => b[1] - a[1]));
+}
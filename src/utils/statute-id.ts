@@ -1,9 +1,12 @@
 /**
  * Statute ID resolution for South-korea Law MCP.
  *
- * 9-step resolution cascade with shortest-match ranking.
- * Resolves fuzzy document references (titles, Act names, chapter numbers)
- * to database document IDs.
+ * Ranks the documents a fuzzy reference (ID, title, short name, English
+ * title, law number, chapter) may mean, with a confidence score and the
+ * reason for each match. A reference resolves only when the best candidate
+ * is clearly ahead; "정보보호" matches 개인정보 보호법 and its 시행령 and
+ * 시행규칙 about equally and is reported as ambiguous instead of silently
+ * picking the shortest title.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
@@ -17,17 +20,91 @@ type Db = InstanceType<typeof Database>;
 interface DocRow {
   id: string;
   title: string;
+  title_en: string | null;
   short_name: string | null;
+  type: string;
+  law_number: string | null;
+}
+
+export type DocumentMatchReason =
+  | 'id'
+  | 'abbreviation'
+  | 'chapter'
+  | 'exact_title'
+  | 'title_without_year'
+  | 'title_ignoring_spacing'
+  | 'short_name'
+  | 'english_title'
+  | 'law_number'
+  | 'title_contains'
+  | 'short_name_contains'
+  | 'english_title_contains';
+
+export interface DocumentCandidate {
+  id: string;
+  title: string;
+  type: string;
+  /**
+   * 1 for an ID or exact title, 0.9–0.95 for other exact matches (short
+   * name, English title, law number); partial matches score 0.5–0.85 by
+   * how much of the matched name the input covers.
+   */
+  confidence: number;
+  match_reason: DocumentMatchReason;
+}
+
+export interface DocumentResolution {
+  input: string;
+  status: 'resolved' | 'ambiguous' | 'not_found';
+  /** The resolved document; null unless status is "resolved" */
+  document_id: string | null;
+  /** Best first */
+  candidates: DocumentCandidate[];
+}
+
+/** A reference that matches several documents about equally well. */
+export class AmbiguousDocumentError extends Error {
+  readonly input: string;
+  readonly candidates: DocumentCandidate[];
+
+  constructor(resolution: DocumentResolution) {
+    const options = resolution.candidates
+      .map(c => `${c.title} (${c.id}, confidence ${c.confidence})`)
+      .join('; ');
+    super(`Document "${resolution.input}" is ambiguous. Candidates: ${options}. Use a document ID or the full title.`);
+    this.name = 'AmbiguousDocumentError';
+    this.input = resolution.input;
+    this.candidates = resolution.candidates;
+  }
 }
 
 // ---------------------------------------------------------------------------
-// Abbreviation map (Step 2) — add entries as needed
+// Abbreviation map — add entries as needed
 // ---------------------------------------------------------------------------
 
 const ABBREVIATIONS: Record<string, string> = {
   // Example: 'DPA': 'data-protection-act-2019',
 };
 
+// ---------------------------------------------------------------------------
+// Ranking thresholds
+// ---------------------------------------------------------------------------
+
+/** Exact matches (ID, title, short name, English title, law number) score at least this */
+const EXACT_CONFIDENCE = 0.9;
+/** A partial match resolves only above this ... */
+const MIN_CONFIDENCE = 0.6;
+/** ... and this far ahead of the next document */
+const MIN_MARGIN = 0.15;
+const MAX_CANDIDATES = 5;
+
+/** Statutes before decrees before rules when candidates tie */
+const TYPE_ORDER: Record<string, number> = {
+  statute: 0,
+  presidential_decree: 1,
+  ministerial_ordinance: 2,
+};
+
 // ---------------------------------------------------------------------------
 // Caches (lazy singletons, reset per test run)
 // ---------------------------------------------------------------------------
@@ -54,11 +131,11 @@ function normalizeActTitle(input: string): string {
 }
 
 /**
- * Strip punctuation characters and collapse whitespace.
- * Used for the final punctuation-normalized fallback scan.
+ * Lowercase and strip punctuation and spacing, so "개인정보보호법" matches
+ * "개인정보 보호법" and "「개인정보 보호법」" matches both.
  */
-function normalizePunctuation(s: string): string {
-  return s.replace(/[,;:.()[\]]/g, '').replace(/\s+/g, ' ').trim();
+function compactName(s: string): string {
+  return s.toLowerCase().replace(/[\s,;:.()[\]「」『』·ㆍ]/g, '');
 }
 
 /**
@@ -67,7 +144,7 @@ function normalizePunctuation(s: string): string {
 function getAllDocs(db: Db): DocRow[] {
   if (!allDocsCache) {
     allDocsCache = db.prepare(
-      'SELECT id, title, short_name FROM legal_documents',
+      'SELECT id, title, title_en, short_name, type, law_number FROM legal_documents',
     ).all() as DocRow[];
   }
   return allDocsCache;
@@ -94,124 +171,152 @@ function getChapterLookup(db: Db): Map<string, string> {
   return chapterLookup;
 }
 
+/** Partial-match confidence: 0.5 for a sliver of the name, up to 0.85 for nearly all of it */
+function partialConfidence(input: string, name: string): number {
+  return 0.5 + 0.35 * Math.min(input.length / name.length, 1);
+}
+
+/** Best match of one document, or null when the input does not match it */
+function matchDocument(
+  doc: DocRow,
+  input: string,
+  special: Map<string, { confidence: number; reason: DocumentMatchReason }>,
+): { confidence: number; reason: DocumentMatchReason } | null {
+  const fixed = special.get(doc.id);
+  if (fixed) return fixed;
+
+  const normalized = normalizeActTitle(input);
+  const lower = normalized.toLowerCase();
+  const compact = compactName(normalized);
+  if (!compact) return null;
+
+  if (doc.title.toLowerCase() === lower) return { confidence: 1, reason: 'exact_title' };
+  if (doc.title.replace(/,?\s*\d{4}\s*$/, '').toLowerCase() === lower) {
+    return { confidence: 0.95, reason: 'title_without_year' };
+  }
+  if (compactName(doc.title) === compact) return { confidence: 0.95, reason: 'title_ignoring_spacing' };
+  if (doc.short_name && compactName(doc.short_name) === compact) return { confidence: 0.95, reason: 'short_name' };
+  if (doc.title_en && compactName(doc.title_en) === compact) return { confidence: 0.95, reason: 'english_title' };
+
+  const lawNumber = normalized.match(/^(?:(?:법률|대통령령|총리령|[가-힣]+부령|Act No\.?)\s*)?제?\s*(\d+)\s*호?$/i);
+  if (lawNumber && doc.law_number === lawNumber[1]) return { confidence: EXACT_CONFIDENCE, reason: 'law_number' };
+
+  // Partial matches, scored against the name they were found in
+  const partials: Array<{ confidence: number; reason: DocumentMatchReason }> = [];
+  const title = compactName(doc.title);
+  if (title.includes(compact)) {
+    partials.push({ confidence: partialConfidence(compact, title), reason: 'title_contains' });
+  }
+  if (doc.short_name && compactName(doc.short_name).includes(compact)) {
+    partials.push({ confidence: partialConfidence(compact, compactName(doc.short_name)), reason: 'short_name_contains' });
+  }
+  if (doc.title_en && compactName(doc.title_en).includes(compact)) {
+    partials.push({ confidence: partialConfidence(compact, compactName(doc.title_en)), reason: 'english_title_contains' });
+  }
+  if (partials.length === 0) return null;
+  return partials.sort((a, b) => b.confidence - a.confidence)[0]!;
+}
+
 // ---------------------------------------------------------------------------
-// Main resolution function — 9-step cascade
+// Main resolution functions
 // ---------------------------------------------------------------------------
 
 /**
- * Resolve a document identifier to a database document ID.
+ * Rank the documents a reference may mean, best first.
  *
- * Steps:
- * 1. Direct ID match
- * 2. Abbreviation map
- * 3. Chapter number lookup
- * 4. Exact title match (case-insensitive), then with trailing year stripped
- * 5. Shortest LIKE match on title
- * 6. Case-insensitive shortest LIKE on title
- * 7. Short-name LIKE (case-insensitive)
- * 8. Punctuation-normalized full scan (shortest match)
- * 9. Return null
+ * Exact matches:
+ * 1. Direct ID match, abbreviation map (1.0)
+ * 2. Exact title, case-insensitive (1.0)
+ * 3. Chapter number, title with trailing year stripped, title ignoring
+ *    spacing, short name, English title (0.95)
+ * 4. Law number ("19234", "법률 제19234호") (0.9)
+ *
+ * Partial matches (0.5–0.85): the input inside the title, short name or
+ * English title, scored by the share of the name it covers.
  */
-export function resolveDocumentId(
-  db: Db,
-  input: string,
-): string | null {
-  if (!input || typeof input !== 'string') return null;
+export function rankDocuments(db: Db, input: string, limit: number = MAX_CANDIDATES): DocumentCandidate[] {
+  if (!input || typeof input !== 'string') return [];
   const trimmed = input.trim();
-  if (!trimmed) return null;
+  if (!trimmed) return [];
 
-  // -----------------------------------------------------------------------
-  // Step 1 — Direct ID match
-  // -----------------------------------------------------------------------
-  const directMatch = db.prepare(
-    'SELECT id FROM legal_documents WHERE id = ?',
-  ).get(trimmed) as { id: string } | undefined;
-  if (directMatch) return directMatch.id;
-
-  // -----------------------------------------------------------------------
-  // Step 2 — Abbreviation map
-  // -----------------------------------------------------------------------
+  // Matches that do not depend on the document's names
+  const special = new Map<string, { confidence: number; reason: DocumentMatchReason }>();
   const abbrev = ABBREVIATIONS[trimmed] ?? ABBREVIATIONS[trimmed.toUpperCase()];
-  if (abbrev) return abbrev;
+  if (abbrev) special.set(abbrev, { confidence: 1, reason: 'abbreviation' });
 
-  // -----------------------------------------------------------------------
-  // Step 3 — Chapter number lookup (e.g., "Cap 39", "Chapter 486")
-  // -----------------------------------------------------------------------
   const chapMatch = trimmed.match(/^(?:Cap(?:\.?\s*| )|(Chapter)\s*)(\d+[:\d]*)$/i);
   if (chapMatch?.[2]) {
-    const lookup = getChapterLookup(db);
-    const chapResult = lookup.get(chapMatch[2]);
-    if (chapResult) return chapResult;
+    const chapResult = getChapterLookup(db).get(chapMatch[2]);
+    if (chapResult) special.set(chapResult, { confidence: 0.95, reason: 'chapter' });
   }
 
-  // -----------------------------------------------------------------------
-  // Step 4 — Exact title match (case-insensitive)
-  // -----------------------------------------------------------------------
-  const normalized = normalizeActTitle(trimmed);
-
-  // 4a: exact match on normalised input
-  const exactTitle = db.prepare(
-    'SELECT id FROM legal_documents WHERE LOWER(title) = LOWER(?)',
-  ).get(normalized) as { id: string } | undefined;
-  if (exactTitle) return exactTitle.id;
-
-  // 4b: try with trailing year stripped from stored titles
-  //     e.g. input "Data Protection Act" should match "Data Protection Act, 2019"
-  const docs = getAllDocs(db);
-  const lowerNormalized = normalized.toLowerCase();
-  for (const doc of docs) {
-    const storedBase = doc.title.replace(/,?\s*\d{4}\s*$/, '').toLowerCase();
-    if (storedBase === lowerNormalized) return doc.id;
+  const directMatch = db.prepare(
+    'SELECT id FROM legal_documents WHERE id = ?',
+  ).get(trimmed) as { id: string } | undefined;
+  if (directMatch) special.set(directMatch.id, { confidence: 1, reason: 'id' });
+
+  const candidates: DocumentCandidate[] = [];
+  for (const doc of getAllDocs(db)) {
+    const match = matchDocument(doc, trimmed, special);
+    if (!match) continue;
+    candidates.push({
+      id: doc.id,
+      title: doc.title,
+      type: doc.type,
+      confidence: Math.round(match.confidence * 100) / 100,
+      match_reason: match.reason,
+    });
   }
 
-  // -----------------------------------------------------------------------
-  // Step 5 — Shortest LIKE match (case-sensitive on title)
-  // -----------------------------------------------------------------------
-  const likeMatches = docs.filter(d => d.title.includes(normalized));
-  if (likeMatches.length > 0) {
-    likeMatches.sort((a, b) => a.title.length - b.title.length);
-    return likeMatches[0]!.id;
-  }
+  return candidates
+    .sort((a, b) =>
+      b.confidence - a.confidence ||
+      (TYPE_ORDER[a.type] ?? 3) - (TYPE_ORDER[b.type] ?? 3) ||
+      a.title.length - b.title.length)
+    .slice(0, limit);
+}
 
-  // -----------------------------------------------------------------------
-  // Step 6 — Case-insensitive shortest LIKE on title
-  // -----------------------------------------------------------------------
-  const lowerLikeMatches = docs.filter(
-    d => d.title.toLowerCase().includes(lowerNormalized),
-  );
-  if (lowerLikeMatches.length > 0) {
-    lowerLikeMatches.sort((a, b) => a.title.length - b.title.length);
-    return lowerLikeMatches[0]!.id;
-  }
+/**
+ * Resolve a document reference, reporting ambiguity instead of guessing.
+ *
+ * Resolved when the best candidate is an exact match that outranks the
+ * rest, or a partial match of at least MIN_CONFIDENCE that leads the next
+ * candidate by MIN_MARGIN. Otherwise ambiguous (or not found).
+ */
+export function resolveDocument(db: Db, input: string): DocumentResolution {
+  const trimmed = typeof input === 'string' ? input.trim() : '';
+  const candidates = rankDocuments(db, trimmed);
+  const [best, next] = candidates;
 
-  // -----------------------------------------------------------------------
-  // Step 7 — Short-name LIKE (case-insensitive)
-  // -----------------------------------------------------------------------
-  const shortNameMatches = docs.filter(
-    d => d.short_name && d.short_name.toLowerCase().includes(lowerNormalized),
-  );
-  if (shortNameMatches.length > 0) {
-    shortNameMatches.sort((a, b) => (a.title?.length ?? 0) - (b.title?.length ?? 0));
-    return shortNameMatches[0]!.id;
+  if (!best) {
+    return { input: trimmed, status: 'not_found', document_id: null, candidates };
   }
 
-  // -----------------------------------------------------------------------
-  // Step 8 — Punctuation-normalized full scan (shortest match)
-  // -----------------------------------------------------------------------
-  const puncNormalized = normalizePunctuation(lowerNormalized);
-  const puncMatches = docs.filter(d => {
-    const puncTitle = normalizePunctuation(d.title.toLowerCase());
-    return puncTitle.includes(puncNormalized);
-  });
-  if (puncMatches.length > 0) {
-    puncMatches.sort((a, b) => a.title.length - b.title.length);
-    return puncMatches[0]!.id;
-  }
+  const runnerUp = next?.confidence ?? 0;
+  const resolved = (best.confidence >= EXACT_CONFIDENCE && best.confidence > runnerUp)
+    || (best.confidence >= MIN_CONFIDENCE && best.confidence - runnerUp >= MIN_MARGIN);
+
+  return resolved
+    ? { input: trimmed, status: 'resolved', document_id: best.id, candidates }
+    : { input: trimmed, status: 'ambiguous', document_id: null, candidates };
+}
 
-  // -----------------------------------------------------------------------
-  // Step 9 — No match
-  // -----------------------------------------------------------------------
-  return null;
+/**
+ * Resolve a document identifier to a database document ID.
+ *
+ * Returns null when nothing matches and throws AmbiguousDocumentError when
+ * several documents match about equally, so tools never answer about a
+ * guessed Act.
+ */
+export function resolveDocumentId(
+  db: Db,
+  input: string,
+): string | null {
+  const resolution = resolveDocument(db, input);
+  if (resolution.status === 'ambiguous') {
+    throw new AmbiguousDocumentError(resolution);
+  }
+  return resolution.document_id;
 }
 
 // ---------------------------------------------------------------------------
@@ -221,13 +326,12 @@ export function resolveDocumentId(
 /** @deprecated Use resolveDocumentId instead. */
 export const resolveExistingStatuteId = resolveDocumentId;
 
-/** @deprecated Use resolveDocumentId(db, id) !== null instead. */
+/** @deprecated Use resolveDocument(db, id).status === 'resolved' instead. */
 export function isValidStatuteId(db: Db, id: string): boolean {
-  return resolveDocumentId(db, id) !== null;
+  return resolveDocument(db, id).status === 'resolved';
 }
 
-/** @deprecated Return candidate IDs for a query (compat shim). */
+/** @deprecated Use rankDocuments instead. */
 export function statuteIdCandidates(db: Db, input: string): string[] {
-  const resolved = resolveDocumentId(db, input);
-  return resolved ? [resolved] : [];
+  return rankDocuments(db, input).map(c => c.id);
 }
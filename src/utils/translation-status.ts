@@ -0,0 +1,128 @@
+/**
+ * Translation status of English article text.
+ *
+ * build-db records, per translated article, the promulgation date of the law
+ * version KLRI translated (translation_date) and of the latest amendment of
+ * the Korean article (korean_date). The translation is stale when the Korean
+ * article was amended after the translated version. Databases built before
+ * these columns existed have no status to report.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { detectCapabilities, hasColumns } from '../capabilities.js';
+import type { ResponseMetadata } from './metadata.js';
+
+type Db = InstanceType<typeof Database>;
+
+export interface TranslationStatus {
+  /** Translation publisher, e.g. "KLRI" */
+  source: string;
+  /** Promulgation date of the law version that was translated */
+  translated_version_date: string | null;
+  /** Latest amendment of the Korean article */
+  korean_version_date: string | null;
+  /** The Korean article was amended after the translated version */
+  stale: boolean;
+  source_url: string | null;
+}
+
+interface StatusRow {
+  document_id: string;
+  provision_ref: string;
+  source: string | null;
+  translation_date: string | null;
+  korean_date: string | null;
+  stale: number;
+  source_url: string | null;
+}
+
+export function translationKey(documentId: string, provisionRef: string): string {
+  return `${documentId}::${provisionRef}`;
+}
+
+/**
+ * Status of the English translation of each provision, keyed by
+ * translationKey(). Provisions without a translation row are absent.
+ */
+export function findTranslationStatuses(
+  db: Db,
+  provisions: { document_id: string; provision_ref: string }[],
+): Map<string, TranslationStatus> {
+  const statuses = new Map<string, TranslationStatus>();
+  if (provisions.length === 0) return statuses;
+  if (!hasColumns(db, 'english_translations', ['translation_date', 'korean_date', 'stale'])) return statuses;
+
+  const lookup = db.prepare(`
+    SELECT document_id, provision_ref, source, translation_date, korean_date, stale, source_url
+    FROM english_translations
+    WHERE document_id = ? AND provision_ref = ?
+  `);
+
+  for (const { document_id, provision_ref } of provisions) {
+    const key = translationKey(document_id, provision_ref);
+    if (statuses.has(key)) continue;
+    const row = lookup.get(document_id, provision_ref) as StatusRow | undefined;
+    if (!row) continue;
+    statuses.set(key, {
+      source: row.source ?? 'KLRI',
+      translated_version_date: row.translation_date,
+      korean_version_date: row.korean_date,
+      stale: row.stale === 1,
+      source_url: row.source_url,
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * Warning naming the provisions whose English text is behind the Korean
+ * (labels like "개인정보 보호법 제15조"), or undefined when none is.
+ */
+export function staleTranslationWarning(
+  provisions: { label: string; translation?: TranslationStatus | null }[],
+): string | undefined {
+  const stale = provisions.filter(p => p.translation?.stale);
+  if (stale.length === 0) return undefined;
+
+  const labels = [...new Set(stale.map(p => p.label))];
+  const dates = new Set(stale.map(p => p.translation!.translated_version_date));
+  const [translated] = dates;
+  return `The English translation of ${labels.join(', ')} predates the current Korean text` +
+    `${dates.size === 1 && translated ? ` (translated version of ${translated})` : ''}. ` +
+    'Quote the Korean text; the English is for orientation only.';
+}
+
+/**
+ * Attach the translation status of each provision and warn when an English
+ * text is behind the Korean one. Superseded versions (valid_to set) have no
+ * translation. Databases without translations leave the provisions untouched.
+ */
+export function addTranslationStatus(
+  db: Db,
+  provisions: {
+    document_id: string;
+    document_title: string;
+    provision_ref: string;
+    section: string;
+    valid_to?: string | null;
+    translation?: TranslationStatus | null;
+  }[],
+  metadata: ResponseMetadata,
+): void {
+  if (!detectCapabilities(db).has('english_translations')) return;
+
+  const statuses = findTranslationStatuses(db, provisions.filter(p => !p.valid_to));
+  for (const provision of provisions) {
+    provision.translation = provision.valid_to
+      ? null
+      : statuses.get(translationKey(provision.document_id, provision.provision_ref)) ?? null;
+  }
+
+  const warning = staleTranslationWarning(
+    provisions.map(p => ({ label: `${p.document_title} ${p.section}`, translation: p.translation })),
+  );
+  if (warning) {
+    metadata.warnings = [...(metadata.warnings ?? []), warning];
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Word-level diff for Korean statute text.
+ *
+ * Korean is spaced by 어절 (a word plus its particles), so the text is split
+ * into 어절, whitespace, and the punctuation that amendments commonly touch
+ * on its own ("ㆍ", "「", "」", parentheses, commas). An amendment that
+ * replaces "동의를" with "별도의 동의를" then shows up as one insertion
+ * instead of a rewritten sentence.
+ */
+
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface WordDiff {
+  segments: DiffSegment[];
+  inserted_words: number;
+  deleted_words: number;
+  /** Old text with [-deleted-] and {+inserted+} markers */
+  inline: string;
+}
+
+const TOKEN = /\s+|[()「」『』<>ㆍ·,.;:]|[^\s()「」『』<>ㆍ·,.;:]+/g;
+
+/** Beyond this many token pairs the diff falls back to a whole-text replace */
+const MAX_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN) ?? [];
+}
+
+function isWord(token: string): boolean {
+  return !/^\s+$/.test(token);
+}
+
+/** Words for the counts: tokens with a letter or digit, not bare punctuation (ㆍ is a Hangul letter to Unicode) */
+function isCountedWord(token: string): boolean {
+  return token !== 'ㆍ' && /[\p{L}\p{N}]/u.test(token);
+}
+
+/**
+ * Diff two texts by 어절. Runs of whitespace are equal when both sides have
+ * whitespace, so reflowed text does not register as a change.
+ */
+export function diffWords(before: string, after: string): WordDiff {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const same = (x: string, y: string) => x === y || (!isWord(x) && !isWord(y));
+
+  let segments: DiffSegment[];
+  if (a.length * b.length > MAX_CELLS) {
+    segments = [
+      ...(before ? [{ op: 'delete' as const, text: before }] : []),
+      ...(after ? [{ op: 'insert' as const, text: after }] : []),
+    ];
+  } else {
+    segments = lcsDiff(a, b, same);
+  }
+
+  let insertedWords = 0;
+  let deletedWords = 0;
+  for (const segment of segments) {
+    const words = tokenize(segment.text).filter(isCountedWord).length;
+    if (segment.op === 'insert') insertedWords += words;
+    if (segment.op === 'delete') deletedWords += words;
+  }
+
+  return {
+    segments,
+    inserted_words: insertedWords,
+    deleted_words: deletedWords,
+    inline: segments
+      .map(s => s.op === 'equal' ? s.text : s.op === 'delete' ? `[-${s.text}-]` : `{+${s.text}+}`)
+      .join(''),
+  };
+}
+
+function lcsDiff(a: string[], b: string[], same: (x: string, y: string) => boolean): DiffSegment[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  // lengths[i * width + j] = LCS of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = same(a[i], b[j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (same(a[i], b[j])) {
+      push('equal', b[j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < n) push('delete', a[i++]);
+  while (j < m) push('insert', b[j++]);
+
+  return segments;
+}